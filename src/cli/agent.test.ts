@@ -0,0 +1,121 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateSecretKey, getPublicKey, verifyEvent } from "nostr-tools/pure";
+import {
+  agentRequest,
+  getAgentSigner,
+  getAgentStatus,
+  startAgent,
+  type KeyAgent,
+} from "./agent";
+import { AgentError, AgentNotRunningError } from "./errors";
+
+describe("key agent", () => {
+  let tempDir: string;
+  let socketPath: string;
+  let keyfile: string;
+  let secretKey: Uint8Array;
+  let pubkey: string;
+  let agent: KeyAgent | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-agent-"));
+    socketPath = join(tempDir, "agent.sock");
+    keyfile = join(tempDir, "nostr.key");
+    secretKey = generateSecretKey();
+    pubkey = getPublicKey(secretKey);
+  });
+
+  afterEach(async () => {
+    agent?.stop();
+    agent = undefined;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("reports its status over a user-only socket", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    const status = await getAgentStatus(socketPath);
+
+    expect(status).toMatchObject({ pid: process.pid, pubkey, keyfile });
+    expect(status!.expiresAt).toBeGreaterThan(Date.now());
+    expect((await stat(socketPath)).mode & 0o777).toBe(0o600);
+  });
+
+  test("signs auth events for the keyfile it holds", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    const signer = await getAgentSigner(keyfile, socketPath);
+    const event = await signer!.sign({
+      kind: 27235,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [["u", "http://api/api/posts"], ["method", "POST"]],
+      content: "",
+    });
+
+    expect(signer!.pubkey).toBe(pubkey);
+    expect(event.pubkey).toBe(pubkey);
+    expect(verifyEvent(event)).toBe(true);
+  });
+
+  test("is not used for another keyfile", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    expect(await getAgentSigner(join(tempDir, "other.key"), socketPath)).toBeUndefined();
+  });
+
+  test("refuses to sign anything but auth events", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    const request = agentRequest(socketPath, {
+      method: "sign",
+      event: { kind: 1, created_at: 0, tags: [], content: "hi" },
+    });
+
+    await expect(request).rejects.toThrow("only signs NIP-98 auth events");
+  });
+
+  test("forgets the key when the TTL ends", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 0.2 });
+
+    await agent.stopped;
+
+    expect(secretKey.every((byte) => byte === 0)).toBe(true);
+    expect(await getAgentStatus(socketPath)).toBeUndefined();
+    expect(await Bun.file(socketPath).exists()).toBe(false);
+  });
+
+  test("stops on request", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    expect(await agentRequest(socketPath, { method: "stop" })).toBe(true);
+    await agent.stopped;
+
+    expect(await getAgentSigner(keyfile, socketPath)).toBeUndefined();
+  });
+
+  test("refuses to start twice on the same socket", async () => {
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    await expect(
+      startAgent({ secretKey: generateSecretKey(), keyfile, socketPath, ttl: 60 }),
+    ).rejects.toThrow(AgentError);
+  });
+
+  test("replaces a stale socket file", async () => {
+    await Bun.write(socketPath, "");
+
+    agent = await startAgent({ secretKey, keyfile, socketPath, ttl: 60 });
+
+    expect((await getAgentStatus(socketPath))?.pubkey).toBe(pubkey);
+  });
+
+  test("reports when no agent is running", async () => {
+    expect(await getAgentStatus(socketPath)).toBeUndefined();
+    await expect(agentRequest(socketPath, { method: "status" })).rejects.toThrow(
+      AgentNotRunningError,
+    );
+  });
+});
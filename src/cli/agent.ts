@@ -0,0 +1,227 @@
+/**
+ * Key agent: keeps the decrypted key in memory for a limited time and signs
+ * NIP-98 auth events for other commands over a user-only Unix socket, so the
+ * password is asked for (and the key decrypted) once instead of per command.
+ *
+ * The protocol is one line of JSON per request and response.
+ */
+
+import { rmSync } from "node:fs";
+import { chmod, mkdir, rm } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { HTTPAuth } from "nostr-tools/kinds";
+import { finalizeEvent, getPublicKey, verifyEvent, type Event } from "nostr-tools/pure";
+import { config } from "./config";
+import { AgentError, AgentNotRunningError } from "./errors";
+import {
+  type AgentRequest,
+  type AgentResponse,
+  type AgentStatus,
+  type Signer,
+  type StartAgentOptions,
+} from "./types";
+
+/** Longest delay setTimeout supports */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * A running key agent.
+ */
+export interface KeyAgent {
+  status: AgentStatus;
+  /** Forgets the key and closes the socket */
+  stop(): void;
+  /** Resolves once the agent has stopped, on request or when the TTL ends */
+  stopped: Promise<void>;
+}
+
+/**
+ * Starts a key agent listening on `socketPath`.
+ *
+ * @throws {AgentError} If another agent is already listening on the socket
+ */
+export async function startAgent(options: StartAgentOptions): Promise<KeyAgent> {
+  const { secretKey, socketPath } = options;
+
+  await mkdir(dirname(socketPath), { recursive: true, mode: 0o700 });
+  const running = await getAgentStatus(socketPath);
+  if (running) {
+    throw new AgentError(`A key agent (pid ${running.pid}) is already running at ${socketPath}`);
+  }
+  // A socket file left behind by an agent that didn't exit cleanly
+  await rm(socketPath, { force: true });
+
+  const status: AgentStatus = {
+    pid: process.pid,
+    pubkey: getPublicKey(secretKey),
+    keyfile: resolve(options.keyfile),
+    expiresAt: Date.now() + options.ttl * 1000,
+  };
+
+  let resolveStopped!: () => void;
+  const stopped = new Promise<void>((done) => (resolveStopped = done));
+  let active = true;
+
+  const stop = () => {
+    if (!active) return;
+    active = false;
+    clearTimeout(timer);
+    secretKey.fill(0);
+    server.stop(true);
+    rmSync(socketPath, { force: true });
+    resolveStopped();
+  };
+
+  const handle = (line: string): AgentResponse => {
+    let request: AgentRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return { error: "Invalid request" };
+    }
+
+    switch (request.method) {
+      case "status":
+        return { result: status };
+      case "sign":
+        // Only auth events, so access to the socket can't be used to publish notes
+        if (request.event?.kind !== HTTPAuth) {
+          return { error: `The agent only signs NIP-98 auth events (kind ${HTTPAuth})` };
+        }
+        return { result: finalizeEvent(request.event, secretKey) };
+      case "stop":
+        setTimeout(stop, 0);
+        return { result: true };
+      default:
+        return { error: "Unknown method" };
+    }
+  };
+
+  // Create the socket readable only by the current user
+  const umask = process.umask(0o077);
+  let server: ReturnType<typeof Bun.listen<{ buffer: string }>>;
+  try {
+    server = Bun.listen<{ buffer: string }>({
+      unix: socketPath,
+      socket: {
+        open(socket) {
+          socket.data = { buffer: "" };
+        },
+        data(socket, chunk) {
+          socket.data.buffer += chunk.toString();
+          let newline: number;
+          while ((newline = socket.data.buffer.indexOf("\n")) !== -1) {
+            const line = socket.data.buffer.slice(0, newline);
+            socket.data.buffer = socket.data.buffer.slice(newline + 1);
+            socket.write(JSON.stringify(handle(line)) + "\n");
+          }
+        },
+      },
+    });
+  } finally {
+    process.umask(umask);
+  }
+  await chmod(socketPath, 0o600);
+
+  const timer = setTimeout(stop, Math.min(options.ttl * 1000, MAX_TIMEOUT));
+
+  return { status, stop, stopped };
+}
+
+/**
+ * Sends a request to the key agent and returns its result.
+ *
+ * @throws {AgentNotRunningError} If no agent is listening on the socket
+ * @throws {AgentError} If the agent rejects the request or doesn't answer
+ */
+export async function agentRequest(
+  socketPath: string,
+  request: AgentRequest,
+  timeout = 5000,
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    let settled = false;
+
+    const settle = (error: Error | undefined, result?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const timer = setTimeout(
+      () => settle(new AgentError(`Key agent didn't respond within ${timeout}ms`)),
+      timeout,
+    );
+
+    Bun.connect({
+      unix: socketPath,
+      socket: {
+        open(socket) {
+          socket.write(JSON.stringify(request) + "\n");
+        },
+        data(socket, chunk) {
+          buffer += chunk.toString();
+          const newline = buffer.indexOf("\n");
+          if (newline === -1) return;
+
+          let response: AgentResponse | undefined;
+          try {
+            response = JSON.parse(buffer.slice(0, newline));
+          } catch {
+            settle(new AgentError("Invalid response from key agent"));
+          }
+          if (response && "error" in response) settle(new AgentError(response.error));
+          else if (response) settle(undefined, response.result);
+          socket.end();
+        },
+        close() {
+          settle(new AgentError("Key agent closed the connection"));
+        },
+        error(_socket, error) {
+          settle(new AgentError(`Key agent connection failed: ${error.message}`));
+        },
+      },
+    }).catch(() => settle(new AgentNotRunningError(socketPath)));
+  });
+}
+
+/**
+ * Returns the status of the key agent, or undefined if none is running.
+ */
+export async function getAgentStatus(
+  socketPath: string = config.agentSocketPath,
+): Promise<AgentStatus | undefined> {
+  try {
+    return (await agentRequest(socketPath, { method: "status" })) as AgentStatus;
+  } catch (error) {
+    if (error instanceof AgentNotRunningError) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Returns a signer backed by the key agent if it holds the key of `keyfile`,
+ * or undefined so the caller can fall back to decrypting the keyfile.
+ */
+export async function getAgentSigner(
+  keyfile: string,
+  socketPath: string = config.agentSocketPath,
+): Promise<Signer | undefined> {
+  const status = await getAgentStatus(socketPath);
+  if (!status || status.keyfile !== resolve(keyfile)) return undefined;
+
+  return {
+    pubkey: status.pubkey,
+    sign: async (event) => {
+      const signed = (await agentRequest(socketPath, { method: "sign", event })) as Event;
+      if (signed?.pubkey !== status.pubkey || !verifyEvent(signed)) {
+        throw new AgentError("Key agent returned an invalid signature");
+      }
+      return signed;
+    },
+    close: async () => {},
+  };
+}
@@ -0,0 +1,168 @@
+import { test, expect, describe } from "bun:test";
+import { finalizeEvent, generateSecretKey, type EventTemplate } from "nostr-tools/pure";
+import { ApiError, InvalidResponseError } from "./errors";
+import { My2satsClient, createPost, getPost } from "./api-client";
+
+const secretKey = generateSecretKey();
+const sign = async (event: EventTemplate) => finalizeEvent(event, secretKey);
+
+const post = { slug: "hello", title: "Hello", author: "Alice" };
+
+/**
+ * Creates a fake fetch that answers every request with the given responses in order.
+ */
+function fakeFetch(responses: Response[]) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const response = responses[calls.length - 1];
+    if (!response) throw new Error("Unexpected request");
+    return response;
+  }) as unknown as typeof fetch;
+  return { fn, calls };
+}
+
+function json(data: unknown, status = 200): Response {
+  return Response.json(data, { status });
+}
+
+describe("My2satsClient", () => {
+  test("creates a post with a signed request", async () => {
+    const { fn, calls } = fakeFetch([json(post, 201)]);
+    const client = new My2satsClient({ apiUrl: "http://api", sign, fetch: fn });
+
+    const result = await client.createPost({ ...post, content: "Hi" });
+
+    expect(result).toEqual(post);
+    expect(calls[0]?.url).toBe("http://api/api/posts");
+    expect(calls[0]?.init.method).toBe("POST");
+    expect(await new Response(calls[0]?.init.body).json()).toEqual({ ...post, content: "Hi" });
+    expect(new Headers(calls[0]?.init.headers).get("Authorization")).toStartWith("Nostr ");
+  });
+
+  test("updates and deletes posts by slug", async () => {
+    const { fn, calls } = fakeFetch([json({ post }), new Response(null, { status: 204 })]);
+    const client = new My2satsClient({ apiUrl: "http://api", sign, fetch: fn });
+
+    expect(await client.updatePost("hello", { title: "Hello" })).toEqual(post);
+    expect(await client.deletePost("hello")).toBeUndefined();
+    expect(calls.map((call) => [call.init.method, call.url])).toEqual([
+      ["PUT", "http://api/api/posts/hello"],
+      ["DELETE", "http://api/api/posts/hello"],
+    ]);
+  });
+
+  test("gets a post without signing", async () => {
+    const { fn, calls } = fakeFetch([json(post)]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    expect(await client.getPost("hello")).toEqual(post);
+    expect(new Headers(calls[0]?.init.headers).has("Authorization")).toBe(false);
+  });
+
+  test("lists posts with query parameters", async () => {
+    const { fn, calls } = fakeFetch([json({ posts: [post], total: 1, page: 2, limit: 5 })]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    const result = await client.listPosts({ tag: "nostr", page: 2, limit: 5, author: "" });
+
+    expect(result).toEqual({ posts: [post], total: 1, page: 2, limit: 5 });
+    expect(calls[0]?.url).toBe("http://api/api/posts?tag=nostr&page=2&limit=5");
+  });
+
+  test("pages through all posts", async () => {
+    const other = { ...post, slug: "other" };
+    const { fn, calls } = fakeFetch([
+      json({ posts: [post], total: 2, page: 1, limit: 1 }),
+      json({ posts: [other], total: 2, page: 2, limit: 1 }),
+    ]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    expect(await client.listAllPosts({ limit: 1 })).toEqual([post, other]);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("uploads an image as multipart form data", async () => {
+    const { fn, calls } = fakeFetch([json({ url: "https://cdn/a.png" })]);
+    const client = new My2satsClient({ apiUrl: "http://api", sign, fetch: fn });
+
+    const result = await client.uploadImage(new File(["png"], "a.png", { type: "image/png" }));
+
+    expect(result).toEqual({ url: "https://cdn/a.png" });
+    expect(calls[0]?.url).toBe("http://api/api/uploads");
+    const headers = new Headers(calls[0]?.init.headers);
+    expect(headers.get("Content-Type")).toStartWith("multipart/form-data; boundary=");
+    expect(await new Response(calls[0]?.init.body, { headers }).formData()).toBeInstanceOf(
+      FormData,
+    );
+  });
+
+  test("throws ApiError for unsuccessful responses", async () => {
+    const { fn } = fakeFetch([new Response("Not found", { status: 404 })]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    const error = await client.getPost("missing").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(404);
+  });
+
+  test("throws InvalidResponseError for malformed responses", async () => {
+    const { fn } = fakeFetch([json({ slug: "hello" }), new Response("<html>")]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    await expect(client.getPost("hello")).rejects.toThrow(InvalidResponseError);
+    await expect(client.getPost("hello")).rejects.toThrow("Expected JSON");
+  });
+
+  test("fetches the post when a write succeeds without returning it", async () => {
+    const { fn, calls } = fakeFetch([
+      json({ ok: true }, 201),
+      json(post),
+      new Response(null, { status: 204 }),
+      json({ ...post, slug: "renamed" }),
+    ]);
+    const client = new My2satsClient({ apiUrl: "http://api", sign, fetch: fn });
+
+    expect(await client.createPost({ ...post, content: "Hi" })).toEqual(post);
+    expect(await client.updatePost("hello", { slug: "renamed" })).toEqual({
+      ...post,
+      slug: "renamed",
+    });
+    expect(calls.map((call) => [call.init.method, call.url])).toEqual([
+      ["POST", "http://api/api/posts"],
+      ["GET", "http://api/api/posts/hello"],
+      ["PUT", "http://api/api/posts/hello"],
+      ["GET", "http://api/api/posts/renamed"],
+    ]);
+  });
+
+  test("requires a sign function for authenticated requests", async () => {
+    const { fn, calls } = fakeFetch([]);
+    const client = new My2satsClient({ apiUrl: "http://api", fetch: fn });
+
+    await expect(client.deletePost("hello")).rejects.toThrow(
+      "A sign function is required to delete a post.",
+    );
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe("deprecated functions", () => {
+  test("call the API through the client", async () => {
+    const originalFetch = globalThis.fetch;
+    const { fn, calls } = fakeFetch([json(post, 201), json(post)]);
+    globalThis.fetch = fn;
+
+    try {
+      expect(await createPost({ ...post, content: "Hi" }, sign, "http://api")).toEqual(post);
+      expect(await getPost("hello", "http://api")).toEqual(post);
+      expect(calls.map((call) => call.url)).toEqual([
+        "http://api/api/posts",
+        "http://api/api/posts/hello",
+      ]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -2,106 +2,312 @@
  * API client abstraction for my2sats API.
  */
 
-import { getToken } from "nostr-tools/nip98";
 import { config } from "./config";
-import { ApiError, ImageValidationError } from "./errors";
+import { request, type RequestOptions } from "./request";
+import { ApiError, ImageValidationError, InvalidResponseError } from "./errors";
+import { parsePost, parseListPostsResponse, parseUploadResponse } from "./models";
 import {
   type SignFunction,
   type PostPayload,
   type UpdatePayload,
   type UploadResponse,
+  type Post,
+  type ListPostsQuery,
+  type ListPostsResponse,
+  type My2satsClientOptions,
 } from "./types";
 
+/**
+ * Builds the URL of the posts collection, or of a single post if a slug is given.
+ */
+export function getPostsUrl(apiUrl: string, slug?: string): string {
+  return slug === undefined ? `${apiUrl}/api/posts` : `${apiUrl}/api/posts/${slug}`;
+}
+
+/**
+ * Builds the URL of the image upload endpoint.
+ */
+export function getUploadsUrl(apiUrl: string): string {
+  return `${apiUrl}/api/uploads`;
+}
+
+/**
+ * Typed client for the my2sats API.
+ *
+ * Every request goes through the shared request layer (NIP-98 signing,
+ * timeouts and retries), and every response is validated at runtime.
+ *
+ * @example
+ * ```ts
+ * const client = new My2satsClient({ apiUrl: config.apiUrl, sign });
+ * const post = await client.getPost("hello-world");
+ * ```
+ */
+export class My2satsClient {
+  readonly apiUrl: string;
+  private readonly sign?: SignFunction;
+  private readonly fetchFn?: typeof fetch;
+
+  constructor(options: My2satsClientOptions) {
+    this.apiUrl = options.apiUrl;
+    this.sign = options.sign;
+    this.fetchFn = options.fetch;
+  }
+
+  /**
+   * Creates a new post.
+   */
+  async createPost(payload: PostPayload): Promise<Post> {
+    // Creating isn't idempotent, so only retry when the server rate-limited us
+    const data = this.send(getPostsUrl(this.apiUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      sign: this.requireSign("create a post"),
+      retry: "rate-limit",
+    });
+    return this.readSavedPost(data, payload.slug, "created");
+  }
+
+  /**
+   * Updates an existing post.
+   */
+  async updatePost(slug: string, payload: UpdatePayload): Promise<Post> {
+    const data = this.send(getPostsUrl(this.apiUrl, slug), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      sign: this.requireSign("update a post"),
+    });
+    return this.readSavedPost(data, payload.slug ?? slug, "updated");
+  }
+
+  /**
+   * Deletes an existing post.
+   */
+  async deletePost(slug: string): Promise<void> {
+    await this.send(getPostsUrl(this.apiUrl, slug), {
+      method: "DELETE",
+      sign: this.requireSign("delete a post"),
+    });
+  }
+
+  /**
+   * Fetches a single post by slug.
+   */
+  async getPost(slug: string): Promise<Post> {
+    const data = await this.send(getPostsUrl(this.apiUrl, slug), { method: "GET" });
+    return parsePost(data);
+  }
+
+  /**
+   * Lists posts, optionally filtered, paginated and sorted.
+   */
+  async listPosts(query: ListPostsQuery = {}): Promise<ListPostsResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+
+    const queryString = params.toString();
+    const url = `${getPostsUrl(this.apiUrl)}${queryString ? `?${queryString}` : ""}`;
+
+    const data = await this.send(url, { method: "GET" });
+    return parseListPostsResponse(data);
+  }
+
+  /**
+   * Lists all posts matching a query by paging through the results.
+   */
+  async listAllPosts(query: Omit<ListPostsQuery, "page"> = {}): Promise<Post[]> {
+    const limit = query.limit ?? 100;
+    const posts: Post[] = [];
+
+    for (let page = 1; ; page++) {
+      const result = await this.listPosts({ ...query, page, limit });
+      posts.push(...result.posts);
+
+      // Stop when the server doesn't paginate or the last page was reached
+      const paginated = result.total !== undefined || result.page !== undefined;
+      if (
+        !paginated ||
+        result.posts.length < limit ||
+        (result.total !== undefined && posts.length >= result.total)
+      ) {
+        return posts;
+      }
+    }
+  }
+
+  /**
+   * Uploads an image.
+   */
+  async uploadImage(file: Blob): Promise<UploadResponse> {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    // Re-uploading the same file is harmless, so uploads are retried like idempotent calls
+    const data = await this.send(
+      getUploadsUrl(this.apiUrl),
+      {
+        method: "POST",
+        body: formData,
+        sign: this.requireSign("upload an image"),
+        timeout: config.uploadTimeout,
+      },
+      "Image upload failed: ",
+    );
+    return parseUploadResponse(data);
+  }
+
+  /**
+   * Sends a request and returns the parsed JSON body.
+   *
+   * @throws {ApiError} If the final response is unsuccessful
+   * @throws {NetworkError} If the server couldn't be reached
+   */
+  private async send(
+    url: string,
+    options: RequestOptions,
+    errorPrefix = "",
+  ): Promise<unknown> {
+    const response = await request(url, { ...options, fetch: this.fetchFn });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ApiError(response.status, `${errorPrefix}${errorText}`);
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new InvalidResponseError(`Expected JSON from ${url}`);
+    }
+  }
+
+  /**
+   * Validates the post returned by a successful write. Some servers answer
+   * with an acknowledgement instead of the post, so then the saved post is
+   * fetched rather than reporting the write as failed.
+   */
+  private async readSavedPost(
+    response: Promise<unknown>,
+    slug: string,
+    action: string,
+  ): Promise<Post> {
+    try {
+      return parsePost(await response);
+    } catch (error) {
+      if (!(error instanceof InvalidResponseError)) throw error;
+      console.warn(
+        `Warning: the post was ${action}, but the response isn't a post ` +
+          `(${error.message}). Fetching it instead.`,
+      );
+      return this.getPost(slug);
+    }
+  }
+
+  /**
+   * Returns the sign function, or throws if the client was created without one.
+   */
+  private requireSign(action: string): SignFunction {
+    if (!this.sign) {
+      throw new Error(`A sign function is required to ${action}.`);
+    }
+    return this.sign;
+  }
+}
+
 /**
  * Creates a new post.
+ * @deprecated Use {@link My2satsClient.createPost}.
  */
 export async function createPost(
   payload: PostPayload,
   sign: SignFunction,
   apiUrl: string = config.apiUrl,
-): Promise<unknown> {
-  const url = `${apiUrl}/api/posts`;
-  const token = await getToken(url, "POST", sign, true);
-
-  console.log(`Posting to ${url}...`);
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: token,
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new ApiError(response.status, errorText);
-  }
-
-  return response.json();
+): Promise<Post> {
+  return new My2satsClient({ apiUrl, sign }).createPost(payload);
 }
 
 /**
  * Updates an existing post.
+ * @deprecated Use {@link My2satsClient.updatePost}.
  */
 export async function updatePost(
   slug: string,
   payload: UpdatePayload,
   sign: SignFunction,
   apiUrl: string = config.apiUrl,
-): Promise<unknown> {
-  const url = `${apiUrl}/api/posts/${slug}`;
-  const token = await getToken(url, "PUT", sign, true);
-
-  console.log(`Updating post at ${url}...`);
-  const response = await fetch(url, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: token,
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new ApiError(response.status, errorText);
-  }
-
-  return response.json();
+): Promise<Post> {
+  return new My2satsClient({ apiUrl, sign }).updatePost(slug, payload);
 }
 
 /**
  * Deletes an existing post.
+ * @deprecated Use {@link My2satsClient.deletePost}.
  */
 export async function deletePost(
   slug: string,
   sign: SignFunction,
   apiUrl: string = config.apiUrl,
-): Promise<unknown> {
-  const url = `${apiUrl}/api/posts/${slug}`;
-  const token = await getToken(url, "DELETE", sign, true);
-
-  console.log(`Deleting post at ${url}...`);
-  const response = await fetch(url, {
-    method: "DELETE",
-    headers: {
-      Authorization: token,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new ApiError(response.status, errorText);
-  }
+): Promise<void> {
+  return new My2satsClient({ apiUrl, sign }).deletePost(slug);
+}
 
-  return response.json();
+/**
+ * Fetches a single post by slug.
+ * @deprecated Use {@link My2satsClient.getPost}.
+ */
+export async function getPost(slug: string, apiUrl: string = config.apiUrl): Promise<Post> {
+  return new My2satsClient({ apiUrl }).getPost(slug);
 }
 
 /**
- * Validates an image file before upload.
+ * Lists posts, optionally filtered, paginated and sorted.
+ * @deprecated Use {@link My2satsClient.listPosts}.
  */
-export async function validateImageFile(
+export async function listPosts(
+  query: ListPostsQuery = {},
+  apiUrl: string = config.apiUrl,
+): Promise<ListPostsResponse> {
+  return new My2satsClient({ apiUrl }).listPosts(query);
+}
+
+/**
+ * Lists all posts matching a query by paging through the results.
+ * @deprecated Use {@link My2satsClient.listAllPosts}.
+ */
+export async function listAllPosts(
+  query: Omit<ListPostsQuery, "page"> = {},
+  apiUrl: string = config.apiUrl,
+): Promise<Post[]> {
+  return new My2satsClient({ apiUrl }).listAllPosts(query);
+}
+
+/**
+ * Uploads an image to the API.
+ * @deprecated Use {@link My2satsClient.uploadImage}.
+ */
+export async function uploadImage(
+  file: Blob,
+  sign: SignFunction,
+  apiUrl: string = config.apiUrl,
+): Promise<UploadResponse> {
+  return new My2satsClient({ apiUrl, sign }).uploadImage(file);
+}
+
+/**
+ * Resolves an image path relative to the markdown file and checks that it exists.
+ */
+export async function findImageFile(
   filePath: string,
   basePath: string,
 ): Promise<{ file: ReturnType<typeof Bun.file>; fullPath: string }> {
@@ -116,10 +322,18 @@ export async function validateImageFile(
     throw new ImageValidationError(`Image not found: ${fullPath}`);
   }
 
+  return { file, fullPath };
+}
+
+/**
+ * Checks an image's size and type against the configured limits.
+ */
+export function checkImageFile(file: Blob, fullPath: string): void {
   const size = file.size;
   if (size > config.maxImageSize) {
+    const maxSizeMb = config.maxImageSize / 1024 / 1024;
     throw new ImageValidationError(
-      `Image exceeds maximum size of 5MB: ${fullPath} (${(size / 1024 / 1024).toFixed(2)}MB)`,
+      `Image exceeds maximum size of ${maxSizeMb}MB: ${fullPath} (${(size / 1024 / 1024).toFixed(2)}MB)`,
     );
   }
 
@@ -129,36 +343,16 @@ export async function validateImageFile(
       `Invalid image type for ${fullPath}: ${type}. Allowed types: ${config.allowedImageTypes.join(", ")}`,
     );
   }
-
-  return { file, fullPath };
 }
 
 /**
- * Uploads an image to the API.
+ * Validates an image file before upload.
  */
-export async function uploadImage(
-  file: ReturnType<typeof Bun.file>,
-  sign: SignFunction,
-  apiUrl: string = config.apiUrl,
-): Promise<UploadResponse> {
-  const url = `${apiUrl}/api/uploads`;
-  const token = await getToken(url, "POST", sign, true);
-
-  const formData = new FormData();
-  formData.append("file", file);
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: token,
-    },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new ApiError(response.status, `Image upload failed: ${errorText}`);
-  }
-
-  return response.json() as Promise<UploadResponse>;
+export async function validateImageFile(
+  filePath: string,
+  basePath: string,
+): Promise<{ file: ReturnType<typeof Bun.file>; fullPath: string }> {
+  const { file, fullPath } = await findImageFile(filePath, basePath);
+  checkImageFile(file, fullPath);
+  return { file, fullPath };
 }
@@ -0,0 +1,137 @@
+import { test, expect, describe } from "bun:test";
+import { generateSecretKey } from "nostr-tools/pure";
+import {
+  buildExcerpt,
+  deriveFields,
+  findFreeSlug,
+  getContentStats,
+  isSlugTaken,
+  slugify,
+  stripMarkdown,
+  transliterate,
+} from "./auto-fields";
+import { createSignFunction } from "./crypto";
+import { ValidationError } from "./errors";
+import { createMockClient } from "./mock-client.test-helper";
+
+const sign = createSignFunction(generateSecretKey());
+
+describe("slugify", () => {
+  test("transliterates accents, Cyrillic and Greek", () => {
+    expect(transliterate("Crème Brûlée")).toBe("Creme Brulee");
+    expect(transliterate("Straße")).toBe("Strasse");
+    expect(slugify("Привет, мир")).toBe("privet-mir");
+    expect(slugify("Καλημέρα")).toBe("kalimera");
+  });
+
+  test("makes URL-safe slugs", () => {
+    expect(slugify("  Hello, World! It's 2024 ")).toBe("hello-world-its-2024");
+    expect(slugify("Crème Brûlée -- a recipe")).toBe("creme-brulee-a-recipe");
+  });
+
+  test("returns an empty slug when nothing can be transliterated", () => {
+    expect(slugify("你好")).toBe("");
+  });
+
+  test("limits the length without a trailing hyphen", () => {
+    const slug = slugify(`${"a".repeat(79)} b`);
+
+    expect(slug).toBe("a".repeat(79));
+  });
+});
+
+describe("findFreeSlug", () => {
+  test("numbers the slug until it's free", async () => {
+    const taken = new Set(["hello", "hello-2"]);
+
+    expect(await findFreeSlug("hello", async (slug) => taken.has(slug))).toBe("hello-3");
+    expect(await findFreeSlug("other", async (slug) => taken.has(slug))).toBe("other");
+  });
+
+  test("gives up after too many attempts", async () => {
+    await expect(findFreeSlug("hello", async () => true)).rejects.toThrow(ValidationError);
+  });
+
+  test("asks the server which slugs are taken", async () => {
+    const { client } = await createMockClient(sign);
+    await client.createPost({ slug: "hello", title: "Hello", author: "Alice", content: "Hi" });
+
+    expect(await isSlugTaken(client, "hello")).toBe(true);
+    expect(await isSlugTaken(client, "hello-2")).toBe(false);
+  });
+});
+
+describe("excerpts", () => {
+  test("stripMarkdown keeps only the text", () => {
+    const markdown =
+      "# Title\n\nSome **bold**, _italic_ and `code` with a [link](https://x.com).\n\n" +
+      "![pic](./pic.png)\n\n```js\nconst x = 1;\n```\n\n> Quoted <b>html</b>";
+
+    expect(stripMarkdown(markdown)).toBe(
+      "Title\n\nSome bold, italic and code with a link.\n\nQuoted html",
+    );
+  });
+
+  test("buildExcerpt uses the first paragraph after headings and images", () => {
+    const content = "# Title\n\n![pic](./pic.png)\n\nFirst **paragraph**\nwraps here.\n\nSecond.";
+
+    expect(buildExcerpt(content, 160)).toBe("First paragraph wraps here.");
+  });
+
+  test("buildExcerpt cuts long paragraphs at a word boundary", () => {
+    const content = "The quick brown fox jumps over the lazy dog.";
+
+    expect(buildExcerpt(content, 20)).toBe("The quick brown fox…");
+    expect(buildExcerpt(content, 20).length).toBeLessThanOrEqual(20);
+  });
+
+  test("buildExcerpt returns nothing for content without text", () => {
+    expect(buildExcerpt("# Only a heading\n\n```\ncode\n```", 160)).toBe("");
+  });
+});
+
+describe("getContentStats", () => {
+  test("counts words outside code blocks and markup", () => {
+    const content = "# Hello world\n\nOne two three [four](./x.md) — five.\n\n```\nnot counted\n```";
+
+    expect(getContentStats(content, 200)).toEqual({ word_count: 7, reading_time: 1 });
+  });
+
+  test("rounds the reading time up", () => {
+    expect(getContentStats("word ".repeat(401), 200)).toEqual({
+      word_count: 401,
+      reading_time: 3,
+    });
+  });
+});
+
+describe("deriveFields", () => {
+  test("fills in a missing slug and excerpt", async () => {
+    const result = await deriveFields({ title: "Crème Brûlée" }, "A classic dessert.");
+
+    expect(result).toEqual({
+      frontmatter: { title: "Crème Brûlée", slug: "creme-brulee", excerpt: "A classic dessert." },
+      derived: ["slug", "excerpt"],
+    });
+  });
+
+  test("keeps fields that are set", async () => {
+    const frontmatter = { title: "Hello", slug: "custom", excerpt: "Mine" };
+
+    expect(await deriveFields(frontmatter, "Body")).toEqual({ frontmatter, derived: [] });
+  });
+
+  test("numbers the slug when a post already has it", async () => {
+    const { client } = await createMockClient(sign);
+    await client.createPost({ slug: "hello", title: "Hello", author: "Alice", content: "Hi" });
+
+    const { frontmatter } = await deriveFields({ title: "Hello" }, "", { client });
+
+    expect(frontmatter.slug).toBe("hello-2");
+  });
+
+  test("fails when no slug can be derived from the title", async () => {
+    await expect(deriveFields({ title: "你好" }, "")).rejects.toThrow(ValidationError);
+    await expect(deriveFields({}, "")).rejects.toThrow("add a title");
+  });
+});
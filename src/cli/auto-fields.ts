@@ -0,0 +1,182 @@
+/**
+ * Opt-in derived post fields: a slug from the title, an excerpt from the
+ * first paragraph, and the word count and reading time of the content.
+ */
+
+import { type My2satsClient } from "./api-client";
+import { config } from "./config";
+import { ApiError, ValidationError } from "./errors";
+import { type AutoFieldsOptions, type ContentStats, type PostFrontmatter } from "./types";
+
+/** Letters that Unicode decomposition doesn't reduce to ASCII */
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ð: "d", þ: "th", ł: "l", ı: "i", ħ: "h",
+  // Cyrillic
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "e", ж: "zh", з: "z", и: "i",
+  й: "y", к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t",
+  у: "u", ф: "f", х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y",
+  ь: "", э: "e", ю: "yu", я: "ya", є: "ye", і: "i", ї: "yi", ґ: "g",
+  // Greek
+  α: "a", β: "v", γ: "g", δ: "d", ε: "e", ζ: "z", η: "i", θ: "th", ι: "i", κ: "k",
+  λ: "l", μ: "m", ν: "n", ξ: "x", ο: "o", π: "p", ρ: "r", σ: "s", ς: "s", τ: "t",
+  υ: "y", φ: "f", χ: "ch", ψ: "ps", ω: "o",
+};
+
+/** How many numbered slugs are tried when the derived one is taken */
+const MAX_SLUG_ATTEMPTS = 100;
+
+/**
+ * Converts text to ASCII: accents are dropped and Cyrillic and Greek letters
+ * are transliterated. Characters without an ASCII form are kept as they are.
+ */
+export function transliterate(text: string): string {
+  return [...text.normalize("NFKD").replace(/\p{M}/gu, "")]
+    .map((char) => {
+      const lower = char.toLowerCase();
+      const ascii = TRANSLITERATIONS[lower];
+      if (ascii === undefined) return char;
+      return char === lower ? ascii : ascii.charAt(0).toUpperCase() + ascii.slice(1);
+    })
+    .join("");
+}
+
+/**
+ * Derives a URL-safe slug (lowercase letters, digits and single hyphens) from text.
+ * Returns "" if nothing is left, e.g. for a title in Chinese.
+ */
+export function slugify(text: string): string {
+  return transliterate(text)
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Returns the first slug that `isTaken` rejects: `base`, then `base-2`, `base-3`, ...
+ *
+ * @throws {ValidationError} If no free slug is found
+ */
+export async function findFreeSlug(
+  base: string,
+  isTaken: (slug: string) => Promise<boolean>,
+): Promise<string> {
+  for (let n = 1; n <= MAX_SLUG_ATTEMPTS; n++) {
+    const slug = n === 1 ? base : `${base}-${n}`;
+    if (!(await isTaken(slug))) return slug;
+  }
+  throw new ValidationError(["slug"], `No free slug found for "${base}"; set one in the frontmatter`);
+}
+
+/**
+ * Checks whether a post with this slug exists on the server.
+ */
+export async function isSlugTaken(client: My2satsClient, slug: string): Promise<boolean> {
+  try {
+    await client.getPost(slug);
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return false;
+    throw error;
+  }
+}
+
+/**
+ * Converts markdown to plain text: code blocks, images and HTML are dropped,
+ * and links and emphasis are reduced to their text.
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, "\n")
+    .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[^\n]*$/gm, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+    .replace(/^\s*\[[^\]]+\]:\s+\S.*$/gm, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:[\s\S]*?\S)?)\1/g, "$2")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Builds an excerpt from the first paragraph of text in markdown content,
+ * cut at a word boundary to at most `maxLength` characters.
+ */
+export function buildExcerpt(content: string, maxLength: number): string {
+  const paragraph = content
+    .replace(/\r\n?/g, "\n")
+    .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[^\n]*$/gm, "")
+    .split(/\n\s*\n/)
+    .filter((block) => !/^\s{0,3}#/.test(block))
+    .map((block) => stripMarkdown(block).replace(/\s+/g, " "))
+    .find((text) => text.length > 0);
+
+  if (!paragraph || paragraph.length <= maxLength) return paragraph ?? "";
+
+  // Leave room for the ellipsis; a long word without a space nearby is cut mid-word
+  const cut = paragraph.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  const text = lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut.slice(0, maxLength - 1);
+  return `${text.replace(/[\s,;:.-]+$/, "")}…`;
+}
+
+/**
+ * Counts the words of markdown content and estimates its reading time.
+ */
+export function getContentStats(
+  content: string,
+  wordsPerMinute: number = config.wordsPerMinute,
+): ContentStats {
+  const words = stripMarkdown(content)
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+  return { word_count: words, reading_time: Math.max(1, Math.ceil(words / wordsPerMinute)) };
+}
+
+/**
+ * Fills in a missing slug and excerpt. The slug is checked against the server
+ * when a client is given, and numbered if it's taken.
+ *
+ * @returns The frontmatter with derived fields, and which fields were derived
+ * @throws {ValidationError} If there is no title to derive a slug from
+ */
+export async function deriveFields(
+  frontmatter: PostFrontmatter,
+  content: string,
+  options: AutoFieldsOptions = {},
+): Promise<{ frontmatter: PostFrontmatter; derived: (keyof PostFrontmatter)[] }> {
+  const result = { ...frontmatter };
+  const derived: (keyof PostFrontmatter)[] = [];
+
+  if (!result.slug && options.slug !== false) {
+    const base = slugify(result.title ?? "");
+    if (!base) {
+      throw new ValidationError(
+        ["slug"],
+        result.title
+          ? `Can't derive a slug from the title "${result.title}"; set one in the frontmatter`
+          : "Missing required fields: slug (add a title to derive it from)",
+      );
+    }
+    const { client } = options;
+    result.slug = client ? await findFreeSlug(base, (slug) => isSlugTaken(client, slug)) : base;
+    derived.push("slug");
+  }
+
+  if (!result.excerpt?.trim()) {
+    const excerpt = buildExcerpt(content, options.excerptLength ?? config.excerptLength);
+    if (excerpt) {
+      result.excerpt = excerpt;
+      derived.push("excerpt");
+    }
+  }
+
+  return { frontmatter: result, derived };
+}
@@ -0,0 +1,169 @@
+import { Command } from "commander";
+import { spawn } from "node:child_process";
+import { resolve } from "node:path";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { npubEncode } from "nostr-tools/nip19";
+import { agentRequest, getAgentStatus, startAgent, type KeyAgent } from "../agent";
+import { config } from "../config";
+import { getSecretKey } from "../crypto";
+import { AgentError, handleError } from "../errors";
+import { printResult } from "../output";
+import { type AgentStartOptions, type AgentStatus } from "../types";
+import { parsePositiveInt } from "../utils";
+
+/** How long `agent start` waits for the background agent to listen */
+const START_TIMEOUT = 10_000;
+
+function describeAgent(status: AgentStatus): string {
+  const seconds = Math.max(0, Math.ceil((status.expiresAt - Date.now()) / 1000));
+  const remaining = seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)}m`;
+  return [
+    `Key agent running (pid ${status.pid})`,
+    `Public key: ${npubEncode(status.pubkey)}`,
+    `Keyfile: ${status.keyfile}`,
+    `Forgets the key in ${remaining}`,
+  ].join("\n");
+}
+
+/**
+ * Starts the agent in this process. It runs until stopped or its TTL ends.
+ */
+async function runAgent(secretKey: Uint8Array, options: AgentStartOptions): Promise<KeyAgent> {
+  const agent = await startAgent({
+    secretKey,
+    keyfile: options.keyfile,
+    socketPath: options.socket,
+    ttl: parsePositiveInt(options.ttl, "ttl"),
+  });
+  process.on("SIGINT", agent.stop);
+  process.on("SIGTERM", agent.stop);
+  return agent;
+}
+
+async function start(options: AgentStartOptions): Promise<void> {
+  const running = await getAgentStatus(options.socket);
+  if (running) {
+    throw new AgentError(`A key agent (pid ${running.pid}) is already running at ${options.socket}`);
+  }
+
+  const ttl = parsePositiveInt(options.ttl, "ttl");
+  const secretKey = await getSecretKey(options.keyfile);
+
+  if (options.foreground) {
+    const agent = await runAgent(secretKey, options);
+    printResult(agent.status, `Key agent listening on ${options.socket} (Ctrl+C to stop)`);
+    await agent.stopped;
+    return;
+  }
+
+  // Start the agent in the background and hand it the key over stdin
+  const child = spawn(
+    process.execPath,
+    [
+      process.argv[1]!,
+      "agent",
+      "serve",
+      "--keyfile",
+      resolve(options.keyfile),
+      "--socket",
+      resolve(options.socket),
+      "--ttl",
+      String(ttl),
+    ],
+    { detached: true, stdio: ["pipe", "ignore", "ignore"] },
+  );
+  child.stdin!.end(bytesToHex(secretKey));
+  child.unref();
+
+  const deadline = Date.now() + START_TIMEOUT;
+  while (Date.now() < deadline) {
+    const status = await getAgentStatus(options.socket);
+    if (status) {
+      printResult(status, describeAgent(status));
+      return;
+    }
+    if (child.exitCode !== null) break;
+    await Bun.sleep(100);
+  }
+  throw new AgentError("Key agent failed to start");
+}
+
+async function serve(options: AgentStartOptions): Promise<void> {
+  const secretKey = hexToBytes((await Bun.stdin.text()).trim());
+  await (await runAgent(secretKey, options)).stopped;
+}
+
+async function stopAgent(options: { socket: string }): Promise<void> {
+  if (!(await getAgentStatus(options.socket))) {
+    printResult({ stopped: false }, "No key agent running.");
+    return;
+  }
+  await agentRequest(options.socket, { method: "stop" });
+  printResult({ stopped: true }, "Key agent stopped.");
+}
+
+async function showStatus(options: { socket: string }): Promise<void> {
+  const status = await getAgentStatus(options.socket);
+  printResult(
+    status ? { running: true, ...status } : { running: false },
+    status ? describeAgent(status) : "No key agent running.",
+  );
+}
+
+const socketOption = ["-s, --socket <path>", "Path of the agent's socket", config.agentSocketPath] as const;
+
+const startOptions = (command: Command) =>
+  command
+    .option("-k, --keyfile <path>", "Path to the encrypted key file", config.keyfilePath)
+    .option(...socketOption)
+    .option("--ttl <seconds>", "How long to keep the decrypted key", String(config.agentTtl));
+
+export const agentCommand = new Command("agent")
+  .description("Keep the decrypted key in a background agent between commands")
+  .addCommand(
+    startOptions(new Command("start"))
+      .description("Decrypt the key and start the agent")
+      .option("--foreground", "Run the agent in this terminal instead of the background", false)
+      .action(async (options: AgentStartOptions) => {
+        try {
+          await start(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("stop")
+      .description("Stop the agent and forget the key")
+      .option(...socketOption)
+      .action(async (options: { socket: string }) => {
+        try {
+          await stopAgent(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("status")
+      .description("Show whether the agent is running and which key it holds")
+      .option(...socketOption)
+      .action(async (options: { socket: string }) => {
+        try {
+          await showStatus(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    startOptions(new Command("serve"))
+      .action(async (options: AgentStartOptions) => {
+        try {
+          await serve(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+    { hidden: true },
+  );
@@ -0,0 +1,261 @@
+import { Command } from "commander";
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  CONFIG_ENV_VARS,
+  CONFIG_KEYS,
+  Config,
+  ConfigError,
+  config,
+  parseConfigValue,
+  type ConfigKey,
+} from "../config";
+import { handleError } from "../errors";
+import { printResult } from "../output";
+import { type ConfigSetOptions } from "../types";
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Reads the config file as plain JSON, keeping keys the CLI doesn't know.
+ */
+async function readRawConfig(path: string): Promise<RawConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid JSON in config file ${path}: ${reason}`);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+  return data as RawConfig;
+}
+
+async function writeRawConfig(path: string, data: RawConfig): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, JSON.stringify(data, null, 2) + "\n");
+}
+
+/**
+ * Returns the object a setting is written to: a profile's settings, or the
+ * top level of the config file. Missing profiles are created.
+ */
+function getTarget(data: RawConfig, profile: string | undefined): RawConfig {
+  if (profile === undefined) return data;
+
+  if (typeof data.profiles !== "object" || data.profiles === null || Array.isArray(data.profiles)) {
+    data.profiles = {};
+  }
+  const profiles = data.profiles as RawConfig;
+  if (typeof profiles[profile] !== "object" || profiles[profile] === null) {
+    profiles[profile] = {};
+  }
+  return profiles[profile] as RawConfig;
+}
+
+/**
+ * Formats a value for display: strings as they are, everything else as JSON.
+ */
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function isConfigKey(key: string): key is ConfigKey {
+  return key in CONFIG_KEYS;
+}
+
+function unknownKeyError(key: string): ConfigError {
+  return new ConfigError(
+    `Unknown config key: ${key}. Known keys: ${Object.keys(CONFIG_KEYS).join(", ")}`,
+  );
+}
+
+async function initConfig(options: { force: boolean }): Promise<void> {
+  const path = await Config.createDefaultConfig(config.getConfigPath(), options.force);
+  printResult({ path }, `Config file created at ${path}`);
+}
+
+async function getConfigValue(key: string): Promise<void> {
+  if (key === "defaultProfile") {
+    const { defaultProfile } = Config.validateConfigFile(
+      await readRawConfig(config.getConfigPath()),
+    );
+    if (defaultProfile === undefined) throw new ConfigError("defaultProfile is not set");
+    printResult({ key, value: defaultProfile }, defaultProfile);
+    return;
+  }
+
+  if (!isConfigKey(key)) throw unknownKeyError(key);
+
+  const value = config[key];
+  if (value === undefined) throw new ConfigError(`${key} is not set`);
+  printResult({ key, value, source: config.getSource(key) }, formatValue(value));
+}
+
+async function setConfigValue(key: string, value: string, options: ConfigSetOptions): Promise<void> {
+  const path = config.getConfigPath();
+  const data = await readRawConfig(path);
+
+  if (key === "defaultProfile") {
+    if (!value) throw new ConfigError("Invalid value for defaultProfile: expected a profile name");
+    data.defaultProfile = value;
+    await writeRawConfig(path, data);
+    printResult({ key, value, path }, `Set defaultProfile in ${path}`);
+    return;
+  }
+
+  const parsed = parseConfigValue(key, value);
+  const profile = options.in ?? config.profile;
+  getTarget(data, profile)[key] = parsed;
+  await writeRawConfig(path, data);
+
+  const envVar = CONFIG_ENV_VARS[key as ConfigKey];
+  if (envVar && process.env[envVar] !== undefined) {
+    console.warn(`Note: ${envVar} is set and overrides this value`);
+  }
+  printResult(
+    { key, value: parsed, path, profile },
+    `Set ${key} = ${formatValue(parsed)}${profile ? ` in profile "${profile}"` : ""}`,
+  );
+}
+
+async function unsetConfigValue(key: string, options: ConfigSetOptions): Promise<void> {
+  if (key !== "defaultProfile" && !isConfigKey(key)) throw unknownKeyError(key);
+
+  const path = config.getConfigPath();
+  const data = await readRawConfig(path);
+  const profile = key === "defaultProfile" ? undefined : (options.in ?? config.profile);
+  const target = getTarget(data, profile);
+  const location = profile ? `profile "${profile}"` : path;
+
+  if (!(key in target)) {
+    printResult({ key, removed: false, path, profile }, `${key} is not set in ${location}`);
+    return;
+  }
+
+  delete target[key];
+  await writeRawConfig(path, data);
+  printResult({ key, removed: true, path, profile }, `Unset ${key} in ${location}`);
+}
+
+async function listConfig(): Promise<void> {
+  const path = config.getConfigPath();
+  const exists = await Bun.file(path).exists();
+  const keys = Object.keys(CONFIG_KEYS) as ConfigKey[];
+  const warnings = exists ? Config.checkConfigFile(await readRawConfig(path)) : [];
+
+  const lines = [`Config file: ${path}${exists ? "" : " (not found, using defaults)"}`];
+  if (config.profile) {
+    lines.push(`Profile: ${config.profile}`);
+  }
+  lines.push("");
+
+  const rows = keys.map((key) => {
+    const value = config[key];
+    return {
+      key,
+      value: value === undefined ? "(not set)" : formatValue(value),
+      source: config.getSource(key),
+    };
+  });
+  const keyWidth = Math.max(...rows.map((row) => row.key.length));
+  const valueWidth = Math.max(...rows.map((row) => row.value.length));
+  for (const row of rows) {
+    lines.push(`${row.key.padEnd(keyWidth)}  ${row.value.padEnd(valueWidth)}  ${row.source}`);
+  }
+
+  printResult(
+    {
+      path,
+      exists,
+      profile: config.profile,
+      settings: Object.fromEntries(
+        keys.map((key) => [key, { value: config[key], source: config.getSource(key) }]),
+      ),
+      warnings,
+    },
+    lines.join("\n"),
+  );
+
+  if (warnings.length > 0) {
+    console.warn();
+    for (const warning of warnings) {
+      console.warn(`Warning: ${warning}`);
+    }
+  }
+}
+
+export const configCommand = new Command("config")
+  .description("Inspect and edit the config file")
+  .addCommand(
+    new Command("init")
+      .description("Create a config file with default values")
+      .option("-f, --force", "Overwrite an existing config file", false)
+      .action(async (options: { force: boolean }) => {
+        try {
+          await initConfig(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("path")
+      .description("Print the path of the config file")
+      .action(() => printResult({ path: config.getConfigPath() }, config.getConfigPath())),
+  )
+  .addCommand(
+    new Command("get")
+      .description("Print the effective value of a setting")
+      .argument("<key>", "Setting name, e.g. apiUrl")
+      .action(async (key: string) => {
+        try {
+          await getConfigValue(key);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("set")
+      .description("Set a value in the config file (lists as JSON or comma-separated)")
+      .argument("<key>", "Setting name, e.g. apiUrl")
+      .argument("<value>", "New value")
+      .option("--in <profile>", "Write to this profile (default: the active profile, if any)")
+      .action(async (key: string, value: string, options: ConfigSetOptions) => {
+        try {
+          await setConfigValue(key, value, options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("unset")
+      .description("Remove a value from the config file")
+      .argument("<key>", "Setting name, e.g. apiUrl")
+      .option("--in <profile>", "Remove it from this profile (default: the active profile, if any)")
+      .action(async (key: string, options: ConfigSetOptions) => {
+        try {
+          await unsetConfigValue(key, options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("list")
+      .description("Show all settings with their values and where they come from")
+      .action(async () => {
+        try {
+          await listConfig();
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  );
@@ -1,74 +1,153 @@
 import { Command } from "commander";
-import { getPublicKey } from "nostr-tools/pure";
 import { config } from "../config";
-import { getSecretKey, createSignFunction } from "../crypto";
-import { createPost as apiCreatePost } from "../api-client";
-import { FileNotFoundError, ValidationError, handleError } from "../errors";
-import { type PostPayload, type CreatePostOptions } from "../types";
-import { parseFrontmatter, processImages, getBasePath } from "../utils";
+import { getSigner } from "../signer";
+import { My2satsClient, getPostsUrl, getUploadsUrl } from "../api-client";
+import { deriveFields, getContentStats } from "../auto-fields";
+import { FileNotFoundError, handleError } from "../errors";
+import { lintBeforePublish } from "../lint";
+import { printResult } from "../output";
+import { type CreatePostOptions, type ProcessImagesOptions } from "../types";
+import { createUploadCache } from "../upload-cache";
+import {
+  parseFrontmatter,
+  buildPostPayload,
+  processImages,
+  getBasePath,
+  validateLocalImages,
+  formatDryRun,
+  parsePositiveInt,
+} from "../utils";
+import {
+  DEFAULT_WATCH_DEBOUNCE,
+  createPostSnapshot,
+  interruptSignal,
+  watchPost,
+} from "../watch";
 
 async function createPost(
   filePath: string,
   options: CreatePostOptions,
 ): Promise<void> {
+  if (options.watch && options.dryRun) {
+    throw new Error("--watch can't be combined with --dry-run");
+  }
+  const debounce = parsePositiveInt(options.debounce, "debounce");
+  const concurrency = options.concurrency
+    ? parsePositiveInt(options.concurrency, "concurrency")
+    : undefined;
+  const autoFields = options.autoFields ?? config.autoFields;
+  const lintOptions = { autoFields, optimize: options.optimizeImages };
+
   // Read markdown file
   const file = Bun.file(filePath);
   if (!(await file.exists())) {
     throw new FileNotFoundError(filePath);
   }
 
-  const markdown = await file.text();
-  const { frontmatter, content } = parseFrontmatter(markdown);
+  if (options.lint) {
+    await lintBeforePublish(filePath, lintOptions);
+  }
 
-  // Validate required fields
-  const missingFields: string[] = [];
-  if (!frontmatter.slug) missingFields.push("slug");
-  if (!frontmatter.title) missingFields.push("title");
-  if (!frontmatter.author) missingFields.push("author");
+  const markdown = await file.text();
+  const { frontmatter: fileFrontmatter, content } = parseFrontmatter(markdown);
+  let frontmatter = fileFrontmatter;
 
-  if (missingFields.length > 0) {
-    throw new ValidationError(missingFields);
+  // Fill in a missing slug and excerpt; a dry run doesn't ask the server if the slug is taken
+  if (autoFields) {
+    const result = await deriveFields(frontmatter, content, {
+      client: options.dryRun ? undefined : new My2satsClient({ apiUrl: options.api }),
+    });
+    frontmatter = result.frontmatter;
+    for (const field of result.derived) {
+      console.log(`Derived ${field}: ${frontmatter[field]}`);
+    }
   }
 
-  const payload: PostPayload = {
-    slug: frontmatter.slug!,
-    title: frontmatter.title!,
-    content,
-    author: frontmatter.author!,
-    excerpt: frontmatter.excerpt,
-    featured_image: frontmatter.featured_image,
-    tags: frontmatter.tags,
+  const payload = {
+    ...buildPostPayload(frontmatter, content),
+    ...(autoFields ? getContentStats(content) : {}),
   };
 
-  // Get secret key and derive public key
-  const secretKey = await getSecretKey(options.keyfile);
-  const pubkey = getPublicKey(secretKey);
+  // Determine base path for resolving relative image paths
+  const basePath = getBasePath(filePath);
 
-  console.log(`Using pubkey: ${pubkey}`);
+  // Stop at the network boundary: validate images and show the request
+  if (options.dryRun) {
+    const images = await validateLocalImages(
+      content,
+      frontmatter.featured_image,
+      basePath,
+      { optimize: options.optimizeImages },
+    );
+    const request = {
+      method: "POST",
+      url: getPostsUrl(options.api),
+      payload,
+      images,
+      uploadUrl: getUploadsUrl(options.api),
+    };
+    printResult({ dryRun: true, ...request }, formatDryRun(request));
+    return;
+  }
 
-  // Create sign function for NIP-98
-  const sign = createSignFunction(secretKey);
+  // Taken before uploading, so watch mode compares later saves with what was sent
+  const snapshot = options.watch
+    ? await createPostSnapshot(fileFrontmatter, content, basePath)
+    : undefined;
 
-  // Determine base path for resolving relative image paths
-  const basePath = getBasePath(filePath);
+  // Get a signer for NIP-98: the local keyfile or a remote signer
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+
+  console.log(`Using pubkey: ${signer.pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
 
-  // Process and upload any local images
-  const { content: processedContent, featuredImageUrl } = await processImages(
-    content,
-    frontmatter.featured_image,
-    basePath,
-    options.api,
-    sign,
-  );
-
-  // Update payload with processed content and uploaded image URLs
-  payload.content = processedContent;
-  payload.featured_image = featuredImageUrl;
-
-  // Make API request
-  const result = await apiCreatePost(payload, sign, options.api);
-  console.log("Post created successfully:");
-  console.log(JSON.stringify(result, null, 2));
+  try {
+    const client = new My2satsClient({ apiUrl: options.api, sign: signer.sign });
+
+    const imageOptions: ProcessImagesOptions = {
+      useCache: options.cache,
+      optimize: options.optimizeImages,
+      concurrency,
+      sessionCache: options.watch ? createUploadCache() : undefined,
+    };
+
+    // Process and upload any local images
+    const { content: processedContent, featuredImageUrl } = await processImages(
+      content,
+      frontmatter.featured_image,
+      basePath,
+      client,
+      imageOptions,
+    );
+
+    // Update payload with processed content and uploaded image URLs
+    payload.content = processedContent;
+    payload.featured_image = featuredImageUrl;
+
+    // Make API request
+    console.log(`Posting to ${getPostsUrl(options.api)}...`);
+    const result = await client.createPost(payload);
+    printResult(result, `Post created successfully:\n${JSON.stringify(result, null, 2)}`);
+
+    // Keep the signer open and send later saves as updates
+    if (snapshot) {
+      await watchPost({
+        filePath,
+        slug: result.slug,
+        snapshot,
+        client,
+        imageOptions,
+        debounce,
+        autoFields,
+        lint: options.lint ? lintOptions : undefined,
+        signal: interruptSignal(),
+      });
+    }
+  } finally {
+    await signer.close();
+  }
 }
 
 export const createPostCommand = new Command("post")
@@ -80,9 +159,27 @@ export const createPostCommand = new Command("post")
     config.keyfilePath,
   )
   .option("-a, --api <url>", "API base URL", config.apiUrl)
-  .action(async (file: string, options: CreatePostOptions) => {
+  .option("--no-cache", "Upload all images again instead of reusing cached uploads")
+  .option("--optimize-images", "Resize and re-encode images before upload")
+  .option(
+    "--no-optimize-images",
+    "Upload images as they are, even if optimizeImages is set in the config",
+  )
+  .option("--concurrency <n>", "Maximum number of simultaneous image uploads")
+  .option("--no-lint", "Publish without checking the file for problems first")
+  .option(
+    "--auto-fields",
+    "Derive a missing slug and excerpt, and send word count and reading time",
+  )
+  .option(
+    "--no-auto-fields",
+    "Send the fields as they are, even if autoFields is set in the config",
+  )
+  .option("-w, --watch", "Keep running and update the post whenever the file or its images change")
+  .option("--debounce <ms>", "With --watch, wait this long after the last change", String(DEFAULT_WATCH_DEBOUNCE))
+  .action(async (file: string, _options: CreatePostOptions, command: Command) => {
     try {
-      await createPost(file, options);
+      await createPost(file, command.optsWithGlobals<CreatePostOptions>());
     } catch (error) {
       handleError(error);
     }
@@ -1,44 +1,50 @@
 import { Command } from "commander";
-import prompts from "prompts";
-import { getPublicKey } from "nostr-tools/pure";
 import { config } from "../config";
-import { getSecretKey, createSignFunction } from "../crypto";
-import { deletePost as apiDeletePost } from "../api-client";
+import { getSigner } from "../signer";
+import { My2satsClient, getPostsUrl } from "../api-client";
 import { handleError } from "../errors";
+import { confirm } from "../input";
+import { printResult } from "../output";
 import { type DeletePostOptions } from "../types";
+import { formatDryRun } from "../utils";
 
 async function deletePost(
   slug: string,
   options: DeletePostOptions,
 ): Promise<void> {
+  // Nothing is deleted in a dry run, so no confirmation is needed
+  if (options.dryRun) {
+    const request = { method: "DELETE", url: getPostsUrl(options.api, slug) };
+    printResult({ dryRun: true, ...request }, formatDryRun(request));
+    return;
+  }
+
   // Confirm deletion unless --force is used
   if (!options.force) {
-    const confirmation = await prompts({
-      type: "confirm",
-      name: "confirmed",
-      message: `Are you sure you want to delete the post "${slug}"?`,
-      initial: false,
-    });
-
-    if (!confirmation.confirmed) {
-      console.log("Deletion cancelled.");
+    if (!(await confirm(`Are you sure you want to delete the post "${slug}"?`))) {
+      printResult({ deleted: false, slug }, "Deletion cancelled.");
       return;
     }
   }
 
-  // Get secret key and derive public key
-  const secretKey = await getSecretKey(options.keyfile);
-  const pubkey = getPublicKey(secretKey);
+  // Get a signer for NIP-98: the local keyfile or a remote signer
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
 
-  console.log(`Using pubkey: ${pubkey}`);
+  console.log(`Using pubkey: ${signer.pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
 
-  // Create sign function for NIP-98
-  const sign = createSignFunction(secretKey);
+  try {
+    const client = new My2satsClient({ apiUrl: options.api, sign: signer.sign });
 
-  // Make API request
-  const result = await apiDeletePost(slug, sign, options.api);
-  console.log("Post deleted successfully:");
-  console.log(JSON.stringify(result, null, 2));
+    // Make API request
+    console.log(`Deleting post at ${getPostsUrl(options.api, slug)}...`);
+    await client.deletePost(slug);
+    printResult({ deleted: true, slug }, "Post deleted successfully.");
+  } finally {
+    await signer.close();
+  }
 }
 
 export const deletePostCommand = new Command("delete")
@@ -51,9 +57,9 @@ export const deletePostCommand = new Command("delete")
   )
   .option("-a, --api <url>", "API base URL", config.apiUrl)
   .option("-f, --force", "Skip confirmation prompt", false)
-  .action(async (slug: string, options: DeletePostOptions) => {
+  .action(async (slug: string, _options: DeletePostOptions, command: Command) => {
     try {
-      await deletePost(slug, options);
+      await deletePost(slug, command.optsWithGlobals<DeletePostOptions>());
     } catch (error) {
       handleError(error);
     }
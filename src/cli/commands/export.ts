@@ -0,0 +1,82 @@
+import { Command } from "commander";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { config } from "../config";
+import { getSigner } from "../signer";
+import { My2satsClient } from "../api-client";
+import { handleError } from "../errors";
+import { EXPORT_MANIFEST_NAME, exportPosts, loadExportManifest } from "../export";
+import { printResult } from "../output";
+import { type ExportOptions } from "../types";
+
+/**
+ * Returns the pubkey whose posts are exported: the given one, or the signer's.
+ */
+async function getPubkey(options: ExportOptions): Promise<string> {
+  if (options.pubkey) {
+    return options.pubkey;
+  }
+
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+  try {
+    return signer.pubkey;
+  } finally {
+    await signer.close();
+  }
+}
+
+async function exportAll(dir: string, options: ExportOptions): Promise<void> {
+  const pubkey = await getPubkey(options);
+  console.log(`Using pubkey: ${pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
+
+  const manifestPath = join(dir, EXPORT_MANIFEST_NAME);
+  const previous = await loadExportManifest(manifestPath, options.api, pubkey);
+
+  // Only a previous export of the same posts is written over without --force
+  const entries = await readdir(dir).catch(() => []);
+  if (!previous && entries.length > 0 && !options.force) {
+    throw new Error(
+      `Directory isn't empty and holds no export of these posts: ${dir}. ` +
+        "Use --force to export into it anyway.",
+    );
+  }
+
+  const client = new My2satsClient({ apiUrl: options.api });
+  const { manifest, downloaded, reused } = await exportPosts(client, dir, pubkey, previous);
+  const posts = Object.keys(manifest.posts).length;
+
+  printResult(
+    {
+      dir,
+      manifest: manifestPath,
+      posts,
+      assets: Object.keys(manifest.assets).length,
+      downloaded,
+      reused,
+    },
+    `\nExport complete: ${posts} post(s) written to ${dir}, ` +
+      `${downloaded} image(s) downloaded, ${reused} kept from the last export.`,
+  );
+}
+
+export const exportCommand = new Command("export")
+  .description("Back up all your posts as markdown files, with their images")
+  .argument("<dir>", "Directory to write the posts, images and manifest into")
+  .option(
+    "-k, --keyfile <path>",
+    "Path to the encrypted key file",
+    config.keyfilePath,
+  )
+  .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option("--pubkey <pubkey>", "Export the posts of this pubkey instead of your own")
+  .option("-f, --force", "Export into a directory that holds other files", false)
+  .action(async (dir: string, _options: ExportOptions, command: Command) => {
+    try {
+      await exportAll(dir, command.optsWithGlobals<ExportOptions>());
+    } catch (error) {
+      handleError(error);
+    }
+  });
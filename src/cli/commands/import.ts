@@ -0,0 +1,218 @@
+import { Command, Option } from "commander";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { config } from "../config";
+import { getSigner } from "../signer";
+import { My2satsClient } from "../api-client";
+import { ImportError, formatError, handleError } from "../errors";
+import {
+  IMPORT_FORMATS,
+  PROGRESS_FILE_SUFFIX,
+  formatImportPlan,
+  getDefaultProgressPath,
+  listMedia,
+  loadImportProgress,
+  planImport,
+  readImportSource,
+  saveImportProgress,
+  uploadMedia,
+} from "../import";
+import { confirm } from "../input";
+import { printResult } from "../output";
+import {
+  type ImportAction,
+  type ImportFailure,
+  type ImportOptions,
+  type ProcessImagesOptions,
+} from "../types";
+import { parsePositiveInt } from "../utils";
+
+/**
+ * Describes a planned action for --json output.
+ */
+function describeAction(action: ImportAction) {
+  const { id, frontmatter } = action.post;
+  switch (action.type) {
+    case "import":
+    case "exists":
+      return {
+        action: action.type,
+        id,
+        slug: action.payload.slug,
+        title: action.payload.title,
+        tags: action.payload.tags ?? [],
+        media: listMedia(action.post),
+      };
+    case "imported":
+      return { action: action.type, id, slug: action.slug };
+    case "draft":
+      return { action: action.type, id, slug: frontmatter.slug, title: frontmatter.title };
+    case "invalid":
+      return { action: action.type, id, reason: action.reason };
+  }
+}
+
+/**
+ * Counts the actions of a plan by type.
+ */
+function countActions(actions: ImportAction[]): Record<ImportAction["type"], number> {
+  const counts = { import: 0, imported: 0, exists: 0, draft: 0, invalid: 0 };
+  for (const action of actions) counts[action.type]++;
+  return counts;
+}
+
+async function importPosts(source: string, options: ImportOptions): Promise<void> {
+  const imageOptions: ProcessImagesOptions = {
+    optimize: options.optimizeImages,
+    concurrency: options.concurrency
+      ? parsePositiveInt(options.concurrency, "concurrency")
+      : undefined,
+  };
+  const readOptions = { siteUrl: options.siteUrl, staticDir: options.staticDir };
+  const planOptions = { includeDrafts: options.includeDrafts, author: options.author };
+  const progressPath = options.progress ?? getDefaultProgressPath(source);
+  const progress = await loadImportProgress(progressPath, options.api);
+
+  console.log(`Reading ${options.from} posts from ${source}...`);
+  const posts = await readImportSource(options.from, source, readOptions);
+
+  // Stop at the network boundary: report what would be imported
+  if (options.dryRun) {
+    const actions = planImport(posts, progress, planOptions);
+    const counts = countActions(actions);
+    printResult(
+      { dryRun: true, ...counts, progress: progressPath, posts: actions.map(describeAction) },
+      [
+        "Dry run: no key was decrypted and nothing was sent.",
+        "",
+        formatImportPlan(actions),
+        "",
+        `${posts.length} post(s) found: ${counts.import} to import, ` +
+          `${counts.imported} imported before, ${counts.draft} draft(s), ` +
+          `${counts.invalid} invalid.`,
+      ].join("\n"),
+    );
+    return;
+  }
+
+  // Get a signer for NIP-98: the local keyfile or a remote signer
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+
+  console.log(`Using pubkey: ${signer.pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
+
+  const downloadRoot = await mkdtemp(join(tmpdir(), "my2sats-import-"));
+
+  try {
+    const client = new My2satsClient({ apiUrl: options.api, sign: signer.sign });
+
+    // Posts created before an interrupted run could record them are left alone
+    const remotePosts = await client.listAllPosts({ pubkey: signer.pubkey });
+    const remoteSlugs = new Set(remotePosts.map((post) => post.slug));
+
+    const actions = planImport(posts, progress, { ...planOptions, remoteSlugs });
+    const pending = actions.filter((action) => action.type === "import");
+    const plan = actions.map(describeAction);
+
+    console.log("\nImport plan:");
+    console.log(formatImportPlan(actions));
+
+    if (pending.length === 0) {
+      printResult({ imported: 0, progress: progressPath, posts: plan }, "\nNothing to import.");
+      return;
+    }
+
+    if (!(await confirm(`Import ${pending.length} post(s)?`))) {
+      printResult(
+        { imported: 0, cancelled: true, progress: progressPath, posts: plan },
+        "Import cancelled.",
+      );
+      return;
+    }
+
+    const failures: ImportFailure[] = [];
+    let imported = 0;
+
+    for (const [index, action] of pending.entries()) {
+      const { post } = action;
+      console.log(`\n[${index + 1}/${pending.length}] Importing ${action.payload.slug}...`);
+
+      try {
+        // Each post downloads into a directory of its own, so file names never clash
+        const downloadDir = join(downloadRoot, String(index));
+        const payload = options.media
+          ? await uploadMedia(post, action.payload, client, downloadDir, imageOptions)
+          : action.payload;
+        await client.createPost(payload);
+      } catch (error) {
+        console.error(`Failed: ${formatError(error)}`);
+        failures.push({ id: post.id, slug: action.payload.slug, error: formatError(error) });
+        continue;
+      }
+
+      imported++;
+      progress.posts[post.id] = {
+        slug: action.payload.slug,
+        importedAt: new Date().toISOString(),
+      };
+
+      // Save after every post so an interrupted import can be resumed
+      await saveImportProgress(progressPath, progress);
+    }
+
+    if (failures.length > 0) {
+      throw new ImportError(failures, imported);
+    }
+
+    printResult(
+      { imported, progress: progressPath, posts: plan },
+      `\nImport complete: ${imported} post(s) imported.`,
+    );
+  } finally {
+    await rm(downloadRoot, { recursive: true, force: true });
+    await signer.close();
+  }
+}
+
+export const importCommand = new Command("import")
+  .description("Import posts from a Ghost or WordPress export, or a Jekyll or Hugo site")
+  .argument("<source>", "Ghost JSON export, WordPress WXR file, or Jekyll/Hugo directory")
+  .addOption(
+    new Option("--from <platform>", "Platform the source comes from")
+      .choices(IMPORT_FORMATS)
+      .makeOptionMandatory(),
+  )
+  .option(
+    "-k, --keyfile <path>",
+    "Path to the encrypted key file",
+    config.keyfilePath,
+  )
+  .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option("--site-url <url>", "Address of the Ghost blog, for links stored as __GHOST_URL__")
+  .option(
+    "--static-dir <dir>",
+    "Directory that root-relative media paths like /images/a.png resolve against",
+  )
+  .option("--author <name>", "Author of every post, instead of the one in the source")
+  .option("--include-drafts", "Also import drafts and unpublished posts")
+  .option("--no-media", "Keep media URLs as they are instead of uploading the media")
+  .option(
+    "-p, --progress <path>",
+    `Path to the progress file (default: <source>${PROGRESS_FILE_SUFFIX})`,
+  )
+  .option("--optimize-images", "Resize and re-encode images before upload")
+  .option(
+    "--no-optimize-images",
+    "Upload images as they are, even if optimizeImages is set in the config",
+  )
+  .option("--concurrency <n>", "Maximum number of simultaneous image uploads")
+  .action(async (source: string, _options: ImportOptions, command: Command) => {
+    try {
+      await importPosts(source, command.optsWithGlobals<ImportOptions>());
+    } catch (error) {
+      handleError(error);
+    }
+  });
@@ -0,0 +1,143 @@
+import { Command, Option } from "commander";
+import { nsecEncode, npubEncode } from "nostr-tools/nip19";
+import { generateSecretKey, getPublicKey } from "nostr-tools/pure";
+import { config } from "../config";
+import { getSecretKey, readKeyfile, writeKeyfile } from "../crypto";
+import { handleError } from "../errors";
+import { confirm, getNewPassword, promptNewPassword } from "../input";
+import { printResult } from "../output";
+import {
+  type KeyExportOptions,
+  type KeyGenerateOptions,
+  type KeyOptions,
+} from "../types";
+
+/**
+ * Describes the public key of a secret key, as text and for --json.
+ */
+function describePublicKey(secretKey: Uint8Array) {
+  const pubkey = getPublicKey(secretKey);
+  const npub = npubEncode(pubkey);
+  return { json: { npub, pubkey }, text: `npub: ${npub}\nhex:  ${pubkey}` };
+}
+
+async function showKey(options: KeyOptions): Promise<void> {
+  const { json, text } = describePublicKey(await getSecretKey(options.keyfile));
+  printResult(json, text);
+}
+
+async function generateKey(options: KeyGenerateOptions): Promise<void> {
+  // Refuse to replace an existing key unless --force is used
+  if (!options.force && (await Bun.file(options.keyfile).exists())) {
+    throw new Error(
+      `Keyfile already exists: ${options.keyfile}. Use --force to replace it.`,
+    );
+  }
+
+  const secretKey = generateSecretKey();
+  const password = await getNewPassword();
+
+  console.log("Encrypting key (this may take a moment)...");
+  await writeKeyfile(options.keyfile, secretKey, password);
+
+  const { json, text } = describePublicKey(secretKey);
+  printResult(
+    { ...json, keyfile: options.keyfile },
+    `New key stored in ${options.keyfile}\n${text}`,
+  );
+}
+
+async function changePassword(options: KeyOptions): Promise<void> {
+  const secretKey = await getSecretKey(options.keyfile);
+  const password = await promptNewPassword("Enter new encryption password:");
+
+  console.log("Encrypting key (this may take a moment)...");
+  await writeKeyfile(options.keyfile, secretKey, password);
+
+  printResult({ keyfile: options.keyfile }, `Password changed for ${options.keyfile}`);
+}
+
+async function exportKey(options: KeyExportOptions): Promise<void> {
+  // Confirm unless --force is used
+  if (!options.force) {
+    const confirmed = await confirm(
+      options.format === "nsec"
+        ? "This prints your unencrypted secret key. Anyone who sees it controls your identity. Continue?"
+        : "This prints your encrypted secret key. Continue?",
+    );
+
+    if (!confirmed) {
+      printResult({ exported: false }, "Export cancelled.");
+      return;
+    }
+  }
+
+  const key =
+    options.format === "ncryptsec"
+      ? await readKeyfile(options.keyfile)
+      : nsecEncode(await getSecretKey(options.keyfile));
+  printResult({ exported: true, format: options.format, key }, key);
+}
+
+const keyfileOption = () =>
+  new Option("-k, --keyfile <path>", "Path to the encrypted key file").default(
+    config.keyfilePath,
+  );
+
+export const keyCommand = new Command("key")
+  .description("Manage your encrypted Nostr key")
+  .addCommand(
+    new Command("show")
+      .description("Show the public key of the stored key")
+      .addOption(keyfileOption())
+      .action(async (options: KeyOptions) => {
+        try {
+          await showKey(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("generate")
+      .description("Generate a new keypair and store it encrypted")
+      .addOption(keyfileOption())
+      .option("-f, --force", "Replace an existing keyfile", false)
+      .action(async (options: KeyGenerateOptions) => {
+        try {
+          await generateKey(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("change-password")
+      .description("Re-encrypt the stored key with a new password")
+      .addOption(keyfileOption())
+      .action(async (options: KeyOptions) => {
+        try {
+          await changePassword(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  )
+  .addCommand(
+    new Command("export")
+      .description("Print the stored key as nsec or ncryptsec")
+      .addOption(keyfileOption())
+      .addOption(
+        new Option("--format <format>", "Export format")
+          .choices(["nsec", "ncryptsec"])
+          .default("nsec"),
+      )
+      .option("-f, --force", "Skip confirmation prompt", false)
+      .action(async (options: KeyExportOptions) => {
+        try {
+          await exportKey(options);
+        } catch (error) {
+          handleError(error);
+        }
+      }),
+  );
@@ -0,0 +1,31 @@
+import { Command } from "commander";
+import { EXIT_CODES, handleError } from "../errors";
+import { formatDiagnostic, lintPath } from "../lint";
+import { printResult } from "../output";
+
+async function lint(path: string): Promise<void> {
+  const { files, diagnostics } = await lintPath(path);
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+
+  const lines = diagnostics.map(formatDiagnostic);
+  if (lines.length > 0) lines.push("");
+  lines.push(`${files.length} file(s) checked: ${errors} error(s), ${warnings} warning(s)`);
+
+  printResult({ files, errors, warnings, diagnostics }, lines.join("\n"));
+
+  if (errors > 0) {
+    process.exitCode = EXIT_CODES.LintError;
+  }
+}
+
+export const lintCommand = new Command("lint")
+  .description("Check markdown posts for problems before publishing them")
+  .argument("<path>", "Markdown file, or a directory of posts to check recursively")
+  .action(async (path: string) => {
+    try {
+      await lint(path);
+    } catch (error) {
+      handleError(error);
+    }
+  });
@@ -0,0 +1,75 @@
+import { Command } from "commander";
+import { config } from "../config";
+import { getSigner } from "../signer";
+import { My2satsClient } from "../api-client";
+import { handleError } from "../errors";
+import { printResult } from "../output";
+import { type ListPostsQuery, type ListPostsOptions } from "../types";
+import { formatPostsTable, parsePositiveInt } from "../utils";
+
+async function listPosts(options: ListPostsOptions): Promise<void> {
+  const query: ListPostsQuery = {
+    tag: options.tag,
+    author: options.author,
+    pubkey: options.pubkey,
+    sort: options.sort,
+  };
+
+  if (options.page) query.page = parsePositiveInt(options.page, "page");
+  if (options.limit) query.limit = parsePositiveInt(options.limit, "limit");
+
+  if (options.order) {
+    if (options.order !== "asc" && options.order !== "desc") {
+      throw new Error(`Invalid order: ${options.order}. Expected "asc" or "desc".`);
+    }
+    query.order = options.order;
+  }
+
+  // Filter by own pubkey, taken from the signer
+  if (options.mine) {
+    const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+    try {
+      query.pubkey = signer.pubkey;
+    } finally {
+      await signer.close();
+    }
+  }
+
+  const result = await new My2satsClient({ apiUrl: options.api }).listPosts(query);
+
+  if (result.posts.length === 0) {
+    printResult(result, "No posts found.");
+    return;
+  }
+
+  let text = formatPostsTable(result.posts);
+  if (result.total !== undefined) {
+    const page = result.page ?? query.page ?? 1;
+    text += `\n\nShowing ${result.posts.length} of ${result.total} post(s) (page ${page})`;
+  }
+  printResult(result, text);
+}
+
+export const listPostsCommand = new Command("list")
+  .description("List posts")
+  .option(
+    "-k, --keyfile <path>",
+    "Path to the encrypted key file",
+    config.keyfilePath,
+  )
+  .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option("-t, --tag <tag>", "Only show posts with this tag")
+  .option("--author <author>", "Only show posts by this author")
+  .option("--pubkey <pubkey>", "Only show posts published by this pubkey")
+  .option("-m, --mine", "Only show posts published with your own key", false)
+  .option("-p, --page <number>", "Page number")
+  .option("-l, --limit <number>", "Number of posts per page")
+  .option("--sort <field>", "Field to sort by (e.g. created_at, title)")
+  .option("--order <order>", "Sort order (asc or desc)")
+  .action(async (_options: ListPostsOptions, command: Command) => {
+    try {
+      await listPosts(command.optsWithGlobals<ListPostsOptions>());
+    } catch (error) {
+      handleError(error);
+    }
+  });
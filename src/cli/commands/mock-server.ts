@@ -0,0 +1,51 @@
+import { Command } from "commander";
+import { handleError } from "../errors";
+import { createMockHandler } from "../mock-server";
+import { printResult } from "../output";
+import { type MockServerOptions } from "../types";
+import { parsePositiveInt } from "../utils";
+
+async function startMockServer(options: MockServerOptions): Promise<void> {
+  const handler = await createMockHandler({
+    dataDir: options.data,
+    authWindow: parsePositiveInt(options.authWindow, "auth-window"),
+    requirePayload: options.requirePayloadHash,
+    log: (line) => console.log(line),
+  });
+
+  const server = Bun.serve({
+    port: parsePositiveInt(options.port, "port"),
+    hostname: options.host,
+    fetch: handler,
+  });
+
+  printResult(
+    { url: server.url.origin, data: options.data },
+    `Mock my2sats server listening on ${server.url.origin}`,
+  );
+  console.log(options.data ? `Storing data in ${options.data}` : "Storing data in memory");
+  console.log(`Use it with --api ${server.url.origin} or API_URL=${server.url.origin}`);
+}
+
+export const mockServerCommand = new Command("mock-server")
+  .description("Start a local mock my2sats API for offline testing")
+  .option("-p, --port <port>", "Port to listen on", "3000")
+  .option("-H, --host <host>", "Host to bind to", "127.0.0.1")
+  .option("-d, --data <dir>", "Persist posts and uploads in this directory")
+  .option(
+    "--auth-window <seconds>",
+    "Maximum clock difference accepted for NIP-98 auth events",
+    "60",
+  )
+  .option(
+    "--require-payload-hash",
+    "Reject signed requests with a body but no NIP-98 payload tag",
+    false,
+  )
+  .action(async (options: MockServerOptions) => {
+    try {
+      await startMockServer(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
@@ -0,0 +1,41 @@
+import { Command } from "commander";
+import { handleError } from "../errors";
+import { printResult } from "../output";
+import { DEFAULT_PREVIEW_PORT, startPreviewServer } from "../preview";
+import { type PreviewOptions } from "../types";
+import { parsePositiveInt } from "../utils";
+import { DEFAULT_WATCH_DEBOUNCE, interruptSignal } from "../watch";
+
+async function preview(file: string, options: PreviewOptions): Promise<void> {
+  const server = await startPreviewServer({
+    filePath: file,
+    port: parsePositiveInt(options.port, "port"),
+    hostname: options.host,
+    debounce: parsePositiveInt(options.debounce, "debounce"),
+  });
+
+  printResult({ url: server.url, file }, `Previewing ${file} at ${server.url}`);
+  console.log("The page reloads when the file or its images change. Press Ctrl+C to stop.");
+
+  const signal = interruptSignal();
+  await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+  server.stop();
+}
+
+export const previewCommand = new Command("preview")
+  .description("Render a post locally and serve it with live reload, without publishing")
+  .argument("<file>", "Path to markdown file with frontmatter")
+  .option("-p, --port <port>", "Port to listen on", String(DEFAULT_PREVIEW_PORT))
+  .option("-H, --host <host>", "Host to bind to", "127.0.0.1")
+  .option(
+    "--debounce <ms>",
+    "Wait this long after the last change before reloading",
+    String(DEFAULT_WATCH_DEBOUNCE),
+  )
+  .action(async (file: string, options: PreviewOptions) => {
+    try {
+      await preview(file, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
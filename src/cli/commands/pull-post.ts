@@ -0,0 +1,65 @@
+import { Command } from "commander";
+import { config } from "../config";
+import { My2satsClient } from "../api-client";
+import { handleError } from "../errors";
+import { printResult } from "../output";
+import { type PullPostOptions } from "../types";
+import {
+  serializeFrontmatter,
+  downloadRemoteImages,
+  getBasePath,
+  getPostFrontmatter,
+} from "../utils";
+
+async function pullPost(slug: string, options: PullPostOptions): Promise<void> {
+  const outputPath = options.output ?? `${slug}.md`;
+
+  // Refuse to clobber an existing file unless --force is used
+  if (!options.force && (await Bun.file(outputPath).exists())) {
+    throw new Error(
+      `File already exists: ${outputPath}. Use --force to overwrite.`,
+    );
+  }
+
+  console.log(`Fetching post "${slug}"...`);
+  const post = await new My2satsClient({ apiUrl: options.api }).getPost(slug);
+
+  let content = post.content ?? "";
+  let featuredImage = post.featured_image;
+
+  // Download remote images next to the markdown file
+  if (options.downloadImages) {
+    const result = await downloadRemoteImages(
+      content,
+      featuredImage,
+      getBasePath(outputPath),
+      ".",
+      options.force,
+    );
+    content = result.content;
+    featuredImage = result.featuredImage;
+  }
+
+  const frontmatter = getPostFrontmatter(post, featuredImage);
+  await Bun.write(outputPath, serializeFrontmatter(frontmatter, content));
+  printResult({ slug: post.slug, file: outputPath }, `Post written to ${outputPath}`);
+}
+
+export const pullPostCommand = new Command("pull")
+  .description("Download an existing post as a markdown file")
+  .argument("<slug>", "Slug of the post to download")
+  .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option("-o, --output <path>", "Output file (default: <slug>.md)")
+  .option(
+    "-d, --download-images",
+    "Download remote images next to the file and use relative paths",
+    false,
+  )
+  .option("-f, --force", "Overwrite the output file and downloaded images if they exist", false)
+  .action(async (slug: string, options: PullPostOptions) => {
+    try {
+      await pullPost(slug, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
@@ -1,24 +1,23 @@
 import { Command } from "commander";
-import prompts from "prompts";
-import { encrypt } from "nostr-tools/nip49";
 import { getPublicKey } from "nostr-tools/pure";
 import { config } from "../config";
-import { parseSecretKey } from "../crypto";
-import { AbortedError, handleError } from "../errors";
+import { parseSecretKey, writeKeyfile } from "../crypto";
+import { handleError } from "../errors";
+import { getNewPassword, promptSecret } from "../input";
+import { printResult } from "../output";
 
 async function storeKey(
   nsecInput: string | undefined,
   keyfilePath: string,
 ): Promise<void> {
-  let secretKeyInput = nsecInput;
-
   // Prompt for secret key if not provided
-  if (!secretKeyInput) {
-    const response = await prompts({
-      type: "password",
-      name: "secretKey",
-      message: "Enter your nsec or hex secret key:",
-      validate: (value) => {
+  const secretKeyInput =
+    nsecInput ||
+    (await promptSecret(
+      "Enter your nsec or hex secret key:",
+      "The secret key",
+      "Pass it as the [nsec] argument.",
+      (value) => {
         if (!value) return "Secret key is required";
         try {
           parseSecretKey(value.trim());
@@ -27,51 +26,20 @@ async function storeKey(
           return e instanceof Error ? e.message : "Invalid key format";
         }
       },
-    });
-
-    if (!response.secretKey) {
-      throw new AbortedError();
-    }
-    secretKeyInput = response.secretKey;
-  }
+    ));
 
-  const secretKey = parseSecretKey(secretKeyInput!);
+  const secretKey = parseSecretKey(secretKeyInput);
   const pubkey = getPublicKey(secretKey);
 
   console.log(`Public key: ${pubkey}`);
 
-  // Prompt for password
-  const passwordResponse = await prompts([
-    {
-      type: "password",
-      name: "password",
-      message: "Enter encryption password:",
-      validate: (value) => (value ? true : "Password cannot be empty"),
-    },
-    {
-      type: "password",
-      name: "confirmPassword",
-      message: "Confirm password:",
-    },
-  ]);
-
-  if (!passwordResponse.password || !passwordResponse.confirmPassword) {
-    throw new AbortedError();
-  }
-
-  if (passwordResponse.password !== passwordResponse.confirmPassword) {
-    throw new Error("Passwords do not match");
-  }
+  const password = await getNewPassword();
 
   // Encrypt with NIP-49
   console.log("Encrypting key (this may take a moment)...");
-  const ncryptsec = encrypt(secretKey, passwordResponse.password);
-
-  // Write to keyfile
-  const keyfile = Bun.file(keyfilePath);
-  await Bun.write(keyfile, ncryptsec);
+  await writeKeyfile(keyfilePath, secretKey, password);
 
-  console.log(`Key stored successfully in ${keyfilePath}`);
+  printResult({ pubkey, keyfile: keyfilePath }, `Key stored successfully in ${keyfilePath}`);
 }
 
 export const storeKeyCommand = new Command("store-key")
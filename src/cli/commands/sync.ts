@@ -0,0 +1,216 @@
+import { Command } from "commander";
+import { join } from "node:path";
+import { stat } from "node:fs/promises";
+import { config } from "../config";
+import { getSigner } from "../signer";
+import { My2satsClient } from "../api-client";
+import { FileNotFoundError, handleError } from "../errors";
+import { confirm } from "../input";
+import { printResult } from "../output";
+import {
+  type LocalPost,
+  type SyncAction,
+  type SyncOptions,
+  type PostPayload,
+  type ProcessImagesOptions,
+} from "../types";
+import {
+  DEFAULT_MANIFEST_NAME,
+  loadManifest,
+  saveManifest,
+  scanPosts,
+  buildSyncPlan,
+  formatSyncPlan,
+} from "../sync";
+import { processImages, getBasePath, parsePositiveInt } from "../utils";
+
+/**
+ * Describes a planned action for --json output.
+ */
+function describeAction(action: SyncAction) {
+  switch (action.type) {
+    case "delete":
+      return { action: action.type, slug: action.slug, file: action.file };
+    case "update":
+      return {
+        action: action.type,
+        slug: action.post.payload.slug,
+        previousSlug: action.remoteSlug,
+        file: action.post.file,
+      };
+    default:
+      return { action: action.type, slug: action.post.payload.slug, file: action.post.file };
+  }
+}
+
+/**
+ * Uploads the local images of a post and returns the payload to send.
+ */
+async function preparePayload(
+  dir: string,
+  post: LocalPost,
+  imageOptions: ProcessImagesOptions,
+  client: My2satsClient,
+): Promise<PostPayload> {
+  const { content, featuredImageUrl } = await processImages(
+    post.payload.content,
+    post.payload.featured_image,
+    getBasePath(join(dir, post.file)),
+    client,
+    imageOptions,
+  );
+
+  return { ...post.payload, content, featured_image: featuredImageUrl };
+}
+
+async function sync(dir: string, options: SyncOptions): Promise<void> {
+  const imageOptions: ProcessImagesOptions = {
+    optimize: options.optimizeImages,
+    concurrency: options.concurrency
+      ? parsePositiveInt(options.concurrency, "concurrency")
+      : undefined,
+  };
+
+  const dirStat = await stat(dir).catch(() => null);
+  if (!dirStat?.isDirectory()) {
+    throw new FileNotFoundError(dir);
+  }
+
+  const manifestPath = options.manifest ?? join(dir, DEFAULT_MANIFEST_NAME);
+  const manifest = await loadManifest(manifestPath, options.api);
+
+  console.log(`Scanning ${dir}...`);
+  const localPosts = await scanPosts(dir);
+
+  // Stop at the network boundary: plan against the posts of the last sync
+  if (options.dryRun) {
+    const syncedSlugs = new Set(Object.keys(manifest.posts));
+    const actions = buildSyncPlan(localPosts, syncedSlugs, manifest, options.delete);
+    const pending = actions.filter((action) => action.type !== "unchanged");
+    printResult(
+      { dryRun: true, changes: pending.length, actions: actions.map(describeAction) },
+      [
+        "Dry run: no key was decrypted and nothing was sent.",
+        "The plan assumes the server still holds the posts of the last sync.",
+        "",
+        formatSyncPlan(actions),
+        "",
+        `${pending.length} change(s) would be applied.`,
+      ].join("\n"),
+    );
+    return;
+  }
+
+  // Get a signer for NIP-98: the local keyfile or a remote signer
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+
+  console.log(`Using pubkey: ${signer.pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
+
+  try {
+    const client = new My2satsClient({ apiUrl: options.api, sign: signer.sign });
+
+    const remotePosts = await client.listAllPosts({ pubkey: signer.pubkey });
+    const remoteSlugs = new Set(remotePosts.map((post) => post.slug));
+
+    const actions = buildSyncPlan(localPosts, remoteSlugs, manifest, options.delete);
+    const pending = actions.filter((action) => action.type !== "unchanged");
+
+    console.log("\nSync plan:");
+    console.log(formatSyncPlan(actions));
+    const plan = actions.map(describeAction);
+
+    if (pending.length === 0) {
+      printResult({ applied: 0, actions: plan }, "\nEverything is up to date.");
+      return;
+    }
+
+    // Confirm unless --force is used
+    if (!options.force) {
+      if (!(await confirm(`Apply ${pending.length} change(s)?`))) {
+        printResult({ applied: 0, cancelled: true, actions: plan }, "Sync cancelled.");
+        return;
+      }
+    }
+
+    // Forget posts that no longer exist on the server
+    for (const slug of Object.keys(manifest.posts)) {
+      if (!remoteSlugs.has(slug)) {
+        delete manifest.posts[slug];
+      }
+    }
+
+    for (const action of pending) {
+      switch (action.type) {
+        case "create": {
+          console.log(`\nCreating ${action.post.payload.slug}...`);
+          const payload = await preparePayload(dir, action.post, imageOptions, client);
+          await client.createPost(payload);
+          break;
+        }
+        case "update": {
+          console.log(`\nUpdating ${action.remoteSlug}...`);
+          const payload = await preparePayload(dir, action.post, imageOptions, client);
+          await client.updatePost(action.remoteSlug, payload);
+          delete manifest.posts[action.remoteSlug];
+          break;
+        }
+        case "delete": {
+          console.log(`\nDeleting ${action.slug}...`);
+          await client.deletePost(action.slug);
+          delete manifest.posts[action.slug];
+          break;
+        }
+      }
+
+      if (action.type !== "delete") {
+        manifest.posts[action.post.payload.slug] = {
+          file: action.post.file,
+          hash: action.post.hash,
+          syncedAt: new Date().toISOString(),
+        };
+      }
+
+      // Save after every step so an interrupted sync can be resumed
+      await saveManifest(manifestPath, manifest);
+    }
+
+    printResult(
+      { applied: pending.length, actions: plan },
+      `\nSync complete: ${pending.length} change(s) applied.`,
+    );
+  } finally {
+    await signer.close();
+  }
+}
+
+export const syncCommand = new Command("sync")
+  .description("Sync a directory of markdown posts with the server")
+  .argument("<dir>", "Directory containing markdown files with frontmatter")
+  .option(
+    "-k, --keyfile <path>",
+    "Path to the encrypted key file",
+    config.keyfilePath,
+  )
+  .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option(
+    "-m, --manifest <path>",
+    `Path to the sync manifest (default: <dir>/${DEFAULT_MANIFEST_NAME})`,
+  )
+  .option("--no-delete", "Don't delete posts whose files were removed")
+  .option("--optimize-images", "Resize and re-encode images before upload")
+  .option(
+    "--no-optimize-images",
+    "Upload images as they are, even if optimizeImages is set in the config",
+  )
+  .option("--concurrency <n>", "Maximum number of simultaneous image uploads")
+  .option("-f, --force", "Skip confirmation prompt", false)
+  .action(async (dir: string, _options: SyncOptions, command: Command) => {
+    try {
+      await sync(dir, command.optsWithGlobals<SyncOptions>());
+    } catch (error) {
+      handleError(error);
+    }
+  });
@@ -1,20 +1,55 @@
 import { Command } from "commander";
-import { getPublicKey } from "nostr-tools/pure";
 import { config } from "../config";
-import { getSecretKey, createSignFunction } from "../crypto";
-import { updatePost as apiUpdatePost } from "../api-client";
+import { getSigner } from "../signer";
+import { My2satsClient, getPostsUrl, getUploadsUrl } from "../api-client";
+import { buildExcerpt, getContentStats } from "../auto-fields";
 import { FileNotFoundError, handleError } from "../errors";
-import { type UpdatePayload, type UpdatePostOptions } from "../types";
-import { parseFrontmatter, processImages, getBasePath } from "../utils";
+import { lintBeforePublish } from "../lint";
+import { printResult } from "../output";
+import {
+  type PostSnapshot,
+  type ProcessImagesOptions,
+  type UpdatePayload,
+  type UpdatePostOptions,
+} from "../types";
+import { createUploadCache } from "../upload-cache";
+import {
+  parseFrontmatter,
+  processImages,
+  getBasePath,
+  validateLocalImages,
+  formatDryRun,
+  parsePositiveInt,
+} from "../utils";
+import {
+  DEFAULT_WATCH_DEBOUNCE,
+  createPostSnapshot,
+  interruptSignal,
+  watchPost,
+} from "../watch";
 
 async function updatePost(
   slug: string,
   options: UpdatePostOptions,
 ): Promise<void> {
+  if (options.watch && !options.file) {
+    throw new Error("--watch needs a markdown file to watch: pass it with --file");
+  }
+  if (options.watch && options.dryRun) {
+    throw new Error("--watch can't be combined with --dry-run");
+  }
+  const debounce = parsePositiveInt(options.debounce, "debounce");
+  const concurrency = options.concurrency
+    ? parsePositiveInt(options.concurrency, "concurrency")
+    : undefined;
+  const autoFields = options.autoFields ?? config.autoFields;
+  const lintOptions = { requireFields: false, autoFields, optimize: options.optimizeImages };
+
   const payload: UpdatePayload = {};
   let basePath = ".";
   let contentFromFile: string | undefined;
   let featuredImageFromFile: string | undefined;
+  let snapshot: PostSnapshot | undefined;
 
   // If a file is provided, read from it
   if (options.file) {
@@ -23,6 +58,11 @@ async function updatePost(
       throw new FileNotFoundError(options.file);
     }
 
+    // An update only changes the fields it sets, so none are required
+    if (options.lint) {
+      await lintBeforePublish(options.file, lintOptions);
+    }
+
     const markdown = await file.text();
     const { frontmatter, content } = parseFrontmatter(markdown);
 
@@ -39,6 +79,11 @@ async function updatePost(
     }
 
     basePath = getBasePath(options.file);
+
+    // Taken before uploading, so watch mode compares later saves with what was sent
+    if (options.watch) {
+      snapshot = await createPostSnapshot(frontmatter, content, basePath);
+    }
   }
 
   // CLI options override file content
@@ -52,6 +97,19 @@ async function updatePost(
     payload.tags = options.tags.split(",").map((t) => t.trim());
   }
 
+  // The slug is never derived here: it identifies the post being updated
+  const newContent = options.content || contentFromFile;
+  if (autoFields && newContent) {
+    Object.assign(payload, getContentStats(newContent));
+    if (!payload.excerpt) {
+      const excerpt = buildExcerpt(newContent, config.excerptLength);
+      if (excerpt) {
+        payload.excerpt = excerpt;
+        console.log(`Derived excerpt: ${excerpt}`);
+      }
+    }
+  }
+
   // Check if there's anything to update
   const hasContentOrImages = contentFromFile || featuredImageFromFile;
   if (Object.keys(payload).length === 0 && !hasContentOrImages) {
@@ -60,37 +118,85 @@ async function updatePost(
     );
   }
 
-  // Get secret key and derive public key
-  const secretKey = await getSecretKey(options.keyfile);
-  const pubkey = getPublicKey(secretKey);
-
-  console.log(`Using pubkey: ${pubkey}`);
-
-  // Create sign function for NIP-98
-  const sign = createSignFunction(secretKey);
-
-  // Process and upload any local images
-  if (contentFromFile || featuredImageFromFile) {
-    const { content: processedContent, featuredImageUrl } = await processImages(
+  // Stop at the network boundary: validate images and show the request
+  if (options.dryRun) {
+    const images = await validateLocalImages(
       contentFromFile ?? "",
       featuredImageFromFile,
       basePath,
-      options.api,
-      sign,
+      { optimize: options.optimizeImages },
     );
+    if (contentFromFile) payload.content = contentFromFile;
+    if (featuredImageFromFile) payload.featured_image = featuredImageFromFile;
+
+    const request = {
+      method: "PUT",
+      url: getPostsUrl(options.api, slug),
+      payload,
+      images,
+      uploadUrl: getUploadsUrl(options.api),
+    };
+    printResult({ dryRun: true, ...request }, formatDryRun(request));
+    return;
+  }
 
-    if (contentFromFile) {
-      payload.content = processedContent;
+  // Get a signer for NIP-98: the local keyfile or a remote signer
+  const signer = await getSigner({ signer: options.signer, keyfile: options.keyfile });
+
+  console.log(`Using pubkey: ${signer.pubkey}`);
+  if (config.profile) {
+    console.log(`Using profile: ${config.profile}`);
+  }
+
+  try {
+    const client = new My2satsClient({ apiUrl: options.api, sign: signer.sign });
+    const imageOptions: ProcessImagesOptions = {
+      useCache: options.cache,
+      optimize: options.optimizeImages,
+      concurrency,
+      sessionCache: options.watch ? createUploadCache() : undefined,
+    };
+
+    // Process and upload any local images
+    if (contentFromFile || featuredImageFromFile) {
+      const { content: processedContent, featuredImageUrl } = await processImages(
+        contentFromFile ?? "",
+        featuredImageFromFile,
+        basePath,
+        client,
+        imageOptions,
+      );
+
+      if (contentFromFile) {
+        payload.content = processedContent;
+      }
+      if (featuredImageFromFile) {
+        payload.featured_image = featuredImageUrl;
+      }
     }
-    if (featuredImageFromFile) {
-      payload.featured_image = featuredImageUrl;
+
+    // Make API request
+    console.log(`Updating post at ${getPostsUrl(options.api, slug)}...`);
+    const result = await client.updatePost(slug, payload);
+    printResult(result, `Post updated successfully:\n${JSON.stringify(result, null, 2)}`);
+
+    // Keep the signer open and send later saves as updates
+    if (snapshot) {
+      await watchPost({
+        filePath: options.file!,
+        slug: result.slug,
+        snapshot,
+        client,
+        imageOptions,
+        debounce,
+        autoFields,
+        lint: options.lint ? lintOptions : undefined,
+        signal: interruptSignal(),
+      });
     }
+  } finally {
+    await signer.close();
   }
-
-  // Make API request
-  const result = await apiUpdatePost(slug, payload, sign, options.api);
-  console.log("Post updated successfully:");
-  console.log(JSON.stringify(result, null, 2));
 }
 
 export const updatePostCommand = new Command("update")
@@ -102,7 +208,25 @@ export const updatePostCommand = new Command("update")
     config.keyfilePath,
   )
   .option("-a, --api <url>", "API base URL", config.apiUrl)
+  .option("--no-cache", "Upload all images again instead of reusing cached uploads")
+  .option("--optimize-images", "Resize and re-encode images before upload")
+  .option(
+    "--no-optimize-images",
+    "Upload images as they are, even if optimizeImages is set in the config",
+  )
+  .option("--concurrency <n>", "Maximum number of simultaneous image uploads")
+  .option("--no-lint", "Update without checking --file for problems first")
+  .option(
+    "--auto-fields",
+    "Derive the excerpt if none is given, and send word count and reading time with new content",
+  )
+  .option(
+    "--no-auto-fields",
+    "Send the fields as they are, even if autoFields is set in the config",
+  )
   .option("-f, --file <path>", "Path to markdown file with updated content")
+  .option("-w, --watch", "With --file, keep running and update the post whenever the file or its images change")
+  .option("--debounce <ms>", "With --watch, wait this long after the last change", String(DEFAULT_WATCH_DEBOUNCE))
   .option("-t, --title <title>", "New title")
   .option("-c, --content <content>", "New content (markdown)")
   .option("-e, --excerpt <excerpt>", "New excerpt")
@@ -110,9 +234,9 @@ export const updatePostCommand = new Command("update")
   .option("--author <author>", "New author")
   .option("--tags <tags>", "New tags (comma-separated)")
   .option("-s, --new-slug <slug>", "New slug (rename the post)")
-  .action(async (slug: string, options: UpdatePostOptions) => {
+  .action(async (slug: string, _options: UpdatePostOptions, command: Command) => {
     try {
-      await updatePost(slug, options);
+      await updatePost(slug, command.optsWithGlobals<UpdatePostOptions>());
     } catch (error) {
       handleError(error);
     }
@@ -2,7 +2,7 @@ import { test, expect, describe, beforeEach, afterEach } from "bun:test";
 import { join } from "node:path";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir, homedir } from "node:os";
-import { Config, ConfigError } from "./config";
+import { Config, ConfigError, getProfileArg, parseConfigValue } from "./config";
 
 describe("Config", () => {
   let tempDir: string;
@@ -16,6 +16,8 @@ describe("Config", () => {
     // Clear relevant env vars
     delete process.env.API_URL;
     delete process.env.KEYFILE_PATH;
+    delete process.env.MY2SATS_SIGNER;
+    delete process.env.MY2SATS_PROFILE;
     delete process.env.MY2SATS_CONFIG;
     // Create temp directory for test config files
     tempDir = await mkdtemp(join(tmpdir(), "my2sats-config-test-"));
@@ -43,6 +45,37 @@ describe("Config", () => {
         "image/webp",
         "image/gif",
       ]);
+      expect(config.uploadCachePath).toBe(
+        join(homedir(), ".my2sats", "uploads.json"),
+      );
+      expect(config.optimizeImages).toBe(false);
+      expect(config.imageMaxDimension).toBe(2048);
+      expect(config.imageFormat).toBe("webp");
+      expect(config.imageQuality).toBe(80);
+      expect(config.uploadConcurrency).toBe(4);
+      expect(config.maxAttempts).toBe(3);
+      expect(config.requestTimeout).toBe(30_000);
+      expect(config.uploadTimeout).toBe(120_000);
+      expect(config.signPayload).toBe(true);
+      expect(config.signer).toBe("keyfile");
+      expect(config.signerRelays).toEqual(["wss://relay.nsec.app"]);
+      expect(config.signerTimeout).toBe(60_000);
+      expect(config.signerSessionPath).toBe(
+        join(homedir(), ".my2sats", "signer.json"),
+      );
+      expect(config.agentSocketPath).toBe(join(homedir(), ".my2sats", "agent.sock"));
+      expect(config.agentTtl).toBe(3600);
+      expect(config.lintRules).toEqual({
+        frontmatter: "error",
+        slug: "error",
+        "image-alt": "warning",
+        "broken-links": "error",
+        "heading-increment": "warning",
+        "empty-excerpt": "warning",
+      });
+      expect(config.autoFields).toBe(false);
+      expect(config.excerptLength).toBe(160);
+      expect(config.wordsPerMinute).toBe(200);
     });
   });
 
@@ -95,6 +128,135 @@ describe("Config", () => {
       expect(config.allowedImageTypes).toEqual(["image/png", "image/svg+xml"]);
     });
 
+    test("loads uploadCachePath from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ uploadCachePath: "/custom/uploads.json" }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.uploadCachePath).toBe("/custom/uploads.json");
+    });
+
+    test("loads image optimization settings from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({
+          optimizeImages: true,
+          imageMaxDimension: 1200,
+          imageFormat: "jpeg",
+          imageQuality: 70,
+        }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.optimizeImages).toBe(true);
+      expect(config.imageMaxDimension).toBe(1200);
+      expect(config.imageFormat).toBe("jpeg");
+      expect(config.imageQuality).toBe(70);
+    });
+
+    test("loads uploadConcurrency from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ uploadConcurrency: 8 }));
+
+      const config = Config.load(configPath);
+
+      expect(config.uploadConcurrency).toBe(8);
+    });
+
+    test("loads retry and timeout settings from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ maxAttempts: 5, requestTimeout: 1000, uploadTimeout: 2000 }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.maxAttempts).toBe(5);
+      expect(config.requestTimeout).toBe(1000);
+      expect(config.uploadTimeout).toBe(2000);
+    });
+
+    test("loads remote signer settings from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({
+          signer: "bunker://abc?relay=wss://relay.example.com",
+          signerRelays: ["wss://relay.example.com"],
+          signerTimeout: 5000,
+          signerSessionPath: "/custom/signer.json",
+        }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.signer).toBe("bunker://abc?relay=wss://relay.example.com");
+      expect(config.signerRelays).toEqual(["wss://relay.example.com"]);
+      expect(config.signerTimeout).toBe(5000);
+      expect(config.signerSessionPath).toBe("/custom/signer.json");
+    });
+
+    test("loads key agent settings from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ agentSocketPath: "/run/my2sats.sock", agentTtl: 600 }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.agentSocketPath).toBe("/run/my2sats.sock");
+      expect(config.agentTtl).toBe(600);
+    });
+
+    test("merges lint rules from a profile with the defaults", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({
+          lintRules: { "image-alt": "off" },
+          profiles: { strict: { lintRules: { "image-alt": "error", "empty-excerpt": "error" } } },
+        }),
+      );
+
+      expect(Config.load(configPath).lintRules["image-alt"]).toBe("off");
+
+      const strict = Config.load(configPath, "strict");
+      expect(strict.lintRules["image-alt"]).toBe("error");
+      expect(strict.lintRules["empty-excerpt"]).toBe("error");
+      expect(strict.lintRules.slug).toBe("error");
+    });
+
+    test("loads auto field settings from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ autoFields: true, excerptLength: 200, wordsPerMinute: 250 }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.autoFields).toBe(true);
+      expect(config.excerptLength).toBe(200);
+      expect(config.wordsPerMinute).toBe(250);
+    });
+
+    test("loads signPayload from config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ signPayload: false }));
+
+      const config = Config.load(configPath);
+
+      expect(config.signPayload).toBe(false);
+    });
+
     test("loads all config values from file", async () => {
       const configPath = join(tempDir, "config.json");
       await Bun.write(
@@ -143,6 +305,16 @@ describe("Config", () => {
       expect(config.keyfilePath).toBe("/env/path");
     });
 
+    test("MY2SATS_SIGNER env var overrides config file", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ signer: "keyfile" }));
+      process.env.MY2SATS_SIGNER = "nostrconnect";
+
+      const config = Config.load(configPath);
+
+      expect(config.signer).toBe("nostrconnect");
+    });
+
     test("MY2SATS_CONFIG env var specifies config path", async () => {
       const configPath = join(tempDir, "custom-config.json");
       await Bun.write(
@@ -211,6 +383,115 @@ describe("Config", () => {
       ]);
     });
 
+    test("ignores invalid image optimization settings", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({
+          optimizeImages: "yes",
+          imageMaxDimension: 10.5,
+          imageFormat: "avif",
+          imageQuality: 150,
+        }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.optimizeImages).toBe(false);
+      expect(config.imageMaxDimension).toBe(2048);
+      expect(config.imageFormat).toBe("webp");
+      expect(config.imageQuality).toBe(80);
+    });
+
+    test("ignores invalid uploadConcurrency", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ uploadConcurrency: 0 }));
+
+      const config = Config.load(configPath);
+
+      expect(config.uploadConcurrency).toBe(4);
+    });
+
+    test("ignores invalid retry and timeout settings", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ maxAttempts: 0, requestTimeout: -1, uploadTimeout: "slow" }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.maxAttempts).toBe(3);
+      expect(config.requestTimeout).toBe(30_000);
+      expect(config.uploadTimeout).toBe(120_000);
+    });
+
+    test("ignores invalid remote signer settings", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ signer: 1, signerRelays: [], signerTimeout: 0 }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.signer).toBe("keyfile");
+      expect(config.signerRelays).toEqual(["wss://relay.nsec.app"]);
+      expect(config.signerTimeout).toBe(60_000);
+    });
+
+    test("ignores invalid key agent settings", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ agentSocketPath: 1, agentTtl: -5 }));
+
+      const config = Config.load(configPath);
+
+      expect(config.agentSocketPath).toBe(join(homedir(), ".my2sats", "agent.sock"));
+      expect(config.agentTtl).toBe(3600);
+    });
+
+    test("ignores a key agent TTL that isn't a whole number", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ agentTtl: 1.5 }));
+
+      expect(Config.load(configPath).agentTtl).toBe(3600);
+      expect(() => parseConfigValue("agentTtl", "1.5")).toThrow(ConfigError);
+    });
+
+    test("ignores lint rules with unknown rules or severities", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ lintRules: { slug: "fatal" } }));
+      expect(Config.load(configPath).lintRules.slug).toBe("error");
+
+      await Bun.write(configPath, JSON.stringify({ lintRules: { spelling: "error" } }));
+      expect(Config.checkConfigFile(await Bun.file(configPath).json())).toEqual([
+        'Invalid value for "lintRules" is ignored',
+      ]);
+    });
+
+    test("ignores invalid auto field settings", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({ autoFields: "yes", excerptLength: 1.5, wordsPerMinute: 0 }),
+      );
+
+      const config = Config.load(configPath);
+
+      expect(config.autoFields).toBe(false);
+      expect(config.excerptLength).toBe(160);
+      expect(config.wordsPerMinute).toBe(200);
+    });
+
+    test("ignores non-boolean signPayload", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ signPayload: "no" }));
+
+      const config = Config.load(configPath);
+
+      expect(config.signPayload).toBe(true);
+    });
+
     test("ignores allowedImageTypes with non-string elements", async () => {
       const configPath = join(tempDir, "config.json");
       await Bun.write(
@@ -255,6 +536,250 @@ describe("Config", () => {
     });
   });
 
+  describe("profiles", () => {
+    const profiles = {
+      apiUrl: "https://base.example.com",
+      maxImageSize: 1000,
+      profiles: {
+        staging: {
+          apiUrl: "https://staging.example.com",
+          keyfilePath: "/keys/staging.key",
+          author: "Staging Bot",
+        },
+        production: {
+          apiUrl: "https://example.com",
+          keyfilePath: "/keys/production.key",
+          maxImageSize: 2000,
+        },
+      },
+    };
+
+    async function writeProfiles(extra: object = {}): Promise<string> {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(configPath, JSON.stringify({ ...profiles, ...extra }));
+      return configPath;
+    }
+
+    test("uses top-level settings when no profile is selected", async () => {
+      const config = Config.load(await writeProfiles());
+
+      expect(config.profile).toBeUndefined();
+      expect(config.apiUrl).toBe("https://base.example.com");
+      expect(config.author).toBeUndefined();
+    });
+
+    test("selected profile overrides top-level settings", async () => {
+      const config = Config.load(await writeProfiles(), "staging");
+
+      expect(config.profile).toBe("staging");
+      expect(config.apiUrl).toBe("https://staging.example.com");
+      expect(config.keyfilePath).toBe("/keys/staging.key");
+      expect(config.author).toBe("Staging Bot");
+      // Settings the profile doesn't set come from the top level
+      expect(config.maxImageSize).toBe(1000);
+    });
+
+    test("MY2SATS_PROFILE selects a profile", async () => {
+      process.env.MY2SATS_PROFILE = "production";
+
+      const config = Config.load(await writeProfiles());
+
+      expect(config.profile).toBe("production");
+      expect(config.maxImageSize).toBe(2000);
+    });
+
+    test("defaultProfile is used when none is selected", async () => {
+      const config = Config.load(await writeProfiles({ defaultProfile: "staging" }));
+
+      expect(config.profile).toBe("staging");
+    });
+
+    test("a profile named default is used when none is selected", async () => {
+      const configPath = await writeProfiles({
+        profiles: { default: { apiUrl: "https://default.example.com" } },
+      });
+
+      const config = Config.load(configPath);
+
+      expect(config.profile).toBe("default");
+      expect(config.apiUrl).toBe("https://default.example.com");
+    });
+
+    test("an explicit profile wins over env vars for the settings it sets", async () => {
+      process.env.API_URL = "https://env.example.com";
+      process.env.KEYFILE_PATH = "/env/key";
+
+      const config = Config.load(await writeProfiles(), "production");
+
+      expect(config.apiUrl).toBe("https://example.com");
+      expect(config.keyfilePath).toBe("/keys/production.key");
+      expect(config.getSource("apiUrl")).toBe("profile");
+    });
+
+    test("MY2SATS_PROFILE wins over env vars too", async () => {
+      process.env.MY2SATS_PROFILE = "production";
+      process.env.API_URL = "https://env.example.com";
+
+      const config = Config.load(await writeProfiles());
+
+      expect(config.apiUrl).toBe("https://example.com");
+    });
+
+    test("env vars override settings an explicit profile doesn't set", async () => {
+      process.env.MY2SATS_SIGNER = "nostrconnect";
+
+      const config = Config.load(await writeProfiles(), "production");
+
+      expect(config.signer).toBe("nostrconnect");
+      expect(config.getSource("signer")).toBe("env");
+    });
+
+    test("env vars override the default profile", async () => {
+      process.env.API_URL = "https://env.example.com";
+
+      const config = Config.load(await writeProfiles({ defaultProfile: "staging" }));
+
+      expect(config.apiUrl).toBe("https://env.example.com");
+    });
+
+    test("throws for unknown profiles", async () => {
+      const configPath = await writeProfiles();
+
+      expect(() => Config.load(configPath, "prod")).toThrow(ConfigError);
+      expect(() => Config.load(configPath, "prod")).toThrow(
+        "Available profiles: staging, production",
+      );
+    });
+
+    test("loadWithoutProfile ignores the selected profile", async () => {
+      process.env.MY2SATS_PROFILE = "missing";
+      const configPath = await writeProfiles({ defaultProfile: "staging" });
+
+      const config = Config.loadWithoutProfile(configPath);
+
+      expect(config.profile).toBeUndefined();
+      expect(config.apiUrl).toBe("https://base.example.com");
+    });
+
+    test("ignores invalid settings in profiles", async () => {
+      const configPath = await writeProfiles({
+        profiles: { staging: { apiUrl: 42, maxImageSize: -1, profiles: { nested: {} } } },
+      });
+
+      const config = Config.load(configPath, "staging");
+
+      expect(config.apiUrl).toBe("https://base.example.com");
+      expect(config.maxImageSize).toBe(1000);
+    });
+  });
+
+  describe("getSource", () => {
+    test("reports where each value comes from", async () => {
+      const configPath = join(tempDir, "config.json");
+      await Bun.write(
+        configPath,
+        JSON.stringify({
+          apiUrl: "https://file.example.com",
+          maxAttempts: 5,
+          profiles: { staging: { maxAttempts: 2 } },
+        }),
+      );
+      process.env.KEYFILE_PATH = "/env/key";
+
+      const config = Config.load(configPath, "staging");
+
+      expect(config.getSource("apiUrl")).toBe("file");
+      expect(config.getSource("maxAttempts")).toBe("profile");
+      expect(config.getSource("keyfilePath")).toBe("env");
+      expect(config.getSource("imageQuality")).toBe("default");
+    });
+  });
+
+  describe("checkConfigFile", () => {
+    test("accepts a valid config file", () => {
+      expect(
+        Config.checkConfigFile({
+          apiUrl: "https://example.com",
+          defaultProfile: "staging",
+          profiles: { staging: { maxAttempts: 2 } },
+        }),
+      ).toEqual([]);
+    });
+
+    test("warns about unknown keys and invalid values", () => {
+      expect(
+        Config.checkConfigFile({
+          apiUrl: 42,
+          colour: "blue",
+          profiles: { staging: { maxAttempts: -1, defaultProfile: "x" } },
+        }),
+      ).toEqual([
+        'Invalid value for "apiUrl" is ignored',
+        'Unknown key "colour" is ignored',
+        'Invalid value for "profiles.staging.maxAttempts" is ignored',
+        'Unknown key "profiles.staging.defaultProfile" is ignored',
+      ]);
+    });
+
+    test("rejects a non-object config", () => {
+      expect(Config.checkConfigFile([])).toEqual(["Config file must be a JSON object"]);
+      expect(Config.checkConfigFile({ profiles: { a: 1 } })).toEqual([
+        '"profiles.a" must be a JSON object',
+      ]);
+    });
+  });
+
+  describe("parseConfigValue", () => {
+    test("parses values by the setting's type", () => {
+      expect(parseConfigValue("apiUrl", "https://example.com")).toBe("https://example.com");
+      expect(parseConfigValue("maxAttempts", "5")).toBe(5);
+      expect(parseConfigValue("optimizeImages", "true")).toBe(true);
+      expect(parseConfigValue("signPayload", "false")).toBe(false);
+    });
+
+    test("parses lists as JSON or comma-separated", () => {
+      expect(parseConfigValue("allowedImageTypes", "image/png, image/gif")).toEqual([
+        "image/png",
+        "image/gif",
+      ]);
+      expect(parseConfigValue("signerRelays", '["wss://a", "wss://b"]')).toEqual([
+        "wss://a",
+        "wss://b",
+      ]);
+    });
+
+    test("rejects values the config file would ignore", () => {
+      expect(() => parseConfigValue("maxAttempts", "0")).toThrow(ConfigError);
+      expect(() => parseConfigValue("maxAttempts", "many")).toThrow("Invalid value for maxAttempts");
+      expect(() => parseConfigValue("optimizeImages", "yes")).toThrow(ConfigError);
+      expect(() => parseConfigValue("imageFormat", "gif")).toThrow(ConfigError);
+      expect(() => parseConfigValue("signerRelays", "")).toThrow(ConfigError);
+      expect(() => parseConfigValue("lintRules", "image-alt=off")).toThrow(ConfigError);
+    });
+
+    test("parses objects as JSON", () => {
+      expect(parseConfigValue("lintRules", '{"image-alt": "off"}')).toEqual({ "image-alt": "off" });
+    });
+
+    test("rejects unknown keys", () => {
+      expect(() => parseConfigValue("colour", "blue")).toThrow("Unknown config key: colour");
+    });
+  });
+
+  describe("getProfileArg", () => {
+    test("reads --profile from arguments", () => {
+      expect(getProfileArg(["bun", "index.ts", "post", "--profile", "staging"])).toBe("staging");
+      expect(getProfileArg(["bun", "index.ts", "--profile=production", "list"])).toBe(
+        "production",
+      );
+    });
+
+    test("returns undefined without --profile", () => {
+      expect(getProfileArg(["bun", "index.ts", "list"])).toBeUndefined();
+      expect(getProfileArg(["bun", "index.ts", "post", "--", "--profile", "x"])).toBeUndefined();
+    });
+  });
+
   describe("singleton", () => {
     test("getInstance returns same instance", () => {
       const config1 = Config.getInstance();
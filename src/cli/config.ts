@@ -2,13 +2,17 @@
  * Centralized configuration for the my2sats CLI.
  *
  * Configuration is loaded with the following priority (highest to lowest):
- * 1. Environment variables
- * 2. Config file (~/.my2sats/config.json or custom path via MY2SATS_CONFIG)
- * 3. Default values
+ * 1. Environment variables, except for settings of a profile selected with
+ *    --profile or MY2SATS_PROFILE, so a leftover API_URL can't redirect it
+ * 2. The selected profile in the config file (--profile or MY2SATS_PROFILE)
+ * 3. Config file (~/.my2sats/config.json or custom path via MY2SATS_CONFIG)
+ * 4. Default values
  */
 
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { handleError } from "./errors";
+import { setOutputOptions } from "./output";
 
 /**
  * Configuration file structure.
@@ -23,8 +27,110 @@ export interface ConfigFile {
   maxImageSize?: number;
   /** Allowed image MIME types for upload */
   allowedImageTypes?: string[];
+  /** Path to the image upload cache */
+  uploadCachePath?: string;
+  /** Resize and re-encode images before upload */
+  optimizeImages?: boolean;
+  /** Maximum width or height of optimized images, in pixels */
+  imageMaxDimension?: number;
+  /** Output format of optimized images */
+  imageFormat?: ImageFormat;
+  /** Encoding quality of optimized images (1-100) */
+  imageQuality?: number;
+  /** Maximum number of simultaneous image uploads */
+  uploadConcurrency?: number;
+  /** Maximum attempts per API request, including the first */
+  maxAttempts?: number;
+  /** Timeout per API request attempt, in milliseconds */
+  requestTimeout?: number;
+  /** Timeout per image upload attempt, in milliseconds */
+  uploadTimeout?: number;
+  /** Include a NIP-98 payload hash of the request body in signed requests */
+  signPayload?: boolean;
+  /** Where signatures come from: "keyfile", a bunker:// URI, a NIP-05 address or "nostrconnect" */
+  signer?: string;
+  /** Relays used to pair with a remote signer via nostrconnect */
+  signerRelays?: string[];
+  /** Timeout for connecting to and signing with a remote signer, in milliseconds */
+  signerTimeout?: number;
+  /** Path to the remote signer session (client key and nostrconnect pairing) */
+  signerSessionPath?: string;
+  /** Path of the key agent's Unix socket */
+  agentSocketPath?: string;
+  /** How long the key agent keeps the decrypted key, in seconds */
+  agentTtl?: number;
+  /** Author used when a post's frontmatter doesn't set one */
+  author?: string;
+  /** Derive a missing slug and excerpt, and send word count and reading time */
+  autoFields?: boolean;
+  /** Maximum length of derived excerpts, in characters */
+  excerptLength?: number;
+  /** Reading speed used for the reading time */
+  wordsPerMinute?: number;
+  /** Severity of each lint rule; rules not listed keep their default */
+  lintRules?: Partial<Record<LintRule, LintSeverity>>;
+  /** Profile used when none is selected */
+  defaultProfile?: string;
+  /** Named sets of settings that override the top-level ones */
+  profiles?: Record<string, ProfileConfig>;
 }
 
+/**
+ * Settings of a named profile: any top-level setting except the profiles themselves.
+ */
+export type ProfileConfig = Omit<ConfigFile, "defaultProfile" | "profiles">;
+
+/**
+ * Value type of each setting, used to parse values given on the command line.
+ */
+export const CONFIG_KEYS = {
+  apiUrl: "string",
+  keyfilePath: "string",
+  maxImageSize: "number",
+  allowedImageTypes: "string[]",
+  uploadCachePath: "string",
+  optimizeImages: "boolean",
+  imageMaxDimension: "number",
+  imageFormat: "string",
+  imageQuality: "number",
+  uploadConcurrency: "number",
+  maxAttempts: "number",
+  requestTimeout: "number",
+  uploadTimeout: "number",
+  signPayload: "boolean",
+  signer: "string",
+  signerRelays: "string[]",
+  signerTimeout: "number",
+  signerSessionPath: "string",
+  agentSocketPath: "string",
+  agentTtl: "number",
+  author: "string",
+  autoFields: "boolean",
+  excerptLength: "number",
+  wordsPerMinute: "number",
+  lintRules: "object",
+} as const satisfies Record<
+  keyof ProfileConfig,
+  "string" | "number" | "boolean" | "string[]" | "object"
+>;
+
+/**
+ * A setting that can be set at the top level of the config file or in a profile.
+ */
+export type ConfigKey = keyof typeof CONFIG_KEYS;
+
+/**
+ * Where the effective value of a setting came from.
+ */
+export type ConfigSource = "env" | "profile" | "file" | "default";
+
+/** Environment variables that override settings */
+export const CONFIG_ENV_VARS: Partial<Record<ConfigKey, string>> = {
+  apiUrl: "API_URL",
+  keyfilePath: "KEYFILE_PATH",
+  signer: "MY2SATS_SIGNER",
+};
+
 /**
  * Resolved configuration with all required fields.
  */
@@ -37,8 +143,81 @@ export interface ResolvedConfig {
   maxImageSize: number;
   /** Allowed image MIME types for upload */
   allowedImageTypes: readonly string[];
+  /** Path to the image upload cache */
+  uploadCachePath: string;
+  /** Resize and re-encode images before upload */
+  optimizeImages: boolean;
+  /** Maximum width or height of optimized images, in pixels */
+  imageMaxDimension: number;
+  /** Output format of optimized images */
+  imageFormat: ImageFormat;
+  /** Encoding quality of optimized images (1-100) */
+  imageQuality: number;
+  /** Maximum number of simultaneous image uploads */
+  uploadConcurrency: number;
+  /** Maximum attempts per API request, including the first */
+  maxAttempts: number;
+  /** Timeout per API request attempt, in milliseconds */
+  requestTimeout: number;
+  /** Timeout per image upload attempt, in milliseconds */
+  uploadTimeout: number;
+  /** Include a NIP-98 payload hash of the request body in signed requests */
+  signPayload: boolean;
+  /** Where signatures come from: "keyfile", a bunker:// URI, a NIP-05 address or "nostrconnect" */
+  signer: string;
+  /** Relays used to pair with a remote signer via nostrconnect */
+  signerRelays: readonly string[];
+  /** Timeout for connecting to and signing with a remote signer, in milliseconds */
+  signerTimeout: number;
+  /** Path to the remote signer session (client key and nostrconnect pairing) */
+  signerSessionPath: string;
+  /** Path of the key agent's Unix socket */
+  agentSocketPath: string;
+  /** How long the key agent keeps the decrypted key, in seconds */
+  agentTtl: number;
+  /** Author used when a post's frontmatter doesn't set one */
+  author?: string;
+  /** Derive a missing slug and excerpt, and send word count and reading time */
+  autoFields: boolean;
+  /** Maximum length of derived excerpts, in characters */
+  excerptLength: number;
+  /** Reading speed used for the reading time */
+  wordsPerMinute: number;
+  /** Severity of each lint rule */
+  lintRules: Readonly<Record<LintRule, LintSeverity>>;
 }
 
+/**
+ * Output formats supported by image optimization.
+ */
+export type ImageFormat = "webp" | "jpeg";
+
+/** Output formats supported by image optimization */
+export const IMAGE_FORMATS: readonly ImageFormat[] = ["webp", "jpeg"];
+
+/** Checks run by the markdown linter (see lint.ts) */
+export const LINT_RULES = [
+  "frontmatter",
+  "slug",
+  "image-alt",
+  "broken-links",
+  "heading-increment",
+  "empty-excerpt",
+] as const;
+
+/**
+ * A check run by the markdown linter.
+ */
+export type LintRule = (typeof LINT_RULES)[number];
+
+/**
+ * How a lint rule's findings are treated: errors stop post and update.
+ */
+export type LintSeverity = "error" | "warning" | "off";
+
+/** Severities a lint rule can be set to */
+export const LINT_SEVERITIES: readonly LintSeverity[] = ["error", "warning", "off"];
+
 /** Default my2sats directory */
 const DEFAULT_MY2SATS_DIR = join(homedir(), ".my2sats");
 
@@ -48,12 +227,48 @@ const DEFAULT_CONFIG_PATH = join(DEFAULT_MY2SATS_DIR, "config.json");
 /** Default keyfile path */
 const DEFAULT_KEYFILE_PATH = join(DEFAULT_MY2SATS_DIR, "nostr.key");
 
+/** Default upload cache path */
+const DEFAULT_UPLOAD_CACHE_PATH = join(DEFAULT_MY2SATS_DIR, "uploads.json");
+
+/** Default remote signer session path */
+const DEFAULT_SIGNER_SESSION_PATH = join(DEFAULT_MY2SATS_DIR, "signer.json");
+
+/** Default key agent socket path */
+const DEFAULT_AGENT_SOCKET_PATH = join(DEFAULT_MY2SATS_DIR, "agent.sock");
+
 /** Default configuration values */
 const DEFAULTS: ResolvedConfig = {
   apiUrl: "http://localhost:3000",
   keyfilePath: DEFAULT_KEYFILE_PATH,
   maxImageSize: 5 * 1024 * 1024, // 5MB
   allowedImageTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+  uploadCachePath: DEFAULT_UPLOAD_CACHE_PATH,
+  optimizeImages: false,
+  imageMaxDimension: 2048,
+  imageFormat: "webp",
+  imageQuality: 80,
+  uploadConcurrency: 4,
+  maxAttempts: 3,
+  requestTimeout: 30_000,
+  uploadTimeout: 120_000,
+  signPayload: true,
+  signer: "keyfile",
+  signerRelays: ["wss://relay.nsec.app"],
+  signerTimeout: 60_000,
+  signerSessionPath: DEFAULT_SIGNER_SESSION_PATH,
+  agentSocketPath: DEFAULT_AGENT_SOCKET_PATH,
+  agentTtl: 3600,
+  autoFields: false,
+  excerptLength: 160,
+  wordsPerMinute: 200,
+  lintRules: {
+    frontmatter: "error",
+    slug: "error",
+    "image-alt": "warning",
+    "broken-links": "error",
+    "heading-increment": "warning",
+    "empty-excerpt": "warning",
+  },
 };
 
 /**
@@ -79,18 +294,70 @@ export class Config implements ResolvedConfig {
   readonly keyfilePath: string;
   readonly maxImageSize: number;
   readonly allowedImageTypes: readonly string[];
+  readonly uploadCachePath: string;
+  readonly optimizeImages: boolean;
+  readonly imageMaxDimension: number;
+  readonly imageFormat: ImageFormat;
+  readonly imageQuality: number;
+  readonly uploadConcurrency: number;
+  readonly maxAttempts: number;
+  readonly requestTimeout: number;
+  readonly uploadTimeout: number;
+  readonly signPayload: boolean;
+  readonly signer: string;
+  readonly signerRelays: readonly string[];
+  readonly signerTimeout: number;
+  readonly signerSessionPath: string;
+  readonly agentSocketPath: string;
+  readonly agentTtl: number;
+  readonly author?: string;
+  readonly autoFields: boolean;
+  readonly excerptLength: number;
+  readonly wordsPerMinute: number;
+  readonly lintRules: Readonly<Record<LintRule, LintSeverity>>;
 
   private constructor(
-    fileConfig: ConfigFile,
+    private readonly fileConfig: ProfileConfig,
     private readonly configPath: string,
+    /** Name of the selected profile, if any */
+    readonly profile?: string,
+    private readonly profileConfig: ProfileConfig = {},
+    /** Whether the profile was asked for with --profile or MY2SATS_PROFILE */
+    private readonly explicitProfile = false,
   ) {
     // Priority: env vars > config file > defaults
-    this.apiUrl = process.env.API_URL ?? fileConfig.apiUrl ?? DEFAULTS.apiUrl;
+    this.apiUrl = this.getEnv("apiUrl") ?? fileConfig.apiUrl ?? DEFAULTS.apiUrl;
     this.keyfilePath =
-      process.env.KEYFILE_PATH ?? fileConfig.keyfilePath ?? DEFAULTS.keyfilePath;
+      this.getEnv("keyfilePath") ?? fileConfig.keyfilePath ?? DEFAULTS.keyfilePath;
     this.maxImageSize = fileConfig.maxImageSize ?? DEFAULTS.maxImageSize;
     this.allowedImageTypes =
       fileConfig.allowedImageTypes ?? DEFAULTS.allowedImageTypes;
+    this.uploadCachePath =
+      fileConfig.uploadCachePath ?? DEFAULTS.uploadCachePath;
+    this.optimizeImages = fileConfig.optimizeImages ?? DEFAULTS.optimizeImages;
+    this.imageMaxDimension =
+      fileConfig.imageMaxDimension ?? DEFAULTS.imageMaxDimension;
+    this.imageFormat = fileConfig.imageFormat ?? DEFAULTS.imageFormat;
+    this.imageQuality = fileConfig.imageQuality ?? DEFAULTS.imageQuality;
+    this.uploadConcurrency =
+      fileConfig.uploadConcurrency ?? DEFAULTS.uploadConcurrency;
+    this.maxAttempts = fileConfig.maxAttempts ?? DEFAULTS.maxAttempts;
+    this.requestTimeout = fileConfig.requestTimeout ?? DEFAULTS.requestTimeout;
+    this.uploadTimeout = fileConfig.uploadTimeout ?? DEFAULTS.uploadTimeout;
+    this.signPayload = fileConfig.signPayload ?? DEFAULTS.signPayload;
+    this.signer = this.getEnv("signer") ?? fileConfig.signer ?? DEFAULTS.signer;
+    this.signerRelays = fileConfig.signerRelays ?? DEFAULTS.signerRelays;
+    this.signerTimeout = fileConfig.signerTimeout ?? DEFAULTS.signerTimeout;
+    this.signerSessionPath =
+      fileConfig.signerSessionPath ?? DEFAULTS.signerSessionPath;
+    this.agentSocketPath =
+      fileConfig.agentSocketPath ?? DEFAULTS.agentSocketPath;
+    this.agentTtl = fileConfig.agentTtl ?? DEFAULTS.agentTtl;
+    this.author = fileConfig.author;
+    this.autoFields = fileConfig.autoFields ?? DEFAULTS.autoFields;
+    this.excerptLength = fileConfig.excerptLength ?? DEFAULTS.excerptLength;
+    this.wordsPerMinute = fileConfig.wordsPerMinute ?? DEFAULTS.wordsPerMinute;
+    this.lintRules = { ...DEFAULTS.lintRules, ...fileConfig.lintRules };
   }
 
   /**
@@ -110,14 +377,79 @@ export class Config implements ResolvedConfig {
    *
    * @param configPath - Optional path to config file. Defaults to ~/.my2sats/config.json
    *                     or the value of MY2SATS_CONFIG environment variable.
+   * @param profile - Optional profile name. Defaults to --profile, MY2SATS_PROFILE,
+   *                  then the config file's defaultProfile or a profile named "default".
+   * @throws {ConfigError} If the selected profile doesn't exist
    */
-  static load(configPath?: string): Config {
+  static load(configPath?: string, profile?: string): Config {
     const resolvedPath =
       configPath ?? process.env.MY2SATS_CONFIG ?? DEFAULT_CONFIG_PATH;
-    const fileConfig = Config.loadConfigFile(resolvedPath);
+    const { profiles = {}, defaultProfile, ...fileConfig } =
+      Config.loadConfigFile(resolvedPath);
+
+    const requested =
+      profile ?? getProfileArg(process.argv) ?? process.env.MY2SATS_PROFILE;
+    const selected =
+      requested ?? defaultProfile ?? ("default" in profiles ? "default" : undefined);
+
+    if (selected === undefined) {
+      return new Config(fileConfig, resolvedPath);
+    }
+
+    const profileConfig = profiles[selected];
+    if (!profileConfig) {
+      const available = Object.keys(profiles);
+      throw new ConfigError(
+        `Unknown profile "${selected}" in ${resolvedPath}. ` +
+          (available.length > 0
+            ? `Available profiles: ${available.join(", ")}`
+            : "No profiles are defined."),
+      );
+    }
+
+    return new Config(
+      { ...fileConfig, ...profileConfig },
+      resolvedPath,
+      selected,
+      profileConfig,
+      requested !== undefined,
+    );
+  }
+
+  /**
+   * Reads the environment variable that overrides a setting. A profile
+   * selected explicitly wins for the settings it sets, so env vars left over
+   * from another setup can't point it at the wrong instance.
+   */
+  private getEnv(key: ConfigKey): string | undefined {
+    const envVar = CONFIG_ENV_VARS[key];
+    if (!envVar) return undefined;
+    if (this.explicitProfile && this.profileConfig[key] !== undefined) return undefined;
+    return process.env[envVar];
+  }
+
+  /**
+   * Loads the top-level settings of the config file, ignoring profiles.
+   * Lets the CLI start when the selected profile doesn't exist.
+   */
+  static loadWithoutProfile(configPath?: string): Config {
+    const resolvedPath =
+      configPath ?? process.env.MY2SATS_CONFIG ?? DEFAULT_CONFIG_PATH;
+    const { profiles: _profiles, defaultProfile: _defaultProfile, ...fileConfig } =
+      Config.loadConfigFile(resolvedPath);
     return new Config(fileConfig, resolvedPath);
   }
 
+  /**
+   * Returns where the effective value of a setting came from.
+   */
+  getSource(key: ConfigKey): ConfigSource {
+    if (this.getEnv(key) !== undefined) return "env";
+    if (this.profileConfig[key] !== undefined) return "profile";
+    if (this.fileConfig[key] !== undefined) return "file";
+    return "default";
+  }
+
   /**
    * Resets the singleton instance.
    * Useful for testing or reloading configuration.
@@ -209,11 +541,40 @@ export class Config implements ResolvedConfig {
     }
   }
 
+  /**
+   * Lists the parts of a config file that are ignored: unknown keys and
+   * values that don't pass validation.
+   */
+  static checkConfigFile(data: unknown, prefix = ""): string[] {
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      return [`${prefix ? `"${prefix.slice(0, -1)}"` : "Config file"} must be a JSON object`];
+    }
+
+    const warnings: string[] = [];
+    const valid = Config.validateConfigFile(data);
+    const topLevel = prefix === "";
+
+    for (const [key, value] of Object.entries(data)) {
+      const name = `${prefix}${key}`;
+      if (topLevel && key === "profiles" && valid.profiles) {
+        for (const [profile, settings] of Object.entries(value as object)) {
+          warnings.push(...Config.checkConfigFile(settings, `profiles.${profile}.`));
+        }
+      } else if (!(key in CONFIG_KEYS) && !(topLevel && key === "defaultProfile")) {
+        warnings.push(`Unknown key "${name}" is ignored`);
+      } else if (!(key in valid)) {
+        warnings.push(`Invalid value for "${name}" is ignored`);
+      }
+    }
+
+    return warnings;
+  }
+
   /**
    * Validates the structure of a config file.
    * Returns a sanitized ConfigFile object.
    */
-  private static validateConfigFile(data: unknown): ConfigFile {
+  static validateConfigFile(data: unknown): ConfigFile {
     if (typeof data !== "object" || data === null) {
       return {};
     }
@@ -240,10 +601,222 @@ export class Config implements ResolvedConfig {
       config.allowedImageTypes = obj.allowedImageTypes;
     }
 
+    if (typeof obj.uploadCachePath === "string") {
+      config.uploadCachePath = obj.uploadCachePath;
+    }
+
+    if (typeof obj.optimizeImages === "boolean") {
+      config.optimizeImages = obj.optimizeImages;
+    }
+
+    if (
+      typeof obj.imageMaxDimension === "number" &&
+      Number.isInteger(obj.imageMaxDimension) &&
+      obj.imageMaxDimension > 0
+    ) {
+      config.imageMaxDimension = obj.imageMaxDimension;
+    }
+
+    if (IMAGE_FORMATS.includes(obj.imageFormat as ImageFormat)) {
+      config.imageFormat = obj.imageFormat as ImageFormat;
+    }
+
+    if (
+      typeof obj.imageQuality === "number" &&
+      obj.imageQuality >= 1 &&
+      obj.imageQuality <= 100
+    ) {
+      config.imageQuality = obj.imageQuality;
+    }
+
+    if (
+      typeof obj.uploadConcurrency === "number" &&
+      Number.isInteger(obj.uploadConcurrency) &&
+      obj.uploadConcurrency > 0
+    ) {
+      config.uploadConcurrency = obj.uploadConcurrency;
+    }
+
+    if (
+      typeof obj.maxAttempts === "number" &&
+      Number.isInteger(obj.maxAttempts) &&
+      obj.maxAttempts > 0
+    ) {
+      config.maxAttempts = obj.maxAttempts;
+    }
+
+    if (typeof obj.requestTimeout === "number" && obj.requestTimeout > 0) {
+      config.requestTimeout = obj.requestTimeout;
+    }
+
+    if (typeof obj.uploadTimeout === "number" && obj.uploadTimeout > 0) {
+      config.uploadTimeout = obj.uploadTimeout;
+    }
+
+    if (typeof obj.signPayload === "boolean") {
+      config.signPayload = obj.signPayload;
+    }
+
+    if (typeof obj.signer === "string") {
+      config.signer = obj.signer;
+    }
+
+    if (
+      Array.isArray(obj.signerRelays) &&
+      obj.signerRelays.length > 0 &&
+      obj.signerRelays.every((relay) => typeof relay === "string")
+    ) {
+      config.signerRelays = obj.signerRelays;
+    }
+
+    if (typeof obj.signerTimeout === "number" && obj.signerTimeout > 0) {
+      config.signerTimeout = obj.signerTimeout;
+    }
+
+    if (typeof obj.signerSessionPath === "string") {
+      config.signerSessionPath = obj.signerSessionPath;
+    }
+
+    if (typeof obj.agentSocketPath === "string") {
+      config.agentSocketPath = obj.agentSocketPath;
+    }
+
+    if (
+      typeof obj.agentTtl === "number" &&
+      Number.isInteger(obj.agentTtl) &&
+      obj.agentTtl > 0
+    ) {
+      config.agentTtl = obj.agentTtl;
+    }
+
+    if (typeof obj.author === "string" && obj.author) {
+      config.author = obj.author;
+    }
+
+    if (typeof obj.autoFields === "boolean") {
+      config.autoFields = obj.autoFields;
+    }
+
+    if (
+      typeof obj.excerptLength === "number" &&
+      Number.isInteger(obj.excerptLength) &&
+      obj.excerptLength > 0
+    ) {
+      config.excerptLength = obj.excerptLength;
+    }
+
+    if (typeof obj.wordsPerMinute === "number" && obj.wordsPerMinute > 0) {
+      config.wordsPerMinute = obj.wordsPerMinute;
+    }
+
+    if (isLintRules(obj.lintRules)) {
+      config.lintRules = obj.lintRules;
+    }
+
+    if (typeof obj.defaultProfile === "string") {
+      config.defaultProfile = obj.defaultProfile;
+    }
+
+    if (
+      typeof obj.profiles === "object" &&
+      obj.profiles !== null &&
+      !Array.isArray(obj.profiles)
+    ) {
+      config.profiles = {};
+      for (const [name, profile] of Object.entries(obj.profiles)) {
+        // Profiles can't nest, so their own profile keys are dropped
+        const { defaultProfile: _, profiles: __, ...settings } =
+          Config.validateConfigFile(profile);
+        config.profiles[name] = settings;
+      }
+    }
+
     return config;
   }
 }
 
+/**
+ * Parses a setting's value given as a string, e.g. on the command line, and
+ * validates it with the same rules as the config file.
+ * Lists can be given as JSON or comma-separated.
+ *
+ * @throws {ConfigError} If the key is unknown or the value is invalid
+ */
+export function parseConfigValue(key: string, value: string): unknown {
+  if (!(key in CONFIG_KEYS)) {
+    throw new ConfigError(
+      `Unknown config key: ${key}. Known keys: ${Object.keys(CONFIG_KEYS).join(", ")}`,
+    );
+  }
+
+  let parsed: unknown;
+  switch (CONFIG_KEYS[key as ConfigKey]) {
+    case "string":
+      parsed = value;
+      break;
+    case "number":
+      parsed = value.trim() === "" ? NaN : Number(value);
+      break;
+    case "boolean":
+      parsed = value === "true" ? true : value === "false" ? false : value;
+      break;
+    case "string[]":
+      try {
+        parsed = value.trim().startsWith("[")
+          ? JSON.parse(value)
+          : value.split(",").map((item) => item.trim()).filter(Boolean);
+      } catch {
+        parsed = value;
+      }
+      break;
+    case "object":
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        parsed = value;
+      }
+      break;
+  }
+
+  const validated = Config.validateConfigFile({ [key]: parsed });
+  if (!(key in validated)) {
+    throw new ConfigError(`Invalid value for ${key}: ${value}`);
+  }
+  return validated[key as ConfigKey];
+}
+
+/**
+ * Checks that a value maps known lint rules to valid severities.
+ */
+function isLintRules(value: unknown): value is Partial<Record<LintRule, LintSeverity>> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(
+      ([rule, severity]) =>
+        LINT_RULES.includes(rule as LintRule) &&
+        LINT_SEVERITIES.includes(severity as LintSeverity),
+    )
+  );
+}
+
+/**
+ * Reads the value of a --profile option from command-line arguments.
+ *
+ * The config is loaded before commander parses the arguments (commands use
+ * config values as option defaults), so the profile is picked out up front.
+ */
+export function getProfileArg(argv: readonly string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") return undefined;
+    if (arg === "--profile") return argv[i + 1];
+    if (arg.startsWith("--profile=")) return arg.slice("--profile=".length);
+  }
+  return undefined;
+}
+
 /**
  * Error thrown for configuration-related issues.
  */
@@ -254,6 +827,9 @@ export class ConfigError extends Error {
   }
 }
 
+/** Why the selected profile couldn't be loaded, reported when a command runs */
+let profileError: ConfigError | undefined;
+
 /**
  * Default export for convenient access.
  * @example
@@ -262,4 +838,41 @@ export class ConfigError extends Error {
  * console.log(config.apiUrl);
  * ```
  */
-export const config = Config.getInstance();
+export const config = loadConfig();
+
+/**
+ * Throws the error of a selected profile that doesn't exist. The CLI starts
+ * without the profile so `config` can still fix the setting; other commands
+ * call this before they run.
+ *
+ * @throws {ConfigError} If the selected profile doesn't exist
+ */
+export function checkProfile(): void {
+  if (profileError) throw profileError;
+}
+
+/**
+ * Loads the singleton config for the CLI.
+ * Config errors happen while modules are imported, before commands can handle
+ * them, so they are reported here instead of as an uncaught exception.
+ */
+function loadConfig(): Config {
+  try {
+    return Config.getInstance();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      // The file itself is fine, so the selected profile is what's missing
+      try {
+        const fallback = Config.loadWithoutProfile();
+        profileError = error;
+        return fallback;
+      } catch {
+        // Report the original error below
+      }
+      // Options aren't parsed yet, so --json is looked for directly
+      setOutputOptions({ json: process.argv.includes("--json") });
+      handleError(error);
+    }
+    throw error;
+  }
+}
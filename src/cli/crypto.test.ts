@@ -1,6 +1,22 @@
-import { test, expect, describe } from "bun:test";
-import { parseSecretKey } from "./crypto";
-import { InvalidSecretKeyError } from "./errors";
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import prompts from "prompts";
+import { hexToBytes } from "@noble/hashes/utils";
+import {
+  decryptKey,
+  getSecretKey,
+  parseSecretKey,
+  readKeyfile,
+  writeKeyfile,
+} from "./crypto";
+import {
+  DecryptionError,
+  InvalidKeyfileError,
+  InvalidSecretKeyError,
+  KeyfileNotFoundError,
+} from "./errors";
 
 describe("parseSecretKey", () => {
   // Valid 64-character hex key for testing
@@ -64,3 +80,62 @@ describe("parseSecretKey", () => {
     expect(() => parseSecretKey("nsec1invalid")).toThrow();
   });
 });
+
+describe("keyfile", () => {
+  const secretKey = hexToBytes(
+    "67dea2ed018072d675f5415ecfaed7d2597555e202d85b3d65ea4e58d2d92ffa",
+  );
+  let tempDir: string;
+  let keyfilePath: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-crypto-"));
+    keyfilePath = join(tempDir, "keys", "nostr.key");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("writes an encrypted keyfile readable only by the user", async () => {
+    await writeKeyfile(keyfilePath, secretKey, "hunter2");
+
+    const ncryptsec = await readKeyfile(keyfilePath);
+    expect(ncryptsec).toStartWith("ncryptsec1");
+    expect(decryptKey(ncryptsec, "hunter2")).toEqual(secretKey);
+    expect((await stat(keyfilePath)).mode & 0o777).toBe(0o600);
+  });
+
+  test("replaces an existing keyfile without leaving temporary files", async () => {
+    await writeKeyfile(keyfilePath, secretKey, "hunter2");
+    await writeKeyfile(keyfilePath, secretKey, "correct horse");
+
+    expect(decryptKey(await readKeyfile(keyfilePath), "correct horse")).toEqual(secretKey);
+    expect(await readdir(join(tempDir, "keys"))).toEqual(["nostr.key"]);
+  });
+
+  test("cleans up when the keyfile can't be replaced", async () => {
+    // A non-empty directory can't be renamed over
+    await Bun.write(join(keyfilePath, "inside"), "");
+
+    await expect(writeKeyfile(keyfilePath, secretKey, "hunter2")).rejects.toThrow();
+    expect(await readdir(join(tempDir, "keys"))).toEqual(["nostr.key"]);
+  });
+
+  test("decrypts the keyfile with the prompted password", async () => {
+    await writeKeyfile(keyfilePath, secretKey, "hunter2");
+
+    prompts.inject(["hunter2"]);
+    expect(await getSecretKey(keyfilePath)).toEqual(secretKey);
+
+    prompts.inject(["wrong"]);
+    await expect(getSecretKey(keyfilePath)).rejects.toThrow(DecryptionError);
+  });
+
+  test("rejects missing and invalid keyfiles", async () => {
+    await expect(readKeyfile(keyfilePath)).rejects.toThrow(KeyfileNotFoundError);
+
+    await Bun.write(keyfilePath, "nsec1abc");
+    await expect(readKeyfile(keyfilePath)).rejects.toThrow(InvalidKeyfileError);
+  });
+});
@@ -2,8 +2,9 @@
  * Cryptographic utilities for Nostr key handling.
  */
 
-import prompts from "prompts";
-import { decrypt } from "nostr-tools/nip49";
+import { chmod, mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { decrypt, encrypt } from "nostr-tools/nip49";
 import { decode } from "nostr-tools/nip19";
 import { finalizeEvent, type EventTemplate } from "nostr-tools/pure";
 import { hexToBytes } from "@noble/hashes/utils";
@@ -13,8 +14,8 @@ import {
   InvalidKeyfileError,
   DecryptionError,
   InvalidSecretKeyError,
-  AbortedError,
 } from "./errors";
+import { getPassword } from "./input";
 import { type SignFunction } from "./types";
 
 /**
@@ -40,46 +41,85 @@ export function parseSecretKey(input: string): Uint8Array {
 }
 
 /**
- * Reads and decrypts the secret key from the keyfile.
- * Prompts the user for the decryption password.
+ * Reads the encrypted key (ncryptsec) from the keyfile.
  *
  * @throws {KeyfileNotFoundError} If the keyfile doesn't exist
  * @throws {InvalidKeyfileError} If the keyfile format is invalid
- * @throws {AbortedError} If the user cancels the password prompt
- * @throws {DecryptionError} If decryption fails
  */
-export async function getSecretKey(
+export async function readKeyfile(
   keyfilePath: string = config.keyfilePath,
-): Promise<Uint8Array> {
+): Promise<string> {
   const keyfile = Bun.file(keyfilePath);
 
   if (!(await keyfile.exists())) {
     throw new KeyfileNotFoundError(keyfilePath);
   }
 
-  const ncryptsec = await keyfile.text();
+  const ncryptsec = (await keyfile.text()).trim();
 
   if (!ncryptsec.startsWith("ncryptsec1")) {
     throw new InvalidKeyfileError();
   }
 
-  const response = await prompts({
-    type: "password",
-    name: "password",
-    message: "Enter password to decrypt key:",
-  });
+  return ncryptsec;
+}
+
+/**
+ * Encrypts a secret key with NIP-49 and writes it to the keyfile,
+ * readable only by the current user.
+ *
+ * The key is written to a temporary file next to the keyfile and renamed over
+ * it, so a crash or full disk leaves the old keyfile intact.
+ */
+export async function writeKeyfile(
+  keyfilePath: string,
+  secretKey: Uint8Array,
+  password: string,
+): Promise<void> {
+  const ncryptsec = encrypt(secretKey, password);
+  await mkdir(dirname(keyfilePath), { recursive: true });
 
-  if (!response.password) {
-    throw new AbortedError();
+  const tempPath = `${keyfilePath}.${process.pid}.tmp`;
+  try {
+    await writeFile(tempPath, ncryptsec, { mode: 0o600 });
+    await chmod(tempPath, 0o600);
+    await rename(tempPath, keyfilePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
   }
+}
 
+/**
+ * Decrypts an ncryptsec with the given password.
+ *
+ * @throws {DecryptionError} If the password is wrong
+ */
+export function decryptKey(ncryptsec: string, password: string): Uint8Array {
   try {
-    return decrypt(ncryptsec.trim(), response.password);
+    return decrypt(ncryptsec, password);
   } catch {
     throw new DecryptionError();
   }
 }
 
+/**
+ * Reads and decrypts the secret key from the keyfile.
+ * The password comes from MY2SATS_PASSWORD or --password-file, or is prompted for.
+ *
+ * @throws {KeyfileNotFoundError} If the keyfile doesn't exist
+ * @throws {InvalidKeyfileError} If the keyfile format is invalid
+ * @throws {AbortedError} If the user cancels the password prompt
+ * @throws {InputRequiredError} If no password is given and prompts are disabled
+ * @throws {DecryptionError} If decryption fails
+ */
+export async function getSecretKey(
+  keyfilePath: string = config.keyfilePath,
+): Promise<Uint8Array> {
+  const ncryptsec = await readKeyfile(keyfilePath);
+  return decryptKey(ncryptsec, await getPassword());
+}
+
 /**
  * Creates a sign function for NIP-98 authentication.
  */
@@ -9,8 +9,21 @@ import {
   FileNotFoundError,
   ImageValidationError,
   AbortedError,
+  DownloadError,
+  FrontmatterError,
+  ImageUploadError,
+  ImportError,
+  ExportError,
+  ImportSourceError,
+  LintError,
+  NetworkError,
+  InvalidResponseError,
+  EXIT_CODES,
   formatError,
+  getExitCode,
+  toErrorJson,
 } from "./errors";
+import { ConfigError } from "./config";
 
 describe("Custom Error Classes", () => {
   test("KeyfileNotFoundError has correct message and name", () => {
@@ -60,6 +73,23 @@ describe("Custom Error Classes", () => {
     expect(error.message).toBe("API request failed (404): Post not found");
   });
 
+  test("NetworkError includes url and reason", () => {
+    const error = new NetworkError("http://api/api/posts", "timed out after 30000ms");
+
+    expect(error.name).toBe("NetworkError");
+    expect(error.url).toBe("http://api/api/posts");
+    expect(error.message).toBe(
+      "Request to http://api/api/posts failed: timed out after 30000ms",
+    );
+  });
+
+  test("InvalidResponseError has correct message and name", () => {
+    const error = new InvalidResponseError('Post: "slug" must be a string');
+
+    expect(error.name).toBe("InvalidResponseError");
+    expect(error.message).toBe('Invalid API response: Post: "slug" must be a string');
+  });
+
   test("ValidationError includes fields", () => {
     const error = new ValidationError(["slug", "title", "author"]);
 
@@ -68,6 +98,31 @@ describe("Custom Error Classes", () => {
     expect(error.message).toBe("Missing required fields: slug, title, author");
   });
 
+  test("ValidationError accepts custom message", () => {
+    const error = new ValidationError(["slug"], "Slug is not URL-safe");
+
+    expect(error.fields).toEqual(["slug"]);
+    expect(error.message).toBe("Slug is not URL-safe");
+  });
+
+  test("FrontmatterError includes location", () => {
+    const error = new FrontmatterError("Unexpected token", 4, 7);
+
+    expect(error.name).toBe("FrontmatterError");
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.line).toBe(4);
+    expect(error.column).toBe(7);
+    expect(error.fields).toEqual([]);
+    expect(error.message).toBe("Invalid frontmatter at line 4, column 7: Unexpected token");
+  });
+
+  test("FrontmatterError without location", () => {
+    const error = new FrontmatterError('"title" must be a string', undefined, undefined, "title");
+
+    expect(error.fields).toEqual(["title"]);
+    expect(error.message).toBe('Invalid frontmatter: "title" must be a string');
+  });
+
   test("FileNotFoundError has correct message", () => {
     const error = new FileNotFoundError("/path/to/file.md");
 
@@ -82,6 +137,91 @@ describe("Custom Error Classes", () => {
     expect(error.message).toBe("Image too large: 10MB");
   });
 
+  test("ImageUploadError lists every failed file", () => {
+    const failures = [
+      { path: "posts/a.png", error: "API request failed (502): Bad Gateway" },
+      { path: "posts/b.png", error: "Connection reset" },
+    ];
+    const error = new ImageUploadError(failures);
+
+    expect(error.name).toBe("ImageUploadError");
+    expect(error.failures).toEqual(failures);
+    expect(error.message).toBe(
+      "2 image upload(s) failed:\n" +
+        "  posts/a.png: API request failed (502): Bad Gateway\n" +
+        "  posts/b.png: Connection reset",
+    );
+  });
+
+  test("ImportSourceError names the source", () => {
+    const error = new ImportSourceError("blog.xml", "not a WordPress export");
+
+    expect(error.name).toBe("ImportSourceError");
+    expect(error.message).toBe("Can't import blog.xml: not a WordPress export");
+  });
+
+  test("ImportError lists every failed post", () => {
+    const failures = [{ id: "10", slug: "hello", error: "Connection reset" }];
+    const error = new ImportError(failures, 3);
+
+    expect(error.name).toBe("ImportError");
+    expect(error.failures).toEqual(failures);
+    expect(error.imported).toBe(3);
+    expect(error.message).toBe(
+      "1 post(s) failed to import, 3 imported " +
+        "(run the same command again to retry the failed ones):\n" +
+        "  hello: Connection reset",
+    );
+  });
+
+  test("ExportError lists every failed download", () => {
+    const error = new ExportError([{ url: "http://x/a.png", slug: "hello", error: "HTTP 404" }], 2);
+
+    expect(error.name).toBe("ExportError");
+    expect(error.exported).toBe(2);
+    expect(error.message).toBe(
+      "1 image(s) failed to download, 2 post(s) exported " +
+        "with their original URLs (run the same command again to retry):\n" +
+        "  hello: http://x/a.png: HTTP 404",
+    );
+    expect(toErrorJson(error)).toMatchObject({ exitCode: 19, failures: error.failures });
+  });
+
+  test("LintError lists every error with its location", () => {
+    const error = new LintError([
+      {
+        file: "post.md",
+        line: 3,
+        rule: "broken-links",
+        severity: "error",
+        message: "Image not found: ./a.png",
+      },
+    ]);
+
+    expect(error.name).toBe("LintError");
+    expect(error.message).toBe(
+      "Lint found 1 error(s) (skip the checks with --no-lint):\n" +
+        "  post.md:3: Image not found: ./a.png (broken-links)",
+    );
+    expect(getExitCode(error)).toBe(16);
+    expect(toErrorJson(error).diagnostics).toEqual(error.diagnostics);
+  });
+
+  test("DownloadError includes url and status", () => {
+    const error = new DownloadError("https://example.com/a.png", 404);
+
+    expect(error.name).toBe("DownloadError");
+    expect(error.url).toBe("https://example.com/a.png");
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("Failed to download https://example.com/a.png (404)");
+  });
+
+  test("DownloadError without status", () => {
+    const error = new DownloadError("https://example.com/a.png");
+
+    expect(error.message).toBe("Failed to download https://example.com/a.png");
+  });
+
   test("AbortedError has default message", () => {
     const error = new AbortedError();
 
@@ -127,3 +267,73 @@ describe("formatError", () => {
     expect(formatError({ foo: "bar" })).toBe("[object Object]");
   });
 });
+
+describe("getExitCode", () => {
+  test("maps each error class to its own exit code", () => {
+    expect(getExitCode(new ApiError(401, "Unauthorized"))).toBe(30);
+    expect(getExitCode(new FileNotFoundError("/a.md"))).toBe(13);
+    expect(getExitCode(new KeyfileNotFoundError("/key"))).toBe(20);
+    expect(getExitCode(new DecryptionError())).toBe(22);
+    expect(getExitCode(new ConfigError("bad"))).toBe(10);
+  });
+
+  test("uses the subclass code for subclasses", () => {
+    expect(getExitCode(new FrontmatterError("bad"))).toBe(12);
+    expect(getExitCode(new ValidationError(["title"]))).toBe(11);
+  });
+
+  test("falls back to 1 for other errors", () => {
+    expect(getExitCode(new Error("boom"))).toBe(1);
+    expect(getExitCode("boom")).toBe(1);
+  });
+
+  test("exit codes are distinct", () => {
+    const codes = Object.values(EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes).not.toContain(1);
+  });
+});
+
+describe("toErrorJson", () => {
+  test("includes the type, message and exit code", () => {
+    expect(toErrorJson(new DecryptionError())).toEqual({
+      type: "DecryptionError",
+      message: "Failed to decrypt key. Wrong password?",
+      exitCode: 22,
+    });
+  });
+
+  test("includes the HTTP status of API errors", () => {
+    expect(toErrorJson(new ApiError(403, "Forbidden"))).toMatchObject({
+      type: "ApiError",
+      status: 403,
+      exitCode: 30,
+    });
+  });
+
+  test("includes fields and location of validation errors", () => {
+    expect(toErrorJson(new ValidationError(["title", "slug"]))).toMatchObject({
+      fields: ["title", "slug"],
+    });
+    expect(toErrorJson(new FrontmatterError("bad value", 3, 7, "tags"))).toMatchObject({
+      type: "FrontmatterError",
+      fields: ["tags"],
+      line: 3,
+      column: 7,
+    });
+  });
+
+  test("includes the URL of network errors and failed uploads", () => {
+    expect(toErrorJson(new NetworkError("http://api", "timeout")).url).toBe("http://api");
+    expect(
+      toErrorJson(new ImageUploadError([{ path: "a.png", error: "too large" }])).failures,
+    ).toEqual([{ path: "a.png", error: "too large" }]);
+    expect(
+      toErrorJson(new ImportError([{ id: "1", slug: "a", error: "boom" }], 0)),
+    ).toMatchObject({ exitCode: 18, failures: [{ id: "1", slug: "a", error: "boom" }] });
+  });
+
+  test("handles non-Error values", () => {
+    expect(toErrorJson("boom")).toEqual({ type: "Error", message: "boom", exitCode: 1 });
+  });
+});
@@ -2,6 +2,9 @@
  * Custom error classes for better error handling and testability.
  */
 
+import { isJsonOutput, writeJson } from "./output";
+import { type ExportFailure, type ImportFailure, type LintDiagnostic } from "./types";
+
 /**
  * Thrown when the keyfile is not found.
  */
@@ -55,16 +58,104 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Thrown when an API response doesn't have the expected shape.
+ */
+export class InvalidResponseError extends Error {
+  constructor(message: string) {
+    super(`Invalid API response: ${message}`);
+    this.name = "InvalidResponseError";
+  }
+}
+
+/**
+ * Thrown when a NIP-98 Authorization header is missing or invalid.
+ */
+export class AuthorizationError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Unauthorized: ${reason}`);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * Thrown when a signer can't be configured or a remote signer fails.
+ */
+export class SignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignerError";
+  }
+}
+
+/**
+ * Thrown when the key agent rejects a request or can't be reached.
+ */
+export class AgentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentError";
+  }
+}
+
+/**
+ * Thrown when no key agent is listening on the socket.
+ */
+export class AgentNotRunningError extends AgentError {
+  constructor(socketPath: string) {
+    super(`No key agent running at ${socketPath}. Start one with 'my2sats agent start'.`);
+    this.name = "AgentNotRunningError";
+  }
+}
+
+/**
+ * Thrown when a request fails without a response (connection error or timeout).
+ */
+export class NetworkError extends Error {
+  constructor(
+    public readonly url: string,
+    reason: string,
+  ) {
+    super(`Request to ${url} failed: ${reason}`);
+    this.name = "NetworkError";
+  }
+}
+
 /**
  * Thrown when required fields are missing.
  */
 export class ValidationError extends Error {
-  constructor(public readonly fields: string[]) {
-    super(`Missing required fields: ${fields.join(", ")}`);
+  constructor(
+    public readonly fields: string[],
+    message = `Missing required fields: ${fields.join(", ")}`,
+  ) {
+    super(message);
     this.name = "ValidationError";
   }
 }
 
+/**
+ * Thrown when markdown frontmatter cannot be parsed or has invalid values.
+ * Line and column are 1-based and relative to the markdown file.
+ */
+export class FrontmatterError extends ValidationError {
+  constructor(
+    public readonly reason: string,
+    public readonly line?: number,
+    public readonly column?: number,
+    field?: string,
+  ) {
+    const location =
+      line === undefined
+        ? ""
+        : column === undefined
+          ? ` at line ${line}`
+          : ` at line ${line}, column ${column}`;
+    super(field ? [field] : [], `Invalid frontmatter${location}: ${reason}`);
+    this.name = "FrontmatterError";
+  }
+}
+
 /**
  * Thrown when a file is not found.
  */
@@ -85,6 +176,117 @@ export class ImageValidationError extends Error {
   }
 }
 
+/**
+ * A single failed image upload.
+ */
+export interface ImageUploadFailure {
+  path: string;
+  error: string;
+}
+
+/**
+ * Thrown when one or more image uploads fail.
+ */
+export class ImageUploadError extends Error {
+  constructor(public readonly failures: ImageUploadFailure[]) {
+    super(
+      `${failures.length} image upload(s) failed:\n` +
+        failures.map((failure) => `  ${failure.path}: ${failure.error}`).join("\n"),
+    );
+    this.name = "ImageUploadError";
+  }
+}
+
+/**
+ * Thrown when linting finds errors in a post before it is published.
+ */
+export class LintError extends Error {
+  constructor(public readonly diagnostics: LintDiagnostic[]) {
+    super(
+      `Lint found ${diagnostics.length} error(s) (skip the checks with --no-lint):\n` +
+        diagnostics
+          .map(({ file, line, message, rule }) => `  ${file}:${line}: ${message} (${rule})`)
+          .join("\n"),
+    );
+    this.name = "LintError";
+  }
+}
+
+/**
+ * Thrown when an import source isn't a readable export or content directory.
+ */
+export class ImportSourceError extends Error {
+  constructor(
+    public readonly source: string,
+    reason: string,
+  ) {
+    super(`Can't import ${source}: ${reason}`);
+    this.name = "ImportSourceError";
+  }
+}
+
+/**
+ * Thrown when some posts of an import failed. The others were imported.
+ */
+export class ImportError extends Error {
+  constructor(
+    public readonly failures: ImportFailure[],
+    public readonly imported: number,
+  ) {
+    super(
+      `${failures.length} post(s) failed to import, ${imported} imported ` +
+        `(run the same command again to retry the failed ones):\n` +
+        failures.map((failure) => `  ${failure.slug ?? failure.id}: ${failure.error}`).join("\n"),
+    );
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * Thrown when some images of an export failed to download. The posts were
+ * written with the original image URLs.
+ */
+export class ExportError extends Error {
+  constructor(
+    public readonly failures: ExportFailure[],
+    public readonly exported: number,
+  ) {
+    super(
+      `${failures.length} image(s) failed to download, ${exported} post(s) exported ` +
+        `with their original URLs (run the same command again to retry):\n` +
+        failures.map((failure) => `  ${failure.slug}: ${failure.url}: ${failure.error}`).join("\n"),
+    );
+    this.name = "ExportError";
+  }
+}
+
+/**
+ * Thrown when downloading a remote file fails.
+ */
+export class DownloadError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status?: number,
+  ) {
+    super(
+      status === undefined
+        ? `Failed to download ${url}`
+        : `Failed to download ${url} (${status})`,
+    );
+    this.name = "DownloadError";
+  }
+}
+
+/**
+ * Thrown when input is needed but prompts are disabled (--no-input or --yes).
+ */
+export class InputRequiredError extends Error {
+  constructor(what: string, hint: string) {
+    super(`${what} is required, but prompts are disabled. ${hint}`);
+    this.name = "InputRequiredError";
+  }
+}
+
 /**
  * Thrown when user aborts an operation.
  */
@@ -95,6 +297,109 @@ export class AbortedError extends Error {
   }
 }
 
+/**
+ * Exit codes by error class name, so scripts can tell failures apart without
+ * parsing messages. Errors without a class of their own (including invalid
+ * command-line arguments) exit with 1. Documented in the README.
+ */
+export const EXIT_CODES: Readonly<Record<string, number>> = {
+  ConfigError: 10,
+  ValidationError: 11,
+  FrontmatterError: 12,
+  FileNotFoundError: 13,
+  ImageValidationError: 14,
+  ImageUploadError: 15,
+  LintError: 16,
+  ImportSourceError: 17,
+  ImportError: 18,
+  ExportError: 19,
+  KeyfileNotFoundError: 20,
+  InvalidKeyfileError: 21,
+  DecryptionError: 22,
+  InvalidSecretKeyError: 23,
+  SignerError: 24,
+  AgentError: 25,
+  AgentNotRunningError: 26,
+  ApiError: 30,
+  InvalidResponseError: 31,
+  NetworkError: 32,
+  DownloadError: 33,
+  AuthorizationError: 34,
+  InputRequiredError: 40,
+  AbortedError: 41,
+};
+
+/**
+ * Returns the exit code for an error.
+ */
+export function getExitCode(error: unknown): number {
+  return (error instanceof Error && EXIT_CODES[error.name]) || 1;
+}
+
+/**
+ * An error as printed with --json.
+ */
+export interface ErrorJson {
+  /** Name of the error class, e.g. "ApiError" */
+  type: string;
+  message: string;
+  exitCode: number;
+  /** HTTP status of failed API requests and downloads */
+  status?: number;
+  /** Fields that failed validation */
+  fields?: string[];
+  /** Location of frontmatter errors (1-based) */
+  line?: number;
+  column?: number;
+  /** URL of failed requests and downloads */
+  url?: string;
+  /** Failed image uploads and downloads, or posts that failed to import */
+  failures?: ImageUploadFailure[] | ImportFailure[] | ExportFailure[];
+  /** Lint errors that stopped a post or update */
+  diagnostics?: LintDiagnostic[];
+}
+
+/**
+ * Converts an error to the object printed with --json.
+ */
+export function toErrorJson(error: unknown): ErrorJson {
+  if (!(error instanceof Error)) {
+    return { type: "Error", message: String(error), exitCode: 1 };
+  }
+
+  const json: ErrorJson = {
+    type: error.name,
+    message: error.message,
+    exitCode: getExitCode(error),
+  };
+
+  if (error instanceof ApiError || error instanceof DownloadError) {
+    json.status = error.status;
+  }
+  if (error instanceof NetworkError || error instanceof DownloadError) {
+    json.url = error.url;
+  }
+  if (error instanceof ValidationError) {
+    json.fields = error.fields;
+  }
+  if (error instanceof FrontmatterError) {
+    json.line = error.line;
+    json.column = error.column;
+  }
+  if (
+    error instanceof ImageUploadError ||
+    error instanceof ImportError ||
+    error instanceof ExportError
+  ) {
+    json.failures = error.failures;
+  }
+  if (error instanceof LintError) {
+    json.diagnostics = error.diagnostics;
+  }
+
+  return json;
+}
+
 /**
  * Formats an error for CLI output.
  */
@@ -106,9 +411,14 @@ export function formatError(error: unknown): string {
 }
 
 /**
- * Handles an error by printing it and exiting.
+ * Handles an error by printing it and exiting with its exit code.
+ * With --json the error is printed as JSON on stdout instead.
  */
 export function handleError(error: unknown): never {
-  console.error("Error:", formatError(error));
-  process.exit(1);
+  if (isJsonOutput()) {
+    writeJson({ error: toErrorJson(error) });
+  } else {
+    console.error("Error:", formatError(error));
+  }
+  process.exit(getExitCode(error));
 }
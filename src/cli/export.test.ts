@@ -0,0 +1,228 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateSecretKey, getPublicKey } from "nostr-tools/pure";
+import { My2satsClient } from "./api-client";
+import { createSignFunction } from "./crypto";
+import { ExportError } from "./errors";
+import {
+  EXPORT_MANIFEST_NAME,
+  createExportManifest,
+  exportPosts,
+  getPostFileName,
+  listRemoteImages,
+  loadExportManifest,
+  rewriteImageUrls,
+  saveExportManifest,
+} from "./export";
+import { createMockHandler } from "./mock-server";
+import { parseFrontmatter } from "./utils";
+
+describe("image links", () => {
+  test("listRemoteImages lists content images and the featured image once", () => {
+    const content = "![a](https://x.com/a.png) ![b](./b.png) <img src=\"https://x.com/a.png\">";
+
+    expect(listRemoteImages(content, "https://x.com/cover.jpg")).toEqual([
+      "https://x.com/a.png",
+      "https://x.com/cover.jpg",
+    ]);
+    expect(listRemoteImages(content, "./cover.jpg")).toEqual(["https://x.com/a.png"]);
+  });
+
+  test("rewriteImageUrls replaces only downloaded URLs", () => {
+    const localPaths = new Map([["https://x.com/a.png", "./assets/a.png"]]);
+
+    expect(
+      rewriteImageUrls(
+        "![a](https://x.com/a.png) ![b](https://x.com/b.png)",
+        "https://x.com/a.png",
+        localPaths,
+      ),
+    ).toEqual({
+      content: "![a](./assets/a.png) ![b](https://x.com/b.png)",
+      featuredImage: "./assets/a.png",
+    });
+  });
+
+  test("getPostFileName keeps file names safe and unique", () => {
+    const usedNames = new Set<string>();
+
+    expect(getPostFileName("hello-world", usedNames)).toBe("hello-world.md");
+    expect(getPostFileName("../a b", usedNames)).toBe(".._a_b.md");
+    expect(getPostFileName("a/b", usedNames)).toBe("a_b.md");
+    expect(getPostFileName("a_b", usedNames)).toBe("a_b-2.md");
+    expect(getPostFileName("A_B", usedNames)).toBe("A_B-3.md");
+  });
+});
+
+describe("with a mock server", () => {
+  const secretKey = generateSecretKey();
+  const pubkey = getPublicKey(secretKey);
+  let tempDir: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let client: My2satsClient;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-export-"));
+    server = Bun.serve({ port: 0, fetch: await createMockHandler() });
+    client = new My2satsClient({
+      apiUrl: server.url.origin,
+      sign: createSignFunction(secretKey),
+    });
+  });
+
+  afterEach(async () => {
+    server.stop(true);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Uploads an image to the mock server and returns its URL.
+   */
+  async function uploadImage(name: string, data: string): Promise<string> {
+    const { url } = await client.uploadImage(new File([data], name, { type: "image/png" }));
+    return url;
+  }
+
+  test("saves and loads the manifest of the same API and pubkey only", async () => {
+    const path = join(tempDir, EXPORT_MANIFEST_NAME);
+    const manifest = createExportManifest("http://api", pubkey);
+    await saveExportManifest(path, manifest);
+
+    expect(await loadExportManifest(path, "http://api", pubkey)).toEqual(manifest);
+    expect(await loadExportManifest(path, "http://other", pubkey)).toBeUndefined();
+    expect(await loadExportManifest(path, "http://api", "other")).toBeUndefined();
+    expect(await loadExportManifest(join(tempDir, "none.json"), "http://api", pubkey)).toBe(
+      undefined,
+    );
+  });
+
+  test("writes own posts with their images and a manifest", async () => {
+    const image = await uploadImage("pic.png", "image data");
+    await client.createPost({
+      slug: "first",
+      title: "First",
+      author: "Alice",
+      content: `Hello\n\n![pic](${image})`,
+      featured_image: image,
+      tags: ["a"],
+    });
+    await client.createPost({ slug: "second", title: "Second", author: "Alice", content: "Bye" });
+    const other = new My2satsClient({
+      apiUrl: server.url.origin,
+      sign: createSignFunction(generateSecretKey()),
+    });
+    await other.createPost({ slug: "theirs", title: "Theirs", author: "Bob", content: "Hi" });
+
+    const result = await exportPosts(client, tempDir, pubkey);
+
+    expect(result.downloaded).toBe(1);
+    expect((await readdir(tempDir)).sort()).toEqual([
+      "assets",
+      "first.md",
+      "manifest.json",
+      "second.md",
+    ]);
+
+    const first = parseFrontmatter(await Bun.file(join(tempDir, "first.md")).text());
+    const asset = result.manifest.assets[image]!.file;
+    expect(first.frontmatter).toEqual({
+      slug: "first",
+      title: "First",
+      author: "Alice",
+      featured_image: `./${asset}`,
+      tags: ["a"],
+    });
+    expect(first.content).toBe(`Hello\n\n![pic](./${asset})`);
+    expect(await Bun.file(join(tempDir, asset)).text()).toBe("image data");
+
+    const manifest = await loadExportManifest(
+      join(tempDir, EXPORT_MANIFEST_NAME),
+      server.url.origin,
+      pubkey,
+    );
+    expect(manifest?.posts.first).toMatchObject({
+      file: "first.md",
+      url: `${server.url.origin}/api/posts/first`,
+      images: [image],
+    });
+    expect(manifest?.posts.first?.createdAt).toBeString();
+  });
+
+  test("reuses the images of a previous export", async () => {
+    const image = await uploadImage("pic.png", "image data");
+    await client.createPost({ slug: "p", title: "P", author: "A", content: `![x](${image})` });
+    const { manifest } = await exportPosts(client, tempDir, pubkey);
+
+    const result = await exportPosts(client, tempDir, pubkey, manifest);
+
+    expect(result).toMatchObject({ downloaded: 0, reused: 1 });
+    expect(result.manifest.assets[image]).toEqual(manifest.assets[image]!);
+  });
+
+  test("writes posts whose slugs map to the same name into separate files", async () => {
+    await client.createPost({ slug: "a:b", title: "Colon", author: "A", content: "1" });
+    await client.createPost({ slug: "a_b", title: "Underscore", author: "A", content: "2" });
+
+    const { manifest } = await exportPosts(client, tempDir, pubkey);
+    const files = Object.values(manifest.posts).map((post) => post.file);
+
+    expect(files.sort()).toEqual(["a_b-2.md", "a_b.md"]);
+
+    // A later export keeps each post in its file
+    const again = await exportPosts(client, tempDir, pubkey, manifest);
+    expect(again.manifest.posts).toEqual(manifest.posts);
+  });
+
+  test("gives a new name to posts whose previous file is outside the directory", async () => {
+    await client.createPost({ slug: "p", title: "P", author: "A", content: "1" });
+    const previous = createExportManifest(server.url.origin, pubkey);
+    previous.posts.p = { file: "../outside.md", url: "", images: [] };
+    const dir = join(tempDir, "export");
+
+    const { manifest } = await exportPosts(client, dir, pubkey, previous);
+
+    expect(manifest.posts.p?.file).toBe("p.md");
+    expect(await readdir(tempDir)).toEqual(["export"]);
+  });
+
+  test("saves the manifest of an export that stops partway", async () => {
+    const image = await uploadImage("pic.png", "image data");
+    await client.createPost({ slug: "one", title: "1", author: "A", content: `![x](${image})` });
+    await client.createPost({ slug: "two", title: "2", author: "A", content: `![x](${image})` });
+    let fetched = 0;
+    const failing = new My2satsClient({
+      apiUrl: server.url.origin,
+      // The second post can't be fetched
+      fetch: (async (url: string, init: RequestInit) =>
+        /\/api\/posts\/\w+$/.test(url) && ++fetched === 2
+          ? new Response("Not found", { status: 404 })
+          : fetch(url, init)) as unknown as typeof globalThis.fetch,
+    });
+
+    await expect(exportPosts(failing, tempDir, pubkey)).rejects.toThrow("Not found");
+
+    const manifest = await loadExportManifest(
+      join(tempDir, EXPORT_MANIFEST_NAME),
+      server.url.origin,
+      pubkey,
+    );
+    expect(Object.keys(manifest?.posts ?? {})).toHaveLength(1);
+    expect(Object.keys(manifest?.assets ?? {})).toEqual([image]);
+  });
+
+  test("keeps the original URL of images that fail to download", async () => {
+    const missing = `${server.url.origin}/uploads/missing.png`;
+    await client.createPost({ slug: "p", title: "P", author: "A", content: `![x](${missing})` });
+
+    const error = await exportPosts(client, tempDir, pubkey).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ExportError);
+    expect((error as ExportError).failures).toEqual([
+      { url: missing, slug: "p", error: "HTTP 404" },
+    ]);
+    expect(await Bun.file(join(tempDir, "p.md")).text()).toContain(`![x](${missing})`);
+    expect(await Bun.file(join(tempDir, EXPORT_MANIFEST_NAME)).exists()).toBe(true);
+  });
+});
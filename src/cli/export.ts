@@ -0,0 +1,277 @@
+/**
+ * Full backups: writing every post of a pubkey as a markdown file, with its
+ * images downloaded into an assets directory and a manifest recording where
+ * everything came from.
+ */
+
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { getPostsUrl, type My2satsClient } from "./api-client";
+import { DownloadError, ExportError, formatError } from "./errors";
+import { type ExportFailure, type ExportManifest } from "./types";
+import {
+  getImageFileName,
+  getPostFrontmatter,
+  isLocalPath,
+  parseRemoteImageReferences,
+  serializeFrontmatter,
+} from "./utils";
+
+/** Manifest file name, stored inside the export directory */
+export const EXPORT_MANIFEST_NAME = "manifest.json";
+
+/** Directory inside the export that images are downloaded into */
+export const ASSETS_DIR = "assets";
+
+/**
+ * Creates an empty manifest for the posts of a pubkey on an API.
+ */
+export function createExportManifest(apiUrl: string, pubkey: string): ExportManifest {
+  return {
+    version: 1,
+    apiUrl,
+    pubkey,
+    exportedAt: new Date().toISOString(),
+    posts: {},
+    assets: {},
+  };
+}
+
+/**
+ * Loads the manifest of a previous export.
+ * Returns undefined if the file doesn't exist or belongs to another API URL or pubkey.
+ */
+export async function loadExportManifest(
+  manifestPath: string,
+  apiUrl: string,
+  pubkey: string,
+): Promise<ExportManifest | undefined> {
+  const file = Bun.file(manifestPath);
+  if (!(await file.exists())) {
+    return undefined;
+  }
+
+  const data = (await file.json().catch(() => ({}))) as Partial<ExportManifest>;
+  if (
+    data.version !== 1 ||
+    data.apiUrl !== apiUrl ||
+    data.pubkey !== pubkey ||
+    !data.posts ||
+    !data.assets
+  ) {
+    return undefined;
+  }
+
+  return data as ExportManifest;
+}
+
+/**
+ * Writes an export manifest to disk.
+ */
+export async function saveExportManifest(
+  manifestPath: string,
+  manifest: ExportManifest,
+): Promise<void> {
+  await Bun.write(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * Derives a unique file name for an exported post, safe on any file system.
+ * Slugs that map to a name already in `usedNames` get a numeric suffix; the
+ * result is added to the set. Names are compared ignoring case, for file
+ * systems that do.
+ */
+export function getPostFileName(slug: string, usedNames: Set<string>): string {
+  const stem = slug.replace(/[^A-Za-z0-9._-]/g, "_");
+  let name = `${stem}.md`;
+  for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+    name = `${stem}-${i}.md`;
+  }
+
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Checks that a file name from a manifest names a file directly inside the
+ * export directory: no path separators, and not `.` or `..`.
+ */
+function isSafeFileName(name: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(name) && !/^\.+$/.test(name);
+}
+
+/**
+ * Lists the remote images a post references, in its content and as its
+ * featured image, without duplicates.
+ */
+export function listRemoteImages(content: string, featuredImage?: string): string[] {
+  const urls = parseRemoteImageReferences(content).map((ref) => ref.path);
+  if (featuredImage && !isLocalPath(featuredImage)) {
+    urls.push(featuredImage);
+  }
+  return [...new Set(urls)];
+}
+
+/**
+ * Replaces image URLs in content and the featured image with local paths.
+ * URLs without a local path are left as they are.
+ */
+export function rewriteImageUrls(
+  content: string,
+  featuredImage: string | undefined,
+  localPaths: Map<string, string>,
+): { content: string; featuredImage: string | undefined } {
+  let result = content;
+  for (const ref of parseRemoteImageReferences(content)) {
+    const localPath = localPaths.get(ref.path);
+    if (localPath) {
+      result = result.replace(ref.original, ref.original.replace(ref.path, localPath));
+    }
+  }
+
+  return {
+    content: result,
+    featuredImage: (featuredImage && localPaths.get(featuredImage)) || featuredImage,
+  };
+}
+
+/**
+ * Summary of a finished export.
+ */
+export interface ExportResult {
+  manifest: ExportManifest;
+  /** Images downloaded by this export */
+  downloaded: number;
+  /** Images kept from a previous export into the same directory */
+  reused: number;
+}
+
+/**
+ * Exports every post of a pubkey into a directory: one markdown file per post
+ * that parseFrontmatter can read back, with images in the assets directory
+ * and links rewritten to relative paths.
+ *
+ * Images downloaded by a previous export are reused when their file still
+ * exists, so regular backups only download new images. An image that fails
+ * to download keeps its original URL in the post. The manifest is saved
+ * before anything else is written and after every post, so an interrupted
+ * export is picked up by the next run.
+ *
+ * @param previous - Manifest of a previous export into the same directory
+ * @throws {ExportError} After writing every post, if some images failed to download
+ */
+export async function exportPosts(
+  client: My2satsClient,
+  dir: string,
+  pubkey: string,
+  previous?: ExportManifest,
+): Promise<ExportResult> {
+  const manifest = createExportManifest(client.apiUrl, pubkey);
+  const manifestPath = join(dir, EXPORT_MANIFEST_NAME);
+
+  // Until the export finishes, what the previous one recorded is kept too
+  const saveProgress = () =>
+    saveExportManifest(manifestPath, {
+      ...manifest,
+      posts: { ...previous?.posts, ...manifest.posts },
+      assets: { ...previous?.assets, ...manifest.assets },
+    });
+
+  await mkdir(join(dir, ASSETS_DIR), { recursive: true });
+  await saveProgress();
+
+  // Asset names stay taken, so a new image never overwrites an old one
+  const usedNames = new Set(
+    Object.values(previous?.assets ?? {}).map((asset) => asset.file.slice(ASSETS_DIR.length + 1)),
+  );
+  const failedUrls = new Set<string>();
+  const failures: ExportFailure[] = [];
+  let downloaded = 0;
+  let reused = 0;
+
+  console.log("Listing posts...");
+  const summaries = await client.listAllPosts({ pubkey });
+  console.log(`Found ${summaries.length} post(s).`);
+
+  // Posts keep the file of the previous export; new ones get a free name.
+  // The manifest may have been edited, so only names that stay in `dir` are kept.
+  const fileNames = new Set<string>();
+  const previousFiles = new Map<string, string>();
+  for (const { slug } of summaries) {
+    const file = previous?.posts[slug]?.file;
+    if (file && isSafeFileName(file) && !fileNames.has(file.toLowerCase())) {
+      fileNames.add(file.toLowerCase());
+      previousFiles.set(slug, file);
+    }
+  }
+
+  for (const [index, summary] of summaries.entries()) {
+    console.log(`[${index + 1}/${summaries.length}] ${summary.slug}`);
+
+    // Lists may leave out the content, so each post is fetched in full
+    const post = await client.getPost(summary.slug);
+    const content = post.content ?? "";
+    const images = listRemoteImages(content, post.featured_image);
+    const localPaths = new Map<string, string>();
+
+    for (const url of images) {
+      const known = manifest.assets[url] ?? previous?.assets[url];
+      if (known && (await Bun.file(join(dir, known.file)).exists())) {
+        if (!manifest.assets[url]) reused++;
+        manifest.assets[url] = known;
+        localPaths.set(url, `./${known.file}`);
+        continue;
+      }
+      if (failedUrls.has(url)) continue;
+
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new DownloadError(url, response.status);
+        }
+
+        const contentType = response.headers.get("Content-Type") ?? undefined;
+        const file = `${ASSETS_DIR}/${getImageFileName(url, usedNames, contentType)}`;
+        await Bun.write(join(dir, file), response);
+
+        console.log(`  Downloaded: ${url} -> ${file}`);
+        manifest.assets[url] = { file, downloadedAt: new Date().toISOString() };
+        localPaths.set(url, `./${file}`);
+        downloaded++;
+      } catch (error) {
+        // The URL is recorded next to the reason, so it isn't repeated
+        const reason =
+          error instanceof DownloadError && error.status !== undefined
+            ? `HTTP ${error.status}`
+            : formatError(error);
+        console.error(`  Failed: ${url}: ${reason}`);
+        failedUrls.add(url);
+        failures.push({ url, slug: post.slug, error: reason });
+      }
+    }
+
+    const rewritten = rewriteImageUrls(content, post.featured_image, localPaths);
+    const file = previousFiles.get(summary.slug) ?? getPostFileName(post.slug, fileNames);
+    await Bun.write(
+      join(dir, file),
+      serializeFrontmatter(getPostFrontmatter(post, rewritten.featuredImage), rewritten.content),
+    );
+
+    manifest.posts[post.slug] = {
+      file,
+      url: getPostsUrl(client.apiUrl, post.slug),
+      createdAt: post.created_at,
+      updatedAt: post.updated_at,
+      images,
+    };
+    await saveProgress();
+  }
+
+  await saveExportManifest(manifestPath, manifest);
+
+  if (failures.length > 0) {
+    throw new ExportError(failures, summaries.length);
+  }
+
+  return { manifest, downloaded, reused };
+}
@@ -0,0 +1,113 @@
+import { test, expect, describe } from "bun:test";
+import { Jimp } from "jimp";
+import { ImageValidationError } from "./errors";
+import {
+  optimizeImage,
+  getOptimizationKey,
+  replaceExtension,
+  type ImageOptimizationSettings,
+} from "./image-optimizer";
+
+const settings: ImageOptimizationSettings = {
+  maxDimension: 100,
+  format: "webp",
+  quality: 80,
+};
+
+async function createImage(
+  width: number,
+  height: number,
+  mime: "image/png" | "image/tiff" | "image/gif",
+): Promise<Blob> {
+  const image = new Jimp({ width, height, color: 0x3366ccff });
+  const buffer = await image.getBuffer(mime);
+  return new Blob([buffer], { type: mime });
+}
+
+describe("replaceExtension", () => {
+  test("replaces an existing extension", () => {
+    expect(replaceExtension("photo.HEIC", ".webp")).toBe("photo.webp");
+    expect(replaceExtension("my.photo.tiff", ".jpg")).toBe("my.photo.jpg");
+  });
+
+  test("adds an extension when there is none", () => {
+    expect(replaceExtension("photo", ".webp")).toBe("photo.webp");
+    expect(replaceExtension(".hidden", ".webp")).toBe(".hidden.webp");
+  });
+});
+
+describe("getOptimizationKey", () => {
+  test("differs when any setting changes", () => {
+    const key = getOptimizationKey(settings);
+
+    expect(getOptimizationKey({ ...settings, quality: 60 })).not.toBe(key);
+    expect(getOptimizationKey({ ...settings, format: "jpeg" })).not.toBe(key);
+    expect(getOptimizationKey({ ...settings, maxDimension: 200 })).not.toBe(key);
+  });
+});
+
+describe("optimizeImage", () => {
+  test("resizes large images to fit the maximum dimension", async () => {
+    const source = await createImage(400, 200, "image/png");
+
+    const result = await optimizeImage(source, "/posts/wide.png", {
+      ...settings,
+      format: "jpeg",
+    });
+    const decoded = await Jimp.read(Buffer.from(await result.arrayBuffer()));
+
+    expect(result.type).toBe("image/jpeg");
+    expect((result as File).name).toBe("wide.jpg");
+    expect(decoded.width).toBe(100);
+    expect(decoded.height).toBe(50);
+  });
+
+  test("encodes to WebP", async () => {
+    const source = await createImage(400, 200, "image/png");
+
+    const result = await optimizeImage(source, "/posts/wide.png", settings);
+
+    expect(result.type).toBe("image/webp");
+    expect((result as File).name).toBe("wide.webp");
+  });
+
+  test("converts unsupported formats", async () => {
+    const source = await createImage(20, 20, "image/tiff");
+
+    const result = await optimizeImage(source, "/posts/scan.tiff", {
+      ...settings,
+      format: "jpeg",
+    });
+
+    expect(result.type).toBe("image/jpeg");
+    expect((result as File).name).toBe("scan.jpg");
+  });
+
+  test("keeps small allowed images that would grow when re-encoded", async () => {
+    const source = await createImage(10, 10, "image/png");
+
+    const result = await optimizeImage(source, "/posts/tiny.png", {
+      ...settings,
+      format: "jpeg",
+      quality: 100,
+    });
+
+    expect(result).toBe(source);
+  });
+
+  test("returns GIFs unchanged", async () => {
+    const source = await createImage(400, 400, "image/gif");
+
+    const result = await optimizeImage(source, "/posts/anim.gif", settings);
+
+    expect(result).toBe(source);
+  });
+
+  test("throws ImageValidationError for undecodable images", async () => {
+    const source = new Blob(["not an image"], { type: "image/png" });
+
+    await expect(optimizeImage(source, "/posts/bad.png", settings)).rejects.toThrow(
+      ImageValidationError,
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Optional image optimization before upload: resizes large images and
+ * re-encodes them, converting formats the API doesn't accept (e.g. HEIC, TIFF).
+ *
+ * Uses pure-JS/WASM codecs (Jimp, libheif via heic-decode) so no native
+ * tools need to be installed.
+ */
+
+import { createJimp } from "@jimp/core";
+import { defaultFormats, defaultPlugins } from "jimp";
+import webp from "@jimp/wasm-webp";
+import decodeHeic from "heic-decode";
+import { basename } from "node:path";
+import { config, type ImageFormat } from "./config";
+import { ImageValidationError } from "./errors";
+
+const Jimp = createJimp({
+  formats: [...defaultFormats, webp],
+  plugins: defaultPlugins,
+});
+
+/**
+ * Settings for the optimization pipeline.
+ */
+export interface ImageOptimizationSettings {
+  /** Maximum width or height, in pixels */
+  maxDimension: number;
+  /** Output format */
+  format: ImageFormat;
+  /** Encoding quality (1-100) */
+  quality: number;
+}
+
+/** MIME type and file extension for each output format */
+const OUTPUT_FORMATS = {
+  webp: { mime: "image/webp", extension: ".webp" },
+  jpeg: { mime: "image/jpeg", extension: ".jpg" },
+} as const;
+
+/** MIME types decoded with libheif instead of Jimp */
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+/**
+ * Returns the optimization settings from the configuration.
+ */
+export function getOptimizationSettings(): ImageOptimizationSettings {
+  return {
+    maxDimension: config.imageMaxDimension,
+    format: config.imageFormat,
+    quality: config.imageQuality,
+  };
+}
+
+/**
+ * Returns a string identifying the settings, used to tell apart
+ * cached uploads of the same source optimized differently.
+ */
+export function getOptimizationKey(settings: ImageOptimizationSettings): string {
+  return `${settings.format}:${settings.quality}:${settings.maxDimension}`;
+}
+
+/**
+ * Replaces the extension of a file name.
+ */
+export function replaceExtension(fileName: string, extension: string): string {
+  const dotIndex = fileName.lastIndexOf(".");
+  const stem = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+  return `${stem}${extension}`;
+}
+
+/**
+ * Decodes an image into a Jimp instance.
+ */
+async function decodeImage(file: Blob, fullPath: string) {
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  try {
+    if (HEIC_TYPES.includes(file.type)) {
+      const { width, height, data } = await decodeHeic({ buffer });
+      return Jimp.fromBitmap({ width, height, data: Buffer.from(data.buffer, data.byteOffset, data.byteLength) });
+    }
+    return await Jimp.read(buffer);
+  } catch {
+    throw new ImageValidationError(
+      `Cannot optimize ${fullPath}: unsupported or corrupt image (${file.type || "unknown type"})`,
+    );
+  }
+}
+
+/**
+ * Resizes an image to fit within the maximum dimension and re-encodes it.
+ *
+ * GIFs are returned unchanged to preserve animation. If the original is
+ * already an allowed type, fits the maximum dimension and is smaller than
+ * the re-encoded result, the original is kept.
+ *
+ * @throws {ImageValidationError} If the image cannot be decoded
+ */
+export async function optimizeImage(
+  file: Blob,
+  fullPath: string,
+  settings: ImageOptimizationSettings,
+): Promise<Blob> {
+  if (file.type === "image/gif") {
+    return file;
+  }
+
+  const image = await decodeImage(file, fullPath);
+  const fitsDimension =
+    image.width <= settings.maxDimension && image.height <= settings.maxDimension;
+
+  if (!fitsDimension) {
+    image.scaleToFit({ w: settings.maxDimension, h: settings.maxDimension });
+  }
+
+  const { mime, extension } = OUTPUT_FORMATS[settings.format];
+  const encoded = await image.getBuffer(mime, { quality: settings.quality });
+
+  const originalAllowed = config.allowedImageTypes.includes(file.type);
+  if (originalAllowed && fitsDimension && file.size <= encoded.length) {
+    return file;
+  }
+
+  return new File([encoded], replaceExtension(basename(fullPath), extension), {
+    type: mime,
+  });
+}
@@ -0,0 +1,399 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateSecretKey } from "nostr-tools/pure";
+import { createSignFunction } from "./crypto";
+import { FileNotFoundError, ImportSourceError } from "./errors";
+import {
+  createImportProgress,
+  formatImportPlan,
+  htmlToMarkdown,
+  listMedia,
+  loadImportProgress,
+  planImport,
+  readContentDirectory,
+  readGhostExport,
+  readImportSource,
+  readWordPressExport,
+  saveImportProgress,
+  uploadMedia,
+} from "./import";
+import { createMockClient } from "./mock-client.test-helper";
+import { type ImportedPost } from "./types";
+
+const sign = createSignFunction(generateSecretKey());
+
+const ghostExport = {
+  db: [
+    {
+      meta: { version: "5.0.0" },
+      data: {
+        posts: [
+          {
+            id: "1",
+            type: "post",
+            status: "published",
+            slug: "hello",
+            title: "Hello",
+            html: '<p>Hi <a href="__GHOST_URL__/about/">there</a></p>',
+            feature_image: "__GHOST_URL__/content/images/cover.jpg",
+            custom_excerpt: "Greetings",
+          },
+          {
+            id: "2",
+            type: "post",
+            status: "draft",
+            slug: "wip",
+            title: "WIP",
+            html: "<p>Soon</p>",
+          },
+          { id: "3", type: "page", status: "published", slug: "about", title: "About", html: "" },
+        ],
+        tags: [
+          { id: "t1", name: "News", visibility: "public" },
+          { id: "t2", name: "#hidden", visibility: "internal" },
+          { id: "t3", name: "Nostr", visibility: "public" },
+        ],
+        posts_tags: [
+          { post_id: "1", tag_id: "t3", sort_order: 1 },
+          { post_id: "1", tag_id: "t2", sort_order: 2 },
+          { post_id: "1", tag_id: "t1", sort_order: 0 },
+        ],
+        users: [{ id: "u1", name: "Alice" }],
+        posts_authors: [{ post_id: "1", author_id: "u1", sort_order: 0 }],
+      },
+    },
+  ],
+};
+
+const wxr = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <wp:author>
+    <wp:author_login><![CDATA[alice]]></wp:author_login>
+    <wp:author_display_name><![CDATA[Alice A.]]></wp:author_display_name>
+  </wp:author>
+  <item>
+    <title>Crème &amp; Coffee</title>
+    <dc:creator><![CDATA[alice]]></dc:creator>
+    <content:encoded><![CDATA[First paragraph
+with a line break.
+
+[caption id="a" width="300"]<img src="https://blog.example/wp-content/cat.jpg" alt="Cat" /> A cat[/caption]]]></content:encoded>
+    <excerpt:encoded><![CDATA[<em>Short</em>]]></excerpt:encoded>
+    <wp:post_id>10</wp:post_id>
+    <wp:post_name><![CDATA[creme-coffee]]></wp:post_name>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+    <category domain="category" nicename="uncategorized"><![CDATA[Uncategorized]]></category>
+    <category domain="category" nicename="food"><![CDATA[Food]]></category>
+    <category domain="post_tag" nicename="coffee"><![CDATA[Coffee]]></category>
+    <wp:postmeta>
+      <wp:meta_key><![CDATA[_thumbnail_id]]></wp:meta_key>
+      <wp:meta_value><![CDATA[11]]></wp:meta_value>
+    </wp:postmeta>
+  </item>
+  <item>
+    <title>Cover</title>
+    <wp:post_id>11</wp:post_id>
+    <wp:post_type><![CDATA[attachment]]></wp:post_type>
+    <wp:attachment_url><![CDATA[https://blog.example/wp-content/cover.jpg]]></wp:attachment_url>
+  </item>
+  <item>
+    <title>Привет мир</title>
+    <content:encoded><![CDATA[<p>Draft</p>]]></content:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_name></wp:post_name>
+    <wp:status><![CDATA[draft]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+</channel>
+</rss>`;
+
+/**
+ * Creates a post as read from a source.
+ */
+function importedPost(id: string, frontmatter: ImportedPost["frontmatter"], draft = false) {
+  return { id, frontmatter, content: "Body", basePath: ".", draft };
+}
+
+describe("htmlToMarkdown", () => {
+  test("converts HTML to markdown and keeps embeds as HTML", () => {
+    const html =
+      "<h2>Title</h2>" +
+      '<p>Some <strong>bold</strong> and <em>italic</em> <a href="/x">text</a>.</p>' +
+      '<pre><code class="language-js">let x = 1;</code></pre>' +
+      '<iframe src="https://www.youtube.com/embed/x"></iframe><script>alert(1)</script>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      "## Title\n\nSome **bold** and _italic_ [text](/x).\n\n```js\nlet x = 1;\n```\n\n" +
+        '<iframe src="https://www.youtube.com/embed/x"></iframe>',
+    );
+  });
+});
+
+describe("readGhostExport", () => {
+  test("reads posts with their public tags and primary author", () => {
+    const posts = readGhostExport(ghostExport, "ghost.json", { siteUrl: "https://blog.example/" });
+
+    expect(posts).toEqual([
+      {
+        id: "1",
+        frontmatter: {
+          slug: "hello",
+          title: "Hello",
+          author: "Alice",
+          excerpt: "Greetings",
+          featured_image: "https://blog.example/content/images/cover.jpg",
+          tags: ["News", "Nostr"],
+        },
+        content: "Hi [there](https://blog.example/about/)",
+        basePath: ".",
+        draft: false,
+      },
+      {
+        id: "2",
+        frontmatter: { slug: "wip", title: "WIP" },
+        content: "Soon",
+        basePath: ".",
+        draft: true,
+      },
+    ]);
+  });
+
+  test("needs the site URL for __GHOST_URL__ links", () => {
+    expect(() => readGhostExport(ghostExport, "ghost.json")).toThrow("--site-url");
+  });
+
+  test("rejects other JSON", () => {
+    expect(() => readGhostExport({ posts: [] }, "other.json")).toThrow(ImportSourceError);
+  });
+});
+
+describe("readWordPressExport", () => {
+  test("reads posts with categories, tags and featured image", () => {
+    const [post, draft, ...rest] = readWordPressExport(wxr, "blog.xml");
+
+    expect(rest).toEqual([]);
+    expect(post).toEqual({
+      id: "10",
+      frontmatter: {
+        slug: "creme-coffee",
+        title: "Crème & Coffee",
+        author: "Alice A.",
+        excerpt: "_Short_",
+        featured_image: "https://blog.example/wp-content/cover.jpg",
+        tags: ["Food", "Coffee"],
+      },
+      content:
+        "First paragraph  \nwith a line break.\n\n" +
+        "![Cat](https://blog.example/wp-content/cat.jpg) A cat",
+      basePath: ".",
+      draft: false,
+    });
+    expect(draft?.frontmatter.slug).toBe("privet-mir");
+    expect(draft?.draft).toBe(true);
+  });
+
+  test("rejects XML that isn't a WordPress export", () => {
+    expect(() => readWordPressExport("<feed></feed>", "feed.xml")).toThrow(
+      "Can't import feed.xml: not a WordPress export",
+    );
+  });
+});
+
+describe("with a temporary directory", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-import-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("reads a Jekyll site from _posts and _drafts", async () => {
+    await mkdir(join(tempDir, "_posts"));
+    await mkdir(join(tempDir, "_drafts"));
+    await Bun.write(
+      join(tempDir, "_posts", "2024-01-02-first-post.md"),
+      "---\ntitle: First\ntags: a b\ncategories: [c]\nimage:\n  path: /assets/cover.png\n---\n\n" +
+        "{% highlight ruby %}\nputs 1\n{% endhighlight %}\n\n![x]({{ site.baseurl }}/assets/x.png)",
+    );
+    await Bun.write(join(tempDir, "_drafts", "idea.md"), "---\ntitle: Idea\n---\n\nLater");
+    await Bun.write(join(tempDir, "about.md"), "---\ntitle: About\n---\n\nNot a post");
+
+    const posts = await readContentDirectory(tempDir, "jekyll");
+
+    expect(posts.map((post) => [post.id, post.frontmatter.slug, post.draft])).toEqual([
+      ["_posts/2024-01-02-first-post.md", "first-post", false],
+      ["_drafts/idea.md", "idea", true],
+    ]);
+    expect(posts[0]).toMatchObject({
+      frontmatter: { title: "First", featured_image: "/assets/cover.png", tags: ["a", "b", "c"] },
+      content: "```ruby\nputs 1\n```\n\n![x](/assets/x.png)",
+      basePath: join(tempDir, "_posts"),
+      mediaRoot: tempDir,
+    });
+  });
+
+  test("reads a Hugo site from its content directory", async () => {
+    await mkdir(join(tempDir, "content", "posts", "bundle"), { recursive: true });
+    await Bun.write(join(tempDir, "content", "posts", "_index.md"), "---\ntitle: Posts\n---\n");
+    await Bun.write(
+      join(tempDir, "content", "posts", "bundle", "index.md"),
+      '+++\ntitle = "Bundle"\ndraft = true\ntags = ["x"]\nsummary = "Sum"\n+++\n\n' +
+        '{{< figure src="pic.png" alt="A pic" >}}',
+    );
+
+    const [post, ...rest] = await readImportSource("hugo", tempDir);
+
+    expect(rest).toEqual([]);
+    expect(post).toEqual({
+      id: "content/posts/bundle/index.md",
+      frontmatter: { slug: "bundle", title: "Bundle", excerpt: "Sum", tags: ["x"] },
+      content: "![A pic](pic.png)",
+      basePath: join(tempDir, "content", "posts", "bundle"),
+      mediaRoot: join(tempDir, "static"),
+      draft: true,
+    });
+  });
+
+  test("reports malformed frontmatter with the file", async () => {
+    await Bun.write(join(tempDir, "bad.md"), "---\ntitle: [a\n---\n");
+
+    await expect(readContentDirectory(tempDir, "hugo")).rejects.toThrow("Can't import bad.md");
+  });
+
+  test("fails for a missing source", async () => {
+    await expect(readImportSource("ghost", join(tempDir, "nope.json"))).rejects.toThrow(
+      FileNotFoundError,
+    );
+    await expect(readImportSource("jekyll", join(tempDir, "nope"))).rejects.toThrow(
+      FileNotFoundError,
+    );
+  });
+
+  test("saves and loads progress for the same API only", async () => {
+    const path = join(tempDir, "progress.json");
+    const progress = createImportProgress("http://api");
+    progress.posts["1"] = { slug: "hello", importedAt: "2024-01-01T00:00:00.000Z" };
+    await saveImportProgress(path, progress);
+
+    expect(await loadImportProgress(path, "http://api")).toEqual(progress);
+    expect(await loadImportProgress(path, "http://other")).toEqual(
+      createImportProgress("http://other"),
+    );
+  });
+
+  test("reports a corrupt progress file and never leaves a partial one", async () => {
+    const path = join(tempDir, "progress.json");
+    await saveImportProgress(path, createImportProgress("http://api"));
+    expect(await readdir(tempDir)).toEqual(["progress.json"]);
+
+    await Bun.write(path, '{"version": 1, "apiUrl": "http://api", "po');
+    const error = await loadImportProgress(path, "http://api").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ImportSourceError);
+    expect((error as Error).message).toContain(`${path}: the progress file is corrupt`);
+    expect((error as Error).message).toContain("Delete it to start over");
+
+    await Bun.write(path, JSON.stringify({ version: 1, apiUrl: "http://api", posts: { 1: "x" } }));
+    await expect(loadImportProgress(path, "http://api")).rejects.toThrow(ImportSourceError);
+  });
+
+  test("uploadMedia uploads local and remote images", async () => {
+    await mkdir(join(tempDir, "static", "images"), { recursive: true });
+    await Bun.write(join(tempDir, "static", "images", "a.png"), "local image");
+    const remote = Bun.serve({
+      port: 0,
+      fetch: () => new Response("remote image", { headers: { "Content-Type": "image/png" } }),
+    });
+    const { client } = await createMockClient(sign);
+
+    try {
+      const post: ImportedPost = {
+        ...importedPost("1", { featured_image: `${remote.url.origin}/cover` }),
+        content: "![a](/images/a.png)",
+        mediaRoot: join(tempDir, "static"),
+      };
+      const payload = {
+        slug: "s",
+        title: "T",
+        author: "A",
+        featured_image: post.frontmatter.featured_image,
+        content: post.content,
+      };
+
+      const result = await uploadMedia(post, payload, client, join(tempDir, "downloads"), {
+        useCache: false,
+      });
+
+      expect(result.content).toMatch(/^!\[a\]\(http:\/\/api\/uploads\/[0-9a-f]+\.png\)$/);
+      expect(result.featured_image).toMatch(/^http:\/\/api\/uploads\/[0-9a-f]+\.png$/);
+    } finally {
+      remote.stop(true);
+    }
+  });
+});
+
+describe("planImport", () => {
+  test("skips imported posts, drafts and posts on the server", () => {
+    const progress = createImportProgress("http://api");
+    progress.posts.done = { slug: "done", importedAt: "2024-01-01T00:00:00.000Z" };
+    const posts = [
+      importedPost("done", { slug: "done", title: "Done", author: "A" }),
+      importedPost("new", { slug: "new", title: "New", author: "A", tags: ["x"] }),
+      importedPost("draft", { slug: "draft", title: "Draft", author: "A" }, true),
+      importedPost("remote", { slug: "remote", title: "Remote", author: "A" }),
+      importedPost("untitled", { slug: "untitled", author: "A" }),
+      importedPost("twin", { slug: "new", title: "Twin", author: "A" }),
+    ];
+
+    const actions = planImport(posts, progress, { remoteSlugs: new Set(["remote"]) });
+
+    expect(actions.map((action) => action.type)).toEqual([
+      "imported",
+      "import",
+      "draft",
+      "exists",
+      "invalid",
+      "invalid",
+    ]);
+    expect(formatImportPlan(actions).split("\n")).toEqual([
+      "    skip     done  (done; imported before)",
+      "  + import   new  (new; 1 tag(s), 0 media)",
+      "    skip     draft  (draft; draft)",
+      "    skip     remote  (remote; already on the server)",
+      "  ! invalid  untitled: Missing required fields: title",
+      '  ! invalid  twin: Duplicate slug "new", also used by new',
+    ]);
+  });
+
+  test("imports drafts and overrides the author when asked to", () => {
+    const posts = [importedPost("draft", { slug: "draft", title: "Draft", author: "A" }, true)];
+
+    const [action] = planImport(posts, createImportProgress("http://api"), {
+      includeDrafts: true,
+      author: "Bob",
+    });
+
+    expect(action?.type === "import" && action.payload.author).toBe("Bob");
+  });
+
+  test("listMedia lists local and remote media once", () => {
+    const post = {
+      ...importedPost("1", { featured_image: "https://x.com/cover.jpg" }),
+      content: "![a](./a.png) ![b](https://x.com/b.png) ![a](./a.png)",
+    };
+
+    expect(listMedia(post)).toEqual([
+      "./a.png",
+      "https://x.com/b.png",
+      "https://x.com/cover.jpg",
+    ]);
+  });
+});
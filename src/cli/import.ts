@@ -0,0 +1,694 @@
+/**
+ * Importing posts from other platforms: reading Ghost and WordPress exports
+ * and Jekyll/Hugo content directories into markdown posts, and tracking
+ * progress in a file so an interrupted import can be resumed.
+ */
+
+import { rename, rm, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import TurndownService from "turndown";
+import { type My2satsClient } from "./api-client";
+import { slugify } from "./auto-fields";
+import { FileNotFoundError, ImportSourceError, ValidationError, formatError } from "./errors";
+import {
+  type ImportAction,
+  type ImportedPost,
+  type ImportFormat,
+  type ImportProgress,
+  type ImportProgressEntry,
+  type ImportReadOptions,
+  type PostFrontmatter,
+  type PostPayload,
+  type ProcessImagesOptions,
+} from "./types";
+import {
+  buildPostPayload,
+  collectLocalImagePaths,
+  downloadRemoteImages,
+  isLocalPath,
+  parseFrontmatterData,
+  parseImageReferences,
+  parseRemoteImageReferences,
+  processImages,
+} from "./utils";
+
+/** Platforms that can be imported, for the --from option */
+export const IMPORT_FORMATS: readonly ImportFormat[] = ["ghost", "wordpress", "jekyll", "hugo"];
+
+/** Appended to the source path for the default progress file */
+export const PROGRESS_FILE_SUFFIX = ".my2sats-import.json";
+
+/** Placeholder for the blog's own address in Ghost 4+ exports */
+const GHOST_URL = "__GHOST_URL__";
+
+/** WXR elements that can appear more than once */
+const WXR_LISTS = new Set(["item", "category", "wp:postmeta", "wp:author"]);
+
+/** HTML that starts a block, which WordPress doesn't wrap in a paragraph */
+const BLOCK_HTML =
+  /^<\/?(?:p|div|h[1-6]|ul|ol|li|blockquote|pre|table|figure|img|hr|iframe|!--)\b/i;
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+  emDelimiter: "_",
+});
+// Embeds and tables have no markdown form, so they're kept as HTML
+turndown.keep(["iframe", "video", "audio", "table"]);
+turndown.remove(["script", "style"]);
+
+/**
+ * Converts HTML to markdown.
+ */
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html).trim();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a non-empty string, also from a number or an XML element with text.
+ */
+function asString(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  if (isRecord(value)) return asString(value["#text"]);
+  if (typeof value !== "string") return undefined;
+  return value.trim() || undefined;
+}
+
+/**
+ * Reads a list of strings from a list, or from a string split at `separator`.
+ */
+function asList(value: unknown, separator = /,/): string[] {
+  const items = Array.isArray(value)
+    ? value.map(asString)
+    : (asString(value)?.split(separator) ?? []);
+  return [...new Set(items.map((item) => item?.trim()).filter((item) => !!item))] as string[];
+}
+
+/**
+ * Drops fields without a value, so they're left out of payloads and reports.
+ */
+function compact(frontmatter: PostFrontmatter): PostFrontmatter {
+  return Object.fromEntries(
+    Object.entries(frontmatter).filter(
+      ([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0),
+    ),
+  );
+}
+
+/**
+ * Groups the rows of a Ghost join table (posts_tags, posts_authors) by post ID.
+ */
+function groupByPost(rows: Record<string, unknown>[], valueKey: string): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  const sorted = [...rows].sort((a, b) => Number(a.sort_order ?? 0) - Number(b.sort_order ?? 0));
+  for (const row of sorted) {
+    const postId = String(row.post_id);
+    groups.set(postId, [...(groups.get(postId) ?? []), String(row[valueKey])]);
+  }
+  return groups;
+}
+
+/**
+ * Reads the posts of a Ghost JSON export. Pages are skipped, and only public
+ * tags are kept; internal ones (#name) are for themes.
+ *
+ * @param source - Path of the export, for errors
+ * @throws {ImportSourceError} If it isn't a Ghost export, or uses __GHOST_URL__ without
+ *   a site URL
+ */
+export function readGhostExport(
+  json: unknown,
+  source: string,
+  options: ImportReadOptions = {},
+): ImportedPost[] {
+  const db = isRecord(json) && Array.isArray(json.db) ? json.db[0] : json;
+  const data = isRecord(db) ? db.data : undefined;
+  if (!isRecord(data) || !Array.isArray(data.posts)) {
+    throw new ImportSourceError(source, "not a Ghost JSON export (no posts in db[0].data)");
+  }
+
+  const rows = (table: string) => {
+    const value = data[table];
+    return (Array.isArray(value) ? value : []).filter(isRecord);
+  };
+
+  const siteUrl = options.siteUrl?.replace(/\/+$/, "");
+  const expand = (text: string) => {
+    if (!text.includes(GHOST_URL)) return text;
+    if (!siteUrl) {
+      throw new ImportSourceError(
+        source,
+        `its links use ${GHOST_URL}: pass the blog's address with --site-url`,
+      );
+    }
+    return text.replaceAll(GHOST_URL, siteUrl);
+  };
+
+  const tagNames = new Map<string, string>();
+  for (const tag of rows("tags")) {
+    const name = asString(tag.name);
+    if (name && tag.visibility !== "internal" && !name.startsWith("#")) {
+      tagNames.set(String(tag.id), name);
+    }
+  }
+  const userNames = new Map(rows("users").map((user) => [String(user.id), asString(user.name)]));
+  const postTags = groupByPost(rows("posts_tags"), "tag_id");
+  const postAuthors = groupByPost(rows("posts_authors"), "author_id");
+
+  return rows("posts")
+    .filter((post) => (post.type ?? "post") === "post")
+    .map((post) => {
+      const id = String(post.id);
+      const authorId = postAuthors.get(id)?.[0] ?? asString(post.author_id);
+      const featuredImage = asString(post.feature_image);
+      const html = typeof post.html === "string" ? post.html : "";
+
+      return {
+        id,
+        frontmatter: compact({
+          slug: asString(post.slug),
+          title: asString(post.title),
+          author: authorId ? userNames.get(authorId) : undefined,
+          excerpt: asString(post.custom_excerpt),
+          featured_image: featuredImage && expand(featuredImage),
+          tags: (postTags.get(id) ?? []).flatMap((tagId) => tagNames.get(tagId) ?? []),
+        }),
+        content: html ? htmlToMarkdown(expand(html)) : (asString(post.plaintext) ?? ""),
+        basePath: ".",
+        draft: post.status !== "published",
+      };
+    });
+}
+
+/**
+ * Wraps text blocks in paragraphs, like WordPress does when showing classic
+ * editor posts, which are stored with blank lines instead of <p> tags.
+ */
+function addParagraphs(html: string): string {
+  if (/<p[\s>]/i.test(html)) return html;
+  return html
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => (BLOCK_HTML.test(block) ? block : `<p>${block.replace(/\n/g, "<br>\n")}</p>`))
+    .join("\n");
+}
+
+/**
+ * Removes the [caption] and [embed] shortcodes WordPress wraps images and embeds in.
+ */
+function stripShortcodes(html: string): string {
+  return html.replace(/\[\/?(?:caption|embed)\b[^\]]*\]/g, "");
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reads the posts of a WordPress export (WXR). Categories and tags both become
+ * tags, except the default "Uncategorized"; the featured image is looked up
+ * from its attachment.
+ *
+ * @param source - Path of the export, for errors
+ * @throws {ImportSourceError} If it isn't a WXR export
+ */
+export function readWordPressExport(xml: string, source: string): ImportedPost[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    parseTagValue: false,
+    isArray: (name) => WXR_LISTS.has(name),
+  });
+
+  let doc: unknown;
+  try {
+    doc = parser.parse(xml);
+  } catch (error) {
+    throw new ImportSourceError(source, `invalid XML: ${formatError(error)}`);
+  }
+
+  const rss = isRecord(doc) ? doc.rss : undefined;
+  const channel = isRecord(rss) ? rss.channel : undefined;
+  if (!isRecord(channel)) {
+    throw new ImportSourceError(source, "not a WordPress export (no rss channel)");
+  }
+
+  const list = (value: unknown) => (Array.isArray(value) ? value : []).filter(isRecord);
+  const items = list(channel.item);
+
+  const authors = new Map(
+    list(channel["wp:author"]).map((author) => [
+      asString(author["wp:author_login"]),
+      asString(author["wp:author_display_name"]),
+    ]),
+  );
+  const attachments = new Map(
+    items
+      .filter((item) => asString(item["wp:post_type"]) === "attachment")
+      .map((item) => [asString(item["wp:post_id"]), asString(item["wp:attachment_url"])]),
+  );
+
+  return items
+    .filter((item) => asString(item["wp:post_type"]) === "post")
+    .map((item) => {
+      const title = asString(item.title);
+      const login = asString(item["dc:creator"]);
+      const meta = new Map(
+        list(item["wp:postmeta"]).map((m) => [
+          asString(m["wp:meta_key"]),
+          asString(m["wp:meta_value"]),
+        ]),
+      );
+      const excerpt = asString(item["excerpt:encoded"]);
+      const terms = (Array.isArray(item.category) ? item.category : []).filter(
+        (term) => !isRecord(term) || ["category", "post_tag"].includes(String(term["@_domain"])),
+      );
+
+      return {
+        id: asString(item["wp:post_id"]) ?? asString(item.guid) ?? title ?? "",
+        frontmatter: compact({
+          slug: slugify(safeDecode(asString(item["wp:post_name"]) ?? "")) || slugify(title ?? ""),
+          title,
+          author: (login && authors.get(login)) || login,
+          excerpt: excerpt && (htmlToMarkdown(excerpt) || undefined),
+          featured_image: attachments.get(meta.get("_thumbnail_id")),
+          tags: asList(terms).filter((tag) => tag !== "Uncategorized"),
+        }),
+        content: htmlToMarkdown(
+          stripShortcodes(addParagraphs(asString(item["content:encoded"]) ?? "")),
+        ),
+        basePath: ".",
+        draft: asString(item["wp:status"]) !== "publish",
+      };
+    });
+}
+
+/**
+ * Converts Jekyll's Liquid highlight blocks to fenced code and drops site URL
+ * variables, so root-relative links are left.
+ */
+function convertLiquid(content: string): string {
+  return content
+    .replace(
+      /\{%-?\s*highlight\s+([\w+-]+)[^%]*-?%\}\n?([\s\S]*?)\n?\{%-?\s*endhighlight\s*-?%\}/g,
+      "```$1\n$2\n```",
+    )
+    .replace(/\{\{-?\s*site\.(?:url|baseurl)\s*-?\}\}/g, "")
+    .replace(/\{\{-?\s*["']([^"']+)["']\s*\|\s*(?:relative_url|absolute_url)\s*-?\}\}/g, "$1");
+}
+
+/**
+ * Reads an attribute of a Hugo shortcode.
+ */
+function shortcodeAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)'|([^\\s"']+))`).exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Converts Hugo's highlight and figure shortcodes to markdown.
+ */
+function convertShortcodes(content: string): string {
+  return content
+    .replace(
+      new RegExp(
+        String.raw`\{\{[<%]\s*highlight\s+([\w+-]+)[^}]*[>%]\}\}\n?([\s\S]*?)\n?` +
+          String.raw`\{\{[<%]\s*\/highlight\s*[>%]\}\}`,
+        "g",
+      ),
+      "```$1\n$2\n```",
+    )
+    .replace(/\{\{[<%]\s*figure\s+([^}]*?)\s*\/?[>%]\}\}/g, (shortcode, attributes: string) => {
+      const src = shortcodeAttribute(attributes, "src");
+      const alt =
+        shortcodeAttribute(attributes, "alt") ?? shortcodeAttribute(attributes, "caption");
+      return src ? `![${alt ?? ""}](${src})` : shortcode;
+    });
+}
+
+/**
+ * Maps the frontmatter of a Jekyll or Hugo post to post fields. Without a slug
+ * in the frontmatter it is taken from the file name, without a Jekyll date
+ * prefix, or from the directory of a Hugo page bundle (index.md).
+ */
+function mapContentFrontmatter(
+  data: Record<string, unknown>,
+  file: string,
+  format: "jekyll" | "hugo",
+): PostFrontmatter {
+  const name = basename(file).replace(/\.(?:md|markdown)$/, "");
+  const fileSlug =
+    name === "index" ? basename(dirname(file)) : name.replace(/^\d{4}-\d{2}-\d{2}-/, "");
+  // Jekyll separates tags and categories given as a string with spaces, Hugo with commas
+  const separator = format === "jekyll" ? /\s+/ : /,/;
+  const author = isRecord(data.author) ? data.author.name : data.author;
+  const image = isRecord(data.image) ? data.image.path : data.image;
+  const cover = isRecord(data.cover) ? data.cover.image : data.cover;
+
+  return compact({
+    slug: asString(data.slug) ?? slugify(fileSlug),
+    title: asString(data.title),
+    author: asString(author) ?? asList(data.authors)[0],
+    excerpt: asString(data.excerpt) ?? asString(data.summary) ?? asString(data.description),
+    featured_image:
+      asString(data.featured_image) ?? asString(image) ?? asString(cover) ?? asList(data.images)[0],
+    tags: asList([
+      ...asList(data.tags, separator),
+      ...asList(data.categories, separator),
+      ...asList(data.category, separator),
+    ]),
+  });
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  return (await stat(path).catch(() => undefined))?.isDirectory() ?? false;
+}
+
+/**
+ * Reads the posts of a Jekyll site or Hugo content directory. Files without
+ * frontmatter and Hugo section pages (_index.md) are skipped.
+ *
+ * A Jekyll site is read from _posts and _drafts if it has them. A Hugo site
+ * is read from its content directory. Root-relative media resolve against
+ * the site for Jekyll and its static directory for Hugo.
+ *
+ * @throws {FileNotFoundError} If the directory doesn't exist
+ * @throws {ImportSourceError} If it isn't a directory or a post has malformed frontmatter
+ */
+export async function readContentDirectory(
+  dir: string,
+  format: "jekyll" | "hugo",
+  options: ImportReadOptions = {},
+): Promise<ImportedPost[]> {
+  const stats = await stat(dir).catch(() => undefined);
+  if (!stats) {
+    throw new FileNotFoundError(dir);
+  }
+  if (!stats.isDirectory()) {
+    const platform = format === "jekyll" ? "Jekyll" : "Hugo";
+    throw new ImportSourceError(dir, `expected a ${platform} directory`);
+  }
+
+  const root = resolve(dir);
+  let scans: { path: string; draft: boolean }[];
+  let mediaRoot: string;
+
+  if (format === "jekyll") {
+    scans = (await isDirectory(join(root, "_posts")))
+      ? [
+          { path: join(root, "_posts"), draft: false },
+          { path: join(root, "_drafts"), draft: true },
+        ]
+      : [{ path: root, draft: false }];
+    mediaRoot = root;
+  } else {
+    const contentDir = (await isDirectory(join(root, "content"))) ? join(root, "content") : root;
+    scans = [{ path: contentDir, draft: false }];
+    mediaRoot = join(contentDir === root ? dirname(root) : root, "static");
+  }
+
+  const posts: ImportedPost[] = [];
+  const glob = new Bun.Glob("**/*.{md,markdown}");
+
+  for (const scan of scans) {
+    if (!(await isDirectory(scan.path))) continue;
+
+    for (const path of [...glob.scanSync({ cwd: scan.path, onlyFiles: true })].sort()) {
+      if (basename(path) === "_index.md") continue;
+
+      const fullPath = join(scan.path, path);
+      const id = relative(root, fullPath);
+      let parsed;
+      try {
+        parsed = parseFrontmatterData(await Bun.file(fullPath).text());
+      } catch (error) {
+        throw new ImportSourceError(id, formatError(error));
+      }
+      if (Object.keys(parsed.data).length === 0) continue;
+
+      const { data, content } = parsed;
+      posts.push({
+        id,
+        frontmatter: mapContentFrontmatter(data, id, format),
+        content: format === "jekyll" ? convertLiquid(content) : convertShortcodes(content),
+        basePath: dirname(fullPath),
+        mediaRoot: options.staticDir ? resolve(options.staticDir) : mediaRoot,
+        draft: scan.draft || data.draft === true || data.published === false,
+      });
+    }
+  }
+
+  return posts;
+}
+
+/**
+ * Reads the posts of an export file or content directory.
+ *
+ * @throws {FileNotFoundError} If the source doesn't exist
+ * @throws {ImportSourceError} If it can't be read as the given format
+ */
+export async function readImportSource(
+  format: ImportFormat,
+  source: string,
+  options: ImportReadOptions = {},
+): Promise<ImportedPost[]> {
+  if (format === "jekyll" || format === "hugo") {
+    return readContentDirectory(source, format, options);
+  }
+
+  const file = Bun.file(source);
+  if (!(await file.exists())) {
+    throw new FileNotFoundError(source);
+  }
+  const text = await file.text();
+
+  if (format === "wordpress") {
+    return readWordPressExport(text, source);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ImportSourceError(source, `invalid JSON: ${formatError(error)}`);
+  }
+  return readGhostExport(json, source, options);
+}
+
+/**
+ * Returns the default progress file of a source: next to it, named after it.
+ */
+export function getDefaultProgressPath(source: string): string {
+  return `${resolve(source)}${PROGRESS_FILE_SUFFIX}`;
+}
+
+/**
+ * Creates empty import progress for an API URL.
+ */
+export function createImportProgress(apiUrl: string): ImportProgress {
+  return { version: 1, apiUrl, posts: {} };
+}
+
+/**
+ * Checks that every entry of a progress file records a slug and import time.
+ */
+function isProgressPosts(posts: unknown): posts is Record<string, ImportProgressEntry> {
+  return (
+    typeof posts === "object" &&
+    posts !== null &&
+    !Array.isArray(posts) &&
+    Object.values(posts).every(
+      (entry: Partial<ImportProgressEntry> | null) =>
+        typeof entry?.slug === "string" && typeof entry.importedAt === "string",
+    )
+  );
+}
+
+/**
+ * Loads import progress.
+ * Returns empty progress if the file doesn't exist or belongs to another API URL.
+ *
+ * @throws {ImportSourceError} If the file can't be read as progress, e.g. after a crash
+ */
+export async function loadImportProgress(path: string, apiUrl: string): Promise<ImportProgress> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return createImportProgress(apiUrl);
+  }
+
+  const corrupt = (reason: string) =>
+    new ImportSourceError(
+      path,
+      `the progress file is corrupt (${reason}). ` +
+        "Delete it to start over: posts already on the server are skipped.",
+    );
+
+  const data = (await file.json().catch((error: unknown) => {
+    throw corrupt(formatError(error));
+  })) as Partial<ImportProgress> | null;
+  if (data?.version !== 1 || data.apiUrl !== apiUrl) {
+    return createImportProgress(apiUrl);
+  }
+  if (!isProgressPosts(data.posts)) {
+    throw corrupt("posts must map source IDs to a slug and import time");
+  }
+
+  return { version: 1, apiUrl, posts: data.posts };
+}
+
+/**
+ * Writes import progress to disk.
+ * A temporary file is renamed over it, so an interrupted write leaves the old progress intact.
+ */
+export async function saveImportProgress(path: string, progress: ImportProgress): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(progress, null, 2) + "\n");
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Works out what to do with each post of a source: posts in the progress file
+ * were imported by an earlier run, and posts whose slug is already on the
+ * server are left alone.
+ *
+ * @param options.author - Author for every post, instead of the one in the source
+ * @param options.remoteSlugs - Slugs of the posts that currently exist on the server
+ */
+export function planImport(
+  posts: ImportedPost[],
+  progress: ImportProgress,
+  options: { includeDrafts?: boolean; author?: string; remoteSlugs?: Set<string> } = {},
+): ImportAction[] {
+  const slugs = new Map<string, string>(); // slug -> source ID
+
+  return posts.map((post): ImportAction => {
+    const entry = progress.posts[post.id];
+    if (entry) {
+      return { type: "imported", post, slug: entry.slug };
+    }
+    if (post.draft && !options.includeDrafts) {
+      return { type: "draft", post };
+    }
+
+    let payload: PostPayload;
+    try {
+      const frontmatter = options.author
+        ? { ...post.frontmatter, author: options.author }
+        : post.frontmatter;
+      payload = buildPostPayload(frontmatter, post.content);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      return { type: "invalid", post, reason: error.message };
+    }
+
+    const other = slugs.get(payload.slug);
+    if (other) {
+      const reason = `Duplicate slug "${payload.slug}", also used by ${other}`;
+      return { type: "invalid", post, reason };
+    }
+    slugs.set(payload.slug, post.id);
+
+    if (options.remoteSlugs?.has(payload.slug)) {
+      return { type: "exists", post, payload };
+    }
+    return { type: "import", post, payload };
+  });
+}
+
+/**
+ * Formats an import plan as human-readable lines.
+ */
+export function formatImportPlan(actions: ImportAction[]): string {
+  return actions
+    .map((action) => {
+      const { id, frontmatter } = action.post;
+      switch (action.type) {
+        case "import": {
+          const media = listMedia(action.post).length;
+          const details = [`${action.payload.tags?.length ?? 0} tag(s)`, `${media} media`];
+          return `  + import   ${action.payload.slug}  (${id}; ${details.join(", ")})`;
+        }
+        case "imported":
+          return `    skip     ${action.slug}  (${id}; imported before)`;
+        case "exists":
+          return `    skip     ${action.payload.slug}  (${id}; already on the server)`;
+        case "draft":
+          return `    skip     ${frontmatter.slug ?? frontmatter.title ?? id}  (${id}; draft)`;
+        case "invalid":
+          return `  ! invalid  ${id}: ${action.reason}`;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Lists the media a post embeds: local paths and remote URLs.
+ */
+export function listMedia(post: ImportedPost): string[] {
+  const featuredImage = post.frontmatter.featured_image;
+  const remote = parseRemoteImageReferences(post.content).map((ref) => ref.path);
+  if (featuredImage && !isLocalPath(featuredImage)) {
+    remote.push(featuredImage);
+  }
+  return [...new Set([...collectLocalImagePaths(post.content, featuredImage), ...remote])];
+}
+
+/**
+ * Points root-relative media paths at the post's media root, and gives
+ * protocol-relative URLs a scheme so they are downloaded.
+ */
+function resolveMediaPaths(path: string, mediaRoot: string | undefined): string {
+  if (path.startsWith("//")) return `https:${path}`;
+  if (path.startsWith("/") && mediaRoot) return join(mediaRoot, path);
+  return path;
+}
+
+/**
+ * Uploads the media of a post: remote images are downloaded into
+ * `downloadDir` first, and local ones are read from disk.
+ *
+ * @returns The payload with uploaded URLs
+ */
+export async function uploadMedia(
+  post: ImportedPost,
+  payload: PostPayload,
+  client: My2satsClient,
+  downloadDir: string,
+  options: ProcessImagesOptions = {},
+): Promise<PostPayload> {
+  let content = payload.content;
+  for (const ref of parseImageReferences(content)) {
+    const path = resolveMediaPaths(ref.path, post.mediaRoot);
+    if (path !== ref.path) {
+      content = content.replace(ref.original, ref.original.replace(ref.path, path));
+    }
+  }
+  const featuredImage =
+    payload.featured_image && resolveMediaPaths(payload.featured_image, post.mediaRoot);
+
+  const downloaded = await downloadRemoteImages(content, featuredImage, downloadDir, downloadDir);
+  const processed = await processImages(
+    downloaded.content,
+    downloaded.featuredImage,
+    post.basePath,
+    client,
+    options,
+  );
+
+  return { ...payload, content: processed.content, featured_image: processed.featuredImageUrl };
+}
@@ -1,20 +1,92 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
+import { checkProfile } from "./config";
+import { formatError, handleError } from "./errors";
+import { setInputOptions } from "./input";
+import { setOutputOptions } from "./output";
+import { type DryRunOptions, type InputOptions, type OutputOptions } from "./types";
 import { storeKeyCommand } from "./commands/store-key";
+import { keyCommand } from "./commands/key";
+import { agentCommand } from "./commands/agent";
 import { createPostCommand } from "./commands/create-post";
 import { updatePostCommand } from "./commands/update-post";
 import { deletePostCommand } from "./commands/delete-post";
+import { listPostsCommand } from "./commands/list-posts";
+import { pullPostCommand } from "./commands/pull-post";
+import { syncCommand } from "./commands/sync";
+import { importCommand } from "./commands/import";
+import { exportCommand } from "./commands/export";
+import { lintCommand } from "./commands/lint";
+import { previewCommand } from "./commands/preview";
+import { mockServerCommand } from "./commands/mock-server";
+import { configCommand } from "./commands/config";
 
 const program = new Command();
 
+/** Commands that stop at the network boundary with --dry-run */
+const DRY_RUN_COMMANDS = new Set(["post", "update", "delete", "sync", "import"]);
+
 program
   .name("my2sats")
   .description("CLI tool for posting to my2sats using Nostr authentication")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option(
+    "--dry-run",
+    "Validate and print what post, update, delete, sync and import would send, without sending it",
+    false,
+  )
+  .option(
+    "--profile <name>",
+    "Config profile to use (overrides MY2SATS_PROFILE and defaultProfile)",
+  )
+  .option(
+    "--signer <signer>",
+    'Where to get signatures: "keyfile", a bunker:// URI, a NIP-05 address or "nostrconnect"',
+  )
+  .option("-y, --yes", "Answer yes to confirmations and never prompt", false)
+  .option("--no-input", "Never prompt: fail when input would be needed")
+  .option(
+    "--password-file <path>",
+    'Read the key password from this file ("-" for stdin) instead of prompting',
+  )
+  .option("--json", "Print the result or error as one JSON document; progress goes to stderr", false)
+  .hook("preAction", (_program, actionCommand) => {
+    // Prompts and output happen deep inside helpers, so their mode is set for the whole process
+    const options = actionCommand.optsWithGlobals<InputOptions & OutputOptions & DryRunOptions>();
+    setInputOptions(options);
+    setOutputOptions(options);
+
+    let command = actionCommand;
+    while (command.parent && command.parent !== program) command = command.parent;
+
+    // A command that ignored --dry-run would make real changes
+    if (options.dryRun && !DRY_RUN_COMMANDS.has(command.name())) {
+      handleError(new Error(`--dry-run isn't supported by ${command.name()}`));
+    }
+
+    // An unknown profile stops every command except config, which can fix it
+    try {
+      checkProfile();
+    } catch (error) {
+      if (command.name() !== "config") handleError(error);
+      console.warn(`Warning: ${formatError(error)}`);
+    }
+  });
 
 program.addCommand(storeKeyCommand);
+program.addCommand(keyCommand);
+program.addCommand(agentCommand);
 program.addCommand(createPostCommand);
 program.addCommand(updatePostCommand);
 program.addCommand(deletePostCommand);
+program.addCommand(listPostsCommand);
+program.addCommand(pullPostCommand);
+program.addCommand(syncCommand);
+program.addCommand(importCommand);
+program.addCommand(exportCommand);
+program.addCommand(lintCommand);
+program.addCommand(previewCommand);
+program.addCommand(mockServerCommand);
+program.addCommand(configCommand);
 
-program.parse();
+await program.parseAsync();
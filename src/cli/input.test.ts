@@ -0,0 +1,118 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import prompts from "prompts";
+import { FileNotFoundError, InputRequiredError } from "./errors";
+import {
+  confirm,
+  getNewPassword,
+  getPassword,
+  promptNewPassword,
+  promptSecret,
+  setInputOptions,
+} from "./input";
+
+describe("input", () => {
+  let tempDir: string;
+  let originalPassword: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-input-"));
+    originalPassword = process.env.MY2SATS_PASSWORD;
+    delete process.env.MY2SATS_PASSWORD;
+  });
+
+  afterEach(async () => {
+    setInputOptions({});
+    if (originalPassword === undefined) delete process.env.MY2SATS_PASSWORD;
+    else process.env.MY2SATS_PASSWORD = originalPassword;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("confirm", () => {
+    test("asks the user by default", async () => {
+      prompts.inject([false]);
+      expect(await confirm("Delete?")).toBe(false);
+
+      prompts.inject([true]);
+      expect(await confirm("Delete?")).toBe(true);
+    });
+
+    test("answers yes with --yes", async () => {
+      setInputOptions({ yes: true });
+      expect(await confirm("Delete?")).toBe(true);
+    });
+
+    test("fails fast with --no-input", async () => {
+      setInputOptions({ input: false });
+      await expect(confirm("Delete?")).rejects.toThrow(InputRequiredError);
+      await expect(confirm("Delete?")).rejects.toThrow("Pass --yes to confirm: Delete?");
+    });
+  });
+
+  describe("promptSecret", () => {
+    test("fails fast when prompts are disabled", async () => {
+      setInputOptions({ yes: true });
+      await expect(
+        promptSecret("Secret:", "The secret key", "Pass it as an argument."),
+      ).rejects.toThrow("The secret key is required, but prompts are disabled");
+    });
+  });
+
+  describe("getPassword", () => {
+    test("prompts when no password is given", async () => {
+      prompts.inject(["typed"]);
+      expect(await getPassword()).toBe("typed");
+    });
+
+    test("reads MY2SATS_PASSWORD", async () => {
+      process.env.MY2SATS_PASSWORD = "from-env";
+      setInputOptions({ input: false });
+      expect(await getPassword()).toBe("from-env");
+    });
+
+    test("reads --password-file without its trailing newline", async () => {
+      const passwordFile = join(tempDir, "password");
+      await Bun.write(passwordFile, "from file \n");
+      setInputOptions({ input: false, passwordFile });
+
+      expect(await getPassword()).toBe("from file ");
+    });
+
+    test("rejects a missing password file", async () => {
+      setInputOptions({ passwordFile: join(tempDir, "missing") });
+      await expect(getPassword()).rejects.toThrow(FileNotFoundError);
+    });
+
+    test("fails fast with --no-input and no password", async () => {
+      setInputOptions({ input: false });
+      await expect(getPassword()).rejects.toThrow("Set MY2SATS_PASSWORD or pass --password-file.");
+    });
+  });
+
+  describe("promptNewPassword", () => {
+    test("returns the password when both entries match", async () => {
+      prompts.inject(["secret", "secret"]);
+      expect(await promptNewPassword()).toBe("secret");
+    });
+
+    test("rejects mismatched passwords", async () => {
+      prompts.inject(["secret", "other"]);
+      await expect(promptNewPassword()).rejects.toThrow("Passwords do not match");
+    });
+  });
+
+  describe("getNewPassword", () => {
+    test("uses the given password without prompting", async () => {
+      process.env.MY2SATS_PASSWORD = "ci-password";
+      setInputOptions({ yes: true });
+      expect(await getNewPassword()).toBe("ci-password");
+    });
+
+    test("fails fast with --no-input and no password", async () => {
+      setInputOptions({ input: false });
+      await expect(getNewPassword()).rejects.toThrow(InputRequiredError);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * User input: confirmations, secrets and passwords, with non-interactive
+ * replacements so the CLI can run in CI.
+ *
+ * The global --yes, --no-input and --password-file options are applied once
+ * before a command runs (see index.ts), since prompts happen deep inside
+ * helpers like getSecretKey.
+ */
+
+import prompts from "prompts";
+import { AbortedError, FileNotFoundError, InputRequiredError } from "./errors";
+import { isJsonOutput } from "./output";
+import { type InputOptions } from "./types";
+
+/** Environment variable holding the key password */
+export const PASSWORD_ENV_VAR = "MY2SATS_PASSWORD";
+
+let inputOptions: InputOptions = {};
+
+/** Password read from stdin, which can only be read once */
+let stdinPassword: string | undefined;
+
+/**
+ * Sets how prompts behave for the rest of the process.
+ */
+export function setInputOptions(options: InputOptions): void {
+  inputOptions = options;
+}
+
+/**
+ * Whether the user can be prompted: not with --no-input, nor with --yes
+ * since no one is there to answer.
+ */
+function canPrompt(): boolean {
+  return inputOptions.input !== false && !inputOptions.yes;
+}
+
+/**
+ * Where prompts are shown: stderr with --json, which keeps stdout for the result.
+ */
+function promptStream() {
+  return isJsonOutput() ? { stdout: process.stderr } : {};
+}
+
+/**
+ * Asks a yes/no question that defaults to no.
+ * With --yes it is answered yes without asking.
+ *
+ * @throws {InputRequiredError} With --no-input, instead of assuming an answer
+ */
+export async function confirm(message: string): Promise<boolean> {
+  if (inputOptions.yes) return true;
+  if (!canPrompt()) {
+    throw new InputRequiredError("Confirmation", `Pass --yes to confirm: ${message}`);
+  }
+
+  const response = await prompts({
+    type: "confirm",
+    name: "confirmed",
+    message,
+    initial: false,
+    ...promptStream(),
+  });
+  return response.confirmed === true;
+}
+
+/**
+ * Prompts for a secret without echoing it.
+ *
+ * @param what - What is asked for, used in the error when prompts are disabled
+ * @param hint - How to provide it without a prompt
+ * @throws {InputRequiredError} If prompts are disabled
+ * @throws {AbortedError} If the user cancels the prompt
+ */
+export async function promptSecret(
+  message: string,
+  what: string,
+  hint: string,
+  validate?: (value: string) => true | string,
+): Promise<string> {
+  if (!canPrompt()) {
+    throw new InputRequiredError(what, hint);
+  }
+
+  const response = await prompts({
+    type: "password",
+    name: "value",
+    message,
+    validate,
+    ...promptStream(),
+  });
+
+  if (!response.value) {
+    throw new AbortedError();
+  }
+  return response.value;
+}
+
+/**
+ * Reads the key password from MY2SATS_PASSWORD or --password-file ("-" for stdin).
+ * Returns undefined if neither is given.
+ *
+ * @throws {FileNotFoundError} If the password file doesn't exist
+ */
+export async function readPassword(): Promise<string | undefined> {
+  const fromEnv = process.env[PASSWORD_ENV_VAR];
+  if (fromEnv) return fromEnv;
+
+  const path = inputOptions.passwordFile;
+  if (path === undefined) return undefined;
+
+  if (path === "-") {
+    stdinPassword ??= stripNewline(await Bun.stdin.text());
+    return stdinPassword;
+  }
+
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new FileNotFoundError(path);
+  }
+  return stripNewline(await file.text());
+}
+
+/**
+ * Gets the password to decrypt the key: from MY2SATS_PASSWORD or
+ * --password-file if given, otherwise by prompting.
+ */
+export async function getPassword(): Promise<string> {
+  return (
+    (await readPassword()) ??
+    promptSecret(
+      "Enter password to decrypt key:",
+      "The key password",
+      `Set ${PASSWORD_ENV_VAR} or pass --password-file.`,
+    )
+  );
+}
+
+/**
+ * Prompts for a new encryption password, entered twice.
+ *
+ * @throws {InputRequiredError} If prompts are disabled
+ * @throws {AbortedError} If the user cancels a prompt
+ */
+export async function promptNewPassword(
+  message = "Enter encryption password:",
+): Promise<string> {
+  if (!canPrompt()) {
+    throw new InputRequiredError(
+      "A new password",
+      `Set ${PASSWORD_ENV_VAR} or pass --password-file.`,
+    );
+  }
+
+  const response = await prompts([
+    {
+      type: "password",
+      name: "password",
+      message,
+      validate: (value) => (value ? true : "Password cannot be empty"),
+      ...promptStream(),
+    },
+    {
+      type: "password",
+      name: "confirmPassword",
+      message: "Confirm password:",
+      ...promptStream(),
+    },
+  ]);
+
+  if (!response.password || !response.confirmPassword) {
+    throw new AbortedError();
+  }
+
+  if (response.password !== response.confirmPassword) {
+    throw new Error("Passwords do not match");
+  }
+
+  return response.password;
+}
+
+/**
+ * Gets the password to encrypt a new key with: from MY2SATS_PASSWORD or
+ * --password-file if given, otherwise by prompting twice.
+ */
+export async function getNewPassword(): Promise<string> {
+  return (await readPassword()) ?? promptNewPassword();
+}
+
+/**
+ * Removes the line break that ends a password file or piped input.
+ */
+function stripNewline(text: string): string {
+  return text.replace(/\r?\n$/, "");
+}
@@ -0,0 +1,218 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type LintRule, type LintSeverity } from "./config";
+import { FileNotFoundError, LintError } from "./errors";
+import { formatDiagnostic, lintBeforePublish, lintMarkdown, lintPath } from "./lint";
+
+const rules: Record<LintRule, LintSeverity> = {
+  frontmatter: "error",
+  slug: "error",
+  "image-alt": "warning",
+  "broken-links": "error",
+  "heading-increment": "warning",
+  "empty-excerpt": "warning",
+};
+
+const validFrontmatter = "---\nslug: hello\ntitle: Hello\nauthor: Alice\n---\n";
+
+describe("lintMarkdown", () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-lint-"));
+    file = join(tempDir, "post.md");
+    await Bun.write(join(tempDir, "pic.png"), "image");
+    await Bun.write(join(tempDir, "other.md"), "other");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /** Lints markdown as if it were `post.md` in the temp directory */
+  const lint = (markdown: string, options = {}) =>
+    lintMarkdown(markdown, file, { rules, ...options });
+
+  test("finds nothing in a clean post", async () => {
+    const markdown = `${validFrontmatter}\n# Title\n\n## Part\n\n![A picture](./pic.png)\n\n[Other](./other.md)`;
+    expect(await lint(markdown)).toEqual([]);
+  });
+
+  test("reports missing required frontmatter", async () => {
+    const diagnostics = await lint("---\ntitle: Hello\n---\n\nBody", {
+      rules: { ...rules, slug: "off" },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        file,
+        line: 1,
+        column: undefined,
+        rule: "frontmatter",
+        severity: "error",
+        message: "Missing required frontmatter: slug, author",
+      },
+    ]);
+  });
+
+  test("doesn't require fields for updates", async () => {
+    expect(await lint("---\ntitle: Hello\n---\n\nBody", { requireFields: false })).toEqual([]);
+  });
+
+  test("reports malformed frontmatter with its location", async () => {
+    const [diagnostic] = await lint("---\nslug: hello\ntags: [a\n---\n\nBody");
+
+    expect(diagnostic?.rule).toBe("frontmatter");
+    expect(diagnostic?.line).toBe(3);
+    expect(diagnostic?.message).toStartWith("Invalid frontmatter:");
+  });
+
+  test("reports slugs that aren't URL-safe on their line", async () => {
+    const diagnostics = await lint("---\ntitle: Hi\nslug: Hello World\nauthor: A\n---\n\nBody");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ rule: "slug", line: 3 });
+  });
+
+  test("reports empty excerpts", async () => {
+    const diagnostics = await lint(`${validFrontmatter.replace("---\n", "---\nexcerpt: \"\"\n")}\nBody`);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ rule: "empty-excerpt", line: 2, severity: "warning" }),
+    ]);
+  });
+
+  test("accepts a missing slug and empty excerpt that auto fields derive", async () => {
+    const markdown = "---\ntitle: Hello\nauthor: Alice\nexcerpt: \"\"\n---\n\nBody";
+
+    expect(await lint(markdown, { autoFields: true })).toEqual([]);
+    expect((await lint(markdown)).map((d) => d.rule)).toEqual(["frontmatter", "empty-excerpt"]);
+  });
+
+  test("reports images without alt text", async () => {
+    const diagnostics = await lint(
+      `${validFrontmatter}\n![](./pic.png)\n<img src="./pic.png" alt="A picture">\n<img src="./pic.png">`,
+    );
+
+    expect(diagnostics.map((d) => [d.rule, d.line, d.column])).toEqual([
+      ["image-alt", 7, 1],
+      ["image-alt", 9, 1],
+    ]);
+  });
+
+  test("reports broken images and links with their location", async () => {
+    const diagnostics = await lint(
+      `${validFrontmatter}\nSee ![Missing](./missing.png) and [this](./nope.md#part).\n` +
+        "[ok](./other.md) [web](https://example.com) [anchor](#top) [site](/about)",
+    );
+
+    expect(diagnostics.map((d) => [d.line, d.column, d.message])).toEqual([
+      [7, 5, `Image not found: ${tempDir}/./missing.png`],
+      [7, 35, "Link target not found: ./nope.md#part"],
+    ]);
+  });
+
+  test("reports a missing featured image on its frontmatter line", async () => {
+    const diagnostics = await lint(
+      `${validFrontmatter.replace("---\n", "---\nfeatured_image: ./cover.png\n")}\nBody`,
+    );
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ rule: "broken-links", line: 2, severity: "error" }),
+    ]);
+  });
+
+  test("accepts images of any type and size that will be optimized", async () => {
+    await Bun.write(join(tempDir, "photo.tiff"), "image");
+    const markdown = `${validFrontmatter}\n![Photo](./photo.tiff) ![Missing](./missing.tiff)`;
+
+    const messages = async (optimize: boolean) =>
+      (await lint(markdown, { optimize })).map((d) => d.message);
+
+    expect(await messages(false)).toEqual([
+      expect.stringContaining("Invalid image type"),
+      expect.stringContaining("Image not found"),
+    ]);
+    expect(await messages(true)).toEqual([expect.stringContaining("Image not found")]);
+  });
+
+  test("reports heading level jumps", async () => {
+    const diagnostics = await lint(`${validFrontmatter}\n# Title\n\n### Too deep\n\n## Fine\n`);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        rule: "heading-increment",
+        line: 9,
+        message: "Heading level jumps from h1 to h3",
+      }),
+    ]);
+  });
+
+  test("ignores code blocks and inline code", async () => {
+    const markdown =
+      `${validFrontmatter}\n# Title\n\n\`\`\`md\n### Not a heading\n![](./missing.png)\n\`\`\`\n\n` +
+      "Use `![](./x.png)` for images.";
+
+    expect(await lint(markdown)).toEqual([]);
+  });
+
+  test("skips rules that are turned off", async () => {
+    const markdown = `${validFrontmatter}\n![](./missing.png)`;
+    const options = { rules: { ...rules, "image-alt": "off", "broken-links": "off" } };
+
+    expect(await lint(markdown, options)).toEqual([]);
+  });
+
+  test("formatDiagnostic prints file:line:column", () => {
+    expect(
+      formatDiagnostic({
+        file: "post.md",
+        line: 7,
+        column: 5,
+        rule: "image-alt",
+        severity: "warning",
+        message: "Image ./pic.png has no alt text",
+      }),
+    ).toBe("post.md:7:5: warning: Image ./pic.png has no alt text (image-alt)");
+  });
+
+  test("lintBeforePublish prints warnings and throws on errors", async () => {
+    await Bun.write(file, `${validFrontmatter}\n![](./pic.png)`);
+    await lintBeforePublish(file, { rules });
+
+    await Bun.write(file, `${validFrontmatter}\n![Missing](./missing.png)`);
+    await expect(lintBeforePublish(file, { rules })).rejects.toThrow(LintError);
+  });
+});
+
+describe("lintPath", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-lint-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("lints posts in a directory recursively and skips files without frontmatter", async () => {
+    await mkdir(join(tempDir, "drafts"));
+    await Bun.write(join(tempDir, "a.md"), `${validFrontmatter}\nBody`);
+    await Bun.write(join(tempDir, "drafts", "b.md"), "---\ntitle: B\n---\n\nBody");
+    await Bun.write(join(tempDir, "README.md"), "# Notes");
+
+    const { files, diagnostics } = await lintPath(tempDir, { rules });
+
+    expect(files).toEqual([join(tempDir, "a.md"), join(tempDir, "drafts", "b.md")]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]?.file).toBe(join(tempDir, "drafts", "b.md"));
+  });
+
+  test("fails for a missing path", async () => {
+    await expect(lintPath(join(tempDir, "nope"))).rejects.toThrow(FileNotFoundError);
+  });
+});
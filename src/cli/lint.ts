@@ -0,0 +1,298 @@
+/**
+ * Markdown linting: checks a post for problems before it is published, with
+ * file:line diagnostics. Rules and their severity come from the lintRules
+ * setting, so each profile can enforce its own.
+ */
+
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { findImageFile, validateImageFile } from "./api-client";
+import { config, type LintRule } from "./config";
+import {
+  FileNotFoundError,
+  FrontmatterError,
+  LintError,
+  ValidationError,
+  formatError,
+} from "./errors";
+import { type LintDiagnostic, type LintOptions, type PostFrontmatter } from "./types";
+import {
+  buildPostPayload,
+  getBasePath,
+  isLocalPath,
+  parseFrontmatter,
+  parseImageReferences,
+} from "./utils";
+
+/** Slugs made of lowercase letters, digits and single hyphens */
+const URL_SAFE_SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Markdown images: ![alt](path) or ![alt](path "title") */
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+/** Markdown links that aren't images: [text](target) */
+const MARKDOWN_LINK = /(?<!!)\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+/** HTML img tags */
+const HTML_IMAGE = /<img\b[^>]*>/gi;
+
+/** Link targets with a scheme (https:, mailto:, ...) or protocol-relative ones */
+const EXTERNAL_LINK = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+/**
+ * Lints a markdown post.
+ *
+ * @param filePath - Path of the file, for diagnostics and to resolve relative links
+ */
+export async function lintMarkdown(
+  markdown: string,
+  filePath: string,
+  options: LintOptions = {},
+): Promise<LintDiagnostic[]> {
+  const rules = options.rules ?? config.lintRules;
+  const optimize = options.optimize ?? config.optimizeImages;
+  const basePath = getBasePath(filePath);
+  const lines = markdown.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const diagnostics: LintDiagnostic[] = [];
+
+  const report = (rule: LintRule, line: number, message: string, column?: number) => {
+    const severity = rules[rule];
+    if (severity === "off") return;
+    diagnostics.push({ file: filePath, line, column, rule, severity, message });
+  };
+
+  // Find the frontmatter block, so content lines keep their numbers in the file
+  const delimiter = lines[0]?.trimEnd();
+  const frontmatterEnd =
+    delimiter === "---" || delimiter === "+++"
+      ? lines.findIndex((line, i) => i > 0 && line.trimEnd() === delimiter)
+      : -1;
+  const bodyStart = frontmatterEnd + 1;
+  const keyLine = (key: string) => {
+    const pattern = new RegExp(`^${key}\\s*[:=]`);
+    const index = lines.findIndex((line, i) => i < frontmatterEnd && pattern.test(line));
+    return index === -1 ? undefined : index + 1;
+  };
+
+  let frontmatter: PostFrontmatter | undefined;
+  try {
+    frontmatter = parseFrontmatter(markdown).frontmatter;
+  } catch (error) {
+    if (!(error instanceof FrontmatterError)) throw error;
+    report("frontmatter", error.line ?? 1, `Invalid frontmatter: ${error.reason}`, error.column);
+  }
+
+  if (frontmatter) {
+    if (options.requireFields ?? true) {
+      // A slug derived from the title stands in for a missing one
+      const required = options.autoFields
+        ? { ...frontmatter, slug: frontmatter.slug || (frontmatter.title && "derived") }
+        : frontmatter;
+      try {
+        buildPostPayload(required, lines.slice(bodyStart).join("\n"));
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        report("frontmatter", 1, `Missing required frontmatter: ${error.fields.join(", ")}`);
+      }
+    }
+
+    if (frontmatter.slug !== undefined && !URL_SAFE_SLUG.test(frontmatter.slug)) {
+      report(
+        "slug",
+        keyLine("slug") ?? 1,
+        `Slug "${frontmatter.slug}" isn't URL-safe: use lowercase letters, digits and single hyphens`,
+      );
+    }
+
+    const excerptLine = keyLine("excerpt");
+    if (excerptLine !== undefined && !frontmatter.excerpt?.trim() && !options.autoFields) {
+      report("empty-excerpt", excerptLine, "Excerpt is empty");
+    }
+
+    const featuredImage = frontmatter.featured_image;
+    if (featuredImage && isLocalPath(featuredImage)) {
+      const problem = await checkImage(featuredImage, basePath, optimize);
+      if (problem) report("broken-links", keyLine("featured_image") ?? 1, problem);
+    }
+  }
+
+  let inFence: string | undefined;
+  let previousLevel: number | undefined;
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const raw = lines[i]!;
+
+    const fence = /^\s{0,3}(`{3,}|~{3,})/.exec(raw)?.[1];
+    if (fence && (!inFence || fence.startsWith(inFence))) {
+      inFence = inFence ? undefined : fence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Blank out inline code, keeping columns
+    const line = raw.replace(/`[^`]*`/g, (code) => " ".repeat(code.length));
+
+    const heading = /^\s{0,3}(#{1,6})(?:\s|$)/.exec(line);
+    if (heading) {
+      const level = heading[1]!.length;
+      if (previousLevel !== undefined && level > previousLevel + 1) {
+        report(
+          "heading-increment",
+          lineNumber,
+          `Heading level jumps from h${previousLevel} to h${level}`,
+          line.indexOf("#") + 1,
+        );
+      }
+      previousLevel = level;
+    }
+
+    for (const match of line.matchAll(MARKDOWN_IMAGE)) {
+      if (!match[1]!.trim()) {
+        report("image-alt", lineNumber, `Image ${match[2]} has no alt text`, match.index + 1);
+      }
+    }
+    for (const match of line.matchAll(HTML_IMAGE)) {
+      if (!/\balt\s*=\s*(["'])\s*\S[^"']*\1/i.test(match[0])) {
+        report("image-alt", lineNumber, `Image ${match[0]} has no alt text`, match.index + 1);
+      }
+    }
+
+    for (const ref of parseImageReferences(line)) {
+      const problem = await checkImage(ref.path, basePath, optimize);
+      if (problem) report("broken-links", lineNumber, problem, line.indexOf(ref.original) + 1);
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK)) {
+      const target = match[1]!;
+      if (EXTERNAL_LINK.test(target) || target.startsWith("#") || target.startsWith("/")) {
+        continue;
+      }
+      const path = target.replace(/[?#].*$/, "");
+      if (!(await pathExists(join(basePath, safeDecode(path))))) {
+        report("broken-links", lineNumber, `Link target not found: ${target}`, match.index + 1);
+      }
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+}
+
+/**
+ * Checks that a local image exists and can be uploaded.
+ * An image that will be optimized only has to exist: its size and type change.
+ * Returns the problem, or undefined if there is none.
+ */
+async function checkImage(
+  path: string,
+  basePath: string,
+  optimize: boolean,
+): Promise<string | undefined> {
+  try {
+    await (optimize ? findImageFile(path, basePath) : validateImageFile(path, basePath));
+    return undefined;
+  } catch (error) {
+    return formatError(error);
+  }
+}
+
+/**
+ * Decodes percent-escapes in a link target, keeping it as is if they're malformed.
+ */
+function safeDecode(target: string): string {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lints a markdown file.
+ *
+ * @throws {FileNotFoundError} If the file doesn't exist
+ */
+export async function lintFile(
+  filePath: string,
+  options: LintOptions = {},
+): Promise<LintDiagnostic[]> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new FileNotFoundError(filePath);
+  }
+  return lintMarkdown(await file.text(), filePath, options);
+}
+
+/**
+ * Lints a markdown file, or every post in a directory recursively.
+ * Like sync, files in a directory without frontmatter aren't posts and are skipped.
+ *
+ * @returns The linted files and what was found in them
+ * @throws {FileNotFoundError} If the path doesn't exist
+ */
+export async function lintPath(
+  path: string,
+  options: LintOptions = {},
+): Promise<{ files: string[]; diagnostics: LintDiagnostic[] }> {
+  const stats = await stat(path).catch(() => undefined);
+  if (!stats) {
+    throw new FileNotFoundError(path);
+  }
+  if (!stats.isDirectory()) {
+    return { files: [path], diagnostics: await lintFile(path, options) };
+  }
+
+  const files: string[] = [];
+  const diagnostics: LintDiagnostic[] = [];
+  const glob = new Bun.Glob("**/*.md");
+
+  for (const relativePath of [...glob.scanSync({ cwd: path, onlyFiles: true })].sort()) {
+    const filePath = join(path, relativePath);
+    const markdown = await Bun.file(filePath).text();
+    if (!/^\uFEFF?(---|\+\+\+)[ \t]*\r?\n/.test(markdown)) continue;
+
+    files.push(filePath);
+    diagnostics.push(...(await lintMarkdown(markdown, filePath, options)));
+  }
+
+  return { files, diagnostics };
+}
+
+/**
+ * Formats a diagnostic as "file:line:column: severity: message (rule)".
+ */
+export function formatDiagnostic(diagnostic: LintDiagnostic): string {
+  const column = diagnostic.column === undefined ? "" : `:${diagnostic.column}`;
+  return `${diagnostic.file}:${diagnostic.line}${column}: ${diagnostic.severity}: ${diagnostic.message} (${diagnostic.rule})`;
+}
+
+/**
+ * Lints a post before it is published: warnings are printed and errors
+ * stop the command.
+ *
+ * @throws {LintError} If any rule set to "error" found a problem
+ */
+export async function lintBeforePublish(
+  filePath: string,
+  options: LintOptions = {},
+): Promise<void> {
+  const diagnostics = await lintFile(filePath, options);
+
+  for (const warning of diagnostics.filter((d) => d.severity === "warning")) {
+    console.warn(formatDiagnostic(warning));
+  }
+
+  const errors = diagnostics.filter((d) => d.severity === "error");
+  if (errors.length > 0) {
+    throw new LintError(errors);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Test helper: an API client that talks to the mock API in memory, without
+ * starting a server.
+ */
+
+import { My2satsClient } from "./api-client";
+import { createMockHandler } from "./mock-server";
+import { type MockHandlerOptions, type SignFunction } from "./types";
+
+/**
+ * A request received by the mock API, with its JSON body if it has one.
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+/**
+ * Creates a client backed by a mock handler.
+ * Returns the client, the fetch function it uses and the requests it has sent.
+ */
+export async function createMockClient(
+  sign: SignFunction,
+  options: MockHandlerOptions = {},
+): Promise<{ client: My2satsClient; fetch: typeof globalThis.fetch; requests: MockRequest[] }> {
+  const handler = await createMockHandler(options);
+  const requests: MockRequest[] = [];
+
+  const fetch: typeof globalThis.fetch = Object.assign(
+    async (input: string | URL | Request, init?: RequestInit) => {
+      const request =
+        input instanceof Request ? new Request(input, init) : new Request(String(input), init);
+      const isJson = request.headers.get("Content-Type")?.includes("json");
+      requests.push({
+        method: request.method,
+        path: new URL(request.url).pathname,
+        body: isJson ? await request.clone().json().catch(() => undefined) : undefined,
+      });
+      return handler(request);
+    },
+    { preconnect: globalThis.fetch.preconnect },
+  );
+
+  return { client: new My2satsClient({ apiUrl: "http://api", sign, fetch }), fetch, requests };
+}
@@ -0,0 +1,265 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { nip98 } from "nostr-tools";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  type EventTemplate,
+} from "nostr-tools/pure";
+import { ApiError, AuthorizationError } from "./errors";
+import { My2satsClient } from "./api-client";
+import { createSignFunction } from "./crypto";
+import { createMockClient } from "./mock-client.test-helper";
+import { verifyAuthorization } from "./mock-server";
+import { createAuthToken } from "./request";
+
+const secretKey = generateSecretKey();
+const sign = createSignFunction(secretKey);
+
+const payload = { slug: "hello", title: "Hello", author: "Alice", content: "Hi" };
+
+/**
+ * Builds a NIP-98 Authorization header from a (possibly tampered) event template.
+ */
+function authHeader(template: Partial<EventTemplate>, key = secretKey): string {
+  const event = finalizeEvent(
+    {
+      kind: 27235,
+      created_at: Math.floor(Date.now() / 1000),
+      content: "",
+      tags: [
+        ["u", "http://api/api/posts"],
+        ["method", "POST"],
+      ],
+      ...template,
+    },
+    key,
+  );
+  return `Nostr ${Buffer.from(JSON.stringify(event)).toString("base64")}`;
+}
+
+describe("verifyAuthorization", () => {
+  const url = "http://api/api/posts";
+
+  test("accepts a token from getToken", async () => {
+    const token = await nip98.getToken(url, "post", sign, true);
+
+    const event = verifyAuthorization(token, url, "POST");
+
+    expect(event.pubkey).toBe(getPublicKey(secretKey));
+  });
+
+  test("rejects a missing header or wrong scheme", () => {
+    expect(() => verifyAuthorization(null, url, "POST")).toThrow("missing Authorization header");
+    expect(() => verifyAuthorization("Bearer abc", url, "POST")).toThrow(AuthorizationError);
+  });
+
+  test("rejects the wrong kind", () => {
+    expect(() => verifyAuthorization(authHeader({ kind: 1 }), url, "POST")).toThrow(
+      "expected kind 27235, got 1",
+    );
+  });
+
+  test("rejects an invalid signature", () => {
+    const header = authHeader({});
+    const event = JSON.parse(Buffer.from(header.slice(6), "base64").toString());
+    event.tags.push(["extra", "tag"]);
+    const tampered = `Nostr ${Buffer.from(JSON.stringify(event)).toString("base64")}`;
+
+    expect(() => verifyAuthorization(tampered, url, "POST")).toThrow("invalid event signature");
+  });
+
+  test("rejects mismatched url and method tags", () => {
+    expect(() => verifyAuthorization(authHeader({}), `${url}/other`, "POST")).toThrow(
+      "url tag",
+    );
+    expect(() => verifyAuthorization(authHeader({}), url, "DELETE")).toThrow("method tag");
+  });
+
+  test("rejects events outside the timestamp window", () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(() =>
+      verifyAuthorization(authHeader({ created_at: now - 120 }), url, "POST", { now }),
+    ).toThrow("more than 60s away");
+    expect(() =>
+      verifyAuthorization(authHeader({ created_at: now + 120 }), url, "POST", { now }),
+    ).toThrow(AuthorizationError);
+    expect(() =>
+      verifyAuthorization(authHeader({ created_at: now - 120 }), url, "POST", {
+        now,
+        window: 300,
+      }),
+    ).not.toThrow();
+  });
+
+  test("checks the payload tag against the body", async () => {
+    const body = new TextEncoder().encode(JSON.stringify(payload));
+    const token = await createAuthToken(url, "POST", sign, body);
+    const tampered = new TextEncoder().encode(JSON.stringify({ ...payload, title: "Evil" }));
+
+    expect(() => verifyAuthorization(token, url, "POST", { body })).not.toThrow();
+    expect(() => verifyAuthorization(token, url, "POST", { body: tampered })).toThrow(
+      "payload tag doesn't match the request body",
+    );
+  });
+
+  test("requires a payload tag only when asked to", async () => {
+    const body = new TextEncoder().encode("{}");
+    const token = await createAuthToken(url, "POST", sign);
+
+    expect(() => verifyAuthorization(token, url, "POST", { body })).not.toThrow();
+    expect(() =>
+      verifyAuthorization(token, url, "POST", { body, requirePayload: true }),
+    ).toThrow("missing payload tag");
+  });
+});
+
+describe("createMockHandler", () => {
+  test("creates, reads, updates and deletes posts", async () => {
+    const { client } = await createMockClient(sign);
+
+    const created = await client.createPost(payload);
+    expect(created).toMatchObject({ ...payload, pubkey: getPublicKey(secretKey) });
+
+    expect(await client.getPost("hello")).toEqual(created);
+
+    const updated = await client.updatePost("hello", { slug: "hello-world", title: "Hi" });
+    expect(updated).toMatchObject({ slug: "hello-world", title: "Hi", content: "Hi" });
+
+    await client.deletePost("hello-world");
+    await expect(client.getPost("hello-world")).rejects.toThrow("Post not found");
+  });
+
+  test("lists posts with filters and pagination", async () => {
+    const { client } = await createMockClient(sign);
+    await client.createPost({ ...payload, slug: "a", tags: ["nostr"] });
+    await client.createPost({ ...payload, slug: "b" });
+    await client.createPost({ ...payload, slug: "c", tags: ["nostr"] });
+
+    const tagged = await client.listPosts({ tag: "nostr", sort: "slug", order: "asc" });
+    expect(tagged.posts.map((post) => post.slug)).toEqual(["a", "c"]);
+
+    const page = await client.listPosts({ sort: "slug", order: "asc", page: 2, limit: 2 });
+    expect(page).toMatchObject({ total: 3, page: 2, limit: 2 });
+    expect(page.posts.map((post) => post.slug)).toEqual(["c"]);
+
+    expect(await client.listAllPosts({ limit: 1 })).toHaveLength(3);
+  });
+
+  test("rejects unsigned and tampered requests", async () => {
+    const { fetch } = await createMockClient(sign);
+
+    const unsigned = await fetch("http://api/api/posts", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+    expect(unsigned.status).toBe(401);
+
+    // A token signed for another URL can't be reused
+    const token = await nip98.getToken("http://api/api/uploads", "post", sign, true);
+    const replayed = await fetch("http://api/api/posts", {
+      method: "POST",
+      headers: { Authorization: token },
+      body: JSON.stringify(payload),
+    });
+    expect(replayed.status).toBe(401);
+  });
+
+  test("rejects a captured token replayed with a different body", async () => {
+    const { fetch } = await createMockClient(sign);
+    const body = JSON.stringify(payload);
+    const token = await createAuthToken(
+      "http://api/api/posts",
+      "POST",
+      sign,
+      new TextEncoder().encode(body),
+    );
+
+    const replayed = await fetch("http://api/api/posts", {
+      method: "POST",
+      headers: { Authorization: token },
+      body: JSON.stringify({ ...payload, content: "Replaced" }),
+    });
+
+    expect(replayed.status).toBe(401);
+  });
+
+  test("accepts payload-signed posts and uploads when payloads are required", async () => {
+    const { client } = await createMockClient(sign, { requirePayload: true });
+
+    await client.createPost(payload);
+    await client.uploadImage(new File(["png"], "a.png", { type: "image/png" }));
+  });
+
+  test("only lets the owner change a post", async () => {
+    const { client, fetch } = await createMockClient(sign);
+    await client.createPost(payload);
+
+    const other = createSignFunction(generateSecretKey());
+    const otherClient = new My2satsClient({ apiUrl: "http://api", sign: other, fetch });
+
+    const error = await otherClient.deletePost("hello").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(403);
+  });
+
+  test("rejects duplicate slugs and missing fields", async () => {
+    const { client } = await createMockClient(sign);
+    await client.createPost(payload);
+
+    await expect(client.createPost(payload)).rejects.toThrow("(409)");
+    await expect(client.createPost({ ...payload, slug: "x", title: "" })).rejects.toThrow(
+      "Missing required fields: title",
+    );
+    await expect(client.createPost({ ...payload, slug: "y", word_count: 1.5 })).rejects.toThrow(
+      "(400)",
+    );
+  });
+
+  test("stores and serves uploaded images", async () => {
+    const { client, fetch } = await createMockClient(sign);
+    const image = new File([new Uint8Array([1, 2, 3])], "a.png", { type: "image/png" });
+
+    const upload = await client.uploadImage(image);
+    expect(upload.url).toMatch(/^http:\/\/api\/uploads\/[0-9a-f]{64}\.png$/);
+
+    const response = await fetch(upload.url);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  test("rejects unsupported upload types", async () => {
+    const { client } = await createMockClient(sign);
+    const file = new File(["text"], "a.txt", { type: "text/plain" });
+
+    await expect(client.uploadImage(file)).rejects.toThrow("(415)");
+  });
+
+  describe("with a data directory", () => {
+    let dataDir: string;
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), "my2sats-mock-"));
+    });
+
+    afterEach(async () => {
+      await rm(dataDir, { recursive: true, force: true });
+    });
+
+    test("persists posts and uploads across restarts", async () => {
+      const first = await createMockClient(sign, { dataDir });
+      await first.client.createPost(payload);
+      const upload = await first.client.uploadImage(
+        new File(["gif"], "a.gif", { type: "image/gif" }),
+      );
+
+      const second = await createMockClient(sign, { dataDir });
+      expect(await second.client.getPost("hello")).toMatchObject(payload);
+      expect(await (await second.fetch(upload.url)).text()).toBe("gif");
+    });
+  });
+});
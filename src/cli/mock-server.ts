@@ -0,0 +1,390 @@
+/**
+ * Local mock of the my2sats API for offline and end-to-end testing.
+ *
+ * Implements /api/posts, /api/posts/:slug and /api/uploads, and verifies
+ * NIP-98 Authorization headers the way a real instance does.
+ */
+
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { HTTPAuth } from "nostr-tools/kinds";
+import { verifyEvent, type Event } from "nostr-tools/pure";
+import { config } from "./config";
+import { AuthorizationError } from "./errors";
+import { type MockHandlerOptions, type Post } from "./types";
+
+const DEFAULT_AUTH_WINDOW = 60;
+const DEFAULT_PAGE_LIMIT = 20;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+interface StoredUpload {
+  type: string;
+  data: Uint8Array;
+}
+
+interface MockState {
+  posts: Map<string, Post>;
+  uploads: Map<string, StoredUpload>;
+}
+
+/**
+ * Thrown by handlers to answer with an error status.
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Verifies a NIP-98 Authorization header for a request.
+ * Checks the scheme, event kind, signature, url and method tags and the timestamp window,
+ * and the payload tag against the body if the event has one.
+ *
+ * @returns The verified auth event
+ * @throws {AuthorizationError} If the header is missing or invalid
+ */
+export function verifyAuthorization(
+  header: string | null,
+  url: string,
+  method: string,
+  options: { now?: number; window?: number; body?: Uint8Array; requirePayload?: boolean } = {},
+): Event {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const window = options.window ?? DEFAULT_AUTH_WINDOW;
+
+  if (!header) {
+    throw new AuthorizationError("missing Authorization header");
+  }
+
+  const [scheme, token] = header.split(" ");
+  if (scheme !== "Nostr" || !token) {
+    throw new AuthorizationError('expected "Nostr <base64 event>"');
+  }
+
+  let event: Event;
+  try {
+    event = JSON.parse(Buffer.from(token, "base64").toString("utf8")) as Event;
+  } catch {
+    throw new AuthorizationError("token is not a base64-encoded JSON event");
+  }
+
+  if (event.kind !== HTTPAuth) {
+    throw new AuthorizationError(`expected kind ${HTTPAuth}, got ${event.kind}`);
+  }
+
+  if (!verifyEvent(event)) {
+    throw new AuthorizationError("invalid event signature");
+  }
+
+  const urlTag = event.tags.find((tag) => tag[0] === "u")?.[1];
+  if (urlTag !== url) {
+    throw new AuthorizationError(`url tag "${urlTag ?? ""}" doesn't match ${url}`);
+  }
+
+  const methodTag = event.tags.find((tag) => tag[0] === "method")?.[1];
+  if (methodTag?.toUpperCase() !== method.toUpperCase()) {
+    throw new AuthorizationError(`method tag "${methodTag ?? ""}" doesn't match ${method}`);
+  }
+
+  if (Math.abs(now - event.created_at) > window) {
+    throw new AuthorizationError(
+      `event created_at is more than ${window}s away from the server time`,
+    );
+  }
+
+  const payloadTag = event.tags.find((tag) => tag[0] === "payload")?.[1];
+  if (payloadTag === undefined) {
+    if (options.requirePayload && options.body?.length) {
+      throw new AuthorizationError("missing payload tag");
+    }
+  } else {
+    const hash = new Bun.CryptoHasher("sha256")
+      .update(options.body ?? new Uint8Array())
+      .digest("hex");
+    if (payloadTag !== hash) {
+      throw new AuthorizationError("payload tag doesn't match the request body");
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Reads the JSON body of a request as an object.
+ */
+async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Copies the post fields from a request body, checking their types.
+ */
+function readPostFields(body: Record<string, unknown>): Partial<Post> {
+  const fields: Partial<Post> = {};
+  for (const key of ["slug", "title", "author", "content", "excerpt", "featured_image"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      throw new HttpError(400, `"${key}" must be a string`);
+    }
+    fields[key] = value;
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || !body.tags.every((tag) => typeof tag === "string")) {
+      throw new HttpError(400, '"tags" must be a list of strings');
+    }
+    fields.tags = body.tags;
+  }
+
+  for (const key of ["word_count", "reading_time"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new HttpError(400, `"${key}" must be a non-negative integer`);
+    }
+    fields[key] = value;
+  }
+
+  if (fields.slug !== undefined && !/^[^\s/?#]+$/.test(fields.slug)) {
+    throw new HttpError(400, `Invalid slug: ${fields.slug}`);
+  }
+
+  return fields;
+}
+
+/**
+ * Filters, sorts and paginates posts like the list endpoint.
+ */
+function listPosts(posts: Post[], params: URLSearchParams) {
+  const tag = params.get("tag");
+  const author = params.get("author");
+  const pubkey = params.get("pubkey");
+  const sort = (params.get("sort") ?? "created_at") as keyof Post;
+  const order = params.get("order") === "asc" ? 1 : -1;
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const limit = Math.max(1, Number(params.get("limit")) || DEFAULT_PAGE_LIMIT);
+
+  const matching = posts
+    .filter((post) => !tag || post.tags?.includes(tag))
+    .filter((post) => !author || post.author === author)
+    .filter((post) => !pubkey || post.pubkey === pubkey)
+    .sort((a, b) => String(a[sort] ?? "").localeCompare(String(b[sort] ?? "")) * order);
+
+  return {
+    posts: matching.slice((page - 1) * limit, page * limit),
+    total: matching.length,
+    page,
+    limit,
+  };
+}
+
+/**
+ * Loads persisted posts from the data directory.
+ */
+async function loadState(dataDir: string | undefined): Promise<MockState> {
+  const state: MockState = { posts: new Map(), uploads: new Map() };
+  if (!dataDir) return state;
+
+  const file = Bun.file(join(dataDir, "posts.json"));
+  if (await file.exists()) {
+    for (const post of (await file.json()) as Post[]) {
+      state.posts.set(post.slug, post);
+    }
+  }
+  return state;
+}
+
+/**
+ * Creates the request handler of the mock server.
+ * The handler can be passed to Bun.serve, or used directly as a fake fetch in tests.
+ */
+export async function createMockHandler(
+  options: MockHandlerOptions = {},
+): Promise<(request: Request) => Promise<Response>> {
+  const { dataDir, log } = options;
+  const state = await loadState(dataDir);
+  const uploadsDir = dataDir ? join(dataDir, "uploads") : undefined;
+
+  async function savePosts(): Promise<void> {
+    if (!dataDir) return;
+    await mkdir(dataDir, { recursive: true });
+    await Bun.write(join(dataDir, "posts.json"), JSON.stringify([...state.posts.values()], null, 2));
+  }
+
+  async function authorize(request: Request): Promise<string> {
+    // Read a copy of the body, so that handlers can still parse the original
+    const body = new Uint8Array(await request.clone().arrayBuffer());
+    const event = verifyAuthorization(
+      request.headers.get("Authorization"),
+      request.url,
+      request.method,
+      {
+        now: options.now?.(),
+        window: options.authWindow,
+        body,
+        requirePayload: options.requirePayload,
+      },
+    );
+    return event.pubkey;
+  }
+
+  function findOwnPost(slug: string, pubkey: string): Post {
+    const post = state.posts.get(slug);
+    if (!post) {
+      throw new HttpError(404, `Post not found: ${slug}`);
+    }
+    if (post.pubkey !== pubkey) {
+      throw new HttpError(403, `Post ${slug} belongs to another pubkey`);
+    }
+    return post;
+  }
+
+  async function route(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const { method } = request;
+    const slugMatch = /^\/api\/posts\/([^/]+)$/.exec(url.pathname);
+    const slug = slugMatch?.[1] && decodeURIComponent(slugMatch[1]);
+
+    if (url.pathname === "/api/posts" && method === "GET") {
+      return Response.json(listPosts([...state.posts.values()], url.searchParams));
+    }
+
+    if (url.pathname === "/api/posts" && method === "POST") {
+      const pubkey = await authorize(request);
+      const fields = readPostFields(await readJsonObject(request));
+      const missing = (["slug", "title", "author", "content"] as const).filter(
+        (key) => !fields[key],
+      );
+      if (missing.length > 0) {
+        throw new HttpError(400, `Missing required fields: ${missing.join(", ")}`);
+      }
+      if (state.posts.has(fields.slug!)) {
+        throw new HttpError(409, `Slug already exists: ${fields.slug}`);
+      }
+
+      const now = new Date().toISOString();
+      const post = { ...fields, pubkey, created_at: now, updated_at: now } as Post;
+      state.posts.set(post.slug, post);
+      await savePosts();
+      return Response.json(post, { status: 201 });
+    }
+
+    if (slug && method === "GET") {
+      const post = state.posts.get(slug);
+      if (!post) {
+        throw new HttpError(404, `Post not found: ${slug}`);
+      }
+      return Response.json(post);
+    }
+
+    if (slug && method === "PUT") {
+      const pubkey = await authorize(request);
+      const fields = readPostFields(await readJsonObject(request));
+      const existing = findOwnPost(slug, pubkey);
+
+      if (fields.slug && fields.slug !== slug && state.posts.has(fields.slug)) {
+        throw new HttpError(409, `Slug already exists: ${fields.slug}`);
+      }
+
+      const post = { ...existing, ...fields, updated_at: new Date().toISOString() };
+      state.posts.delete(slug);
+      state.posts.set(post.slug, post);
+      await savePosts();
+      return Response.json(post);
+    }
+
+    if (slug && method === "DELETE") {
+      const pubkey = await authorize(request);
+      findOwnPost(slug, pubkey);
+      state.posts.delete(slug);
+      await savePosts();
+      return Response.json({ deleted: slug });
+    }
+
+    if (url.pathname === "/api/uploads" && method === "POST") {
+      await authorize(request);
+      const formData = await request.formData().catch(() => {
+        throw new HttpError(400, "Request body must be multipart form data");
+      });
+      const file = formData.get("file");
+      if (!(file instanceof Blob)) {
+        throw new HttpError(400, 'Missing "file" field');
+      }
+
+      const type = file.type.split(";")[0] ?? "";
+      const extension = IMAGE_EXTENSIONS[type];
+      if (!extension || !config.allowedImageTypes.includes(type)) {
+        throw new HttpError(415, `Unsupported image type: ${file.type}`);
+      }
+      if (file.size > config.maxImageSize) {
+        throw new HttpError(413, `Image exceeds maximum size of ${config.maxImageSize} bytes`);
+      }
+
+      const data = new Uint8Array(await file.arrayBuffer());
+      const name = `${new Bun.CryptoHasher("sha256").update(data).digest("hex")}.${extension}`;
+      if (uploadsDir) {
+        await mkdir(uploadsDir, { recursive: true });
+        await Bun.write(join(uploadsDir, name), data);
+      } else {
+        state.uploads.set(name, { type, data });
+      }
+
+      return Response.json(
+        { url: `${url.origin}/uploads/${name}`, filename: name, size: file.size, type },
+        { status: 201 },
+      );
+    }
+
+    const uploadMatch = /^\/uploads\/([\w.-]+)$/.exec(url.pathname);
+    if (uploadMatch?.[1] && method === "GET") {
+      const name = uploadMatch[1];
+      if (uploadsDir) {
+        const file = Bun.file(join(uploadsDir, name));
+        if (await file.exists()) return new Response(file);
+      } else {
+        const upload = state.uploads.get(name);
+        if (upload) {
+          return new Response(upload.data, { headers: { "Content-Type": upload.type } });
+        }
+      }
+      throw new HttpError(404, `Upload not found: ${name}`);
+    }
+
+    throw new HttpError(404, `Not found: ${method} ${url.pathname}`);
+  }
+
+  return async (request: Request): Promise<Response> => {
+    const line = `${request.method} ${new URL(request.url).pathname}`;
+    try {
+      const response = await route(request);
+      log?.(`${line} ${response.status}`);
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status =
+        error instanceof AuthorizationError ? 401 : error instanceof HttpError ? error.status : 500;
+      log?.(`${line} ${status} (${message})`);
+      return Response.json({ error: message }, { status });
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { test, expect, describe } from "bun:test";
+import { InvalidResponseError } from "./errors";
+import { parsePost, parseListPostsResponse, parseUploadResponse } from "./models";
+
+const post = { slug: "hello", title: "Hello", author: "Alice" };
+
+describe("parsePost", () => {
+  test("accepts a bare post", () => {
+    expect(parsePost({ ...post, tags: ["a", "b"] })).toEqual({ ...post, tags: ["a", "b"] });
+  });
+
+  test("unwraps a post envelope", () => {
+    expect(parsePost({ post })).toEqual(post);
+  });
+
+  test("treats null optional fields as missing", () => {
+    const result = parsePost({ ...post, excerpt: null, featured_image: null, tags: null });
+
+    expect(result).toEqual(post);
+    expect("excerpt" in result).toBe(false);
+  });
+
+  test("ignores unknown fields", () => {
+    expect(parsePost({ ...post, id: 42 })).toEqual(post);
+  });
+
+  test("rejects missing required fields", () => {
+    expect(() => parsePost({ slug: "hello", title: "Hello" })).toThrow(
+      'Post "hello": "author" must be a string',
+    );
+  });
+
+  test("rejects wrongly typed fields", () => {
+    expect(() => parsePost({ ...post, content: 42 })).toThrow(InvalidResponseError);
+    expect(() => parsePost({ ...post, tags: "a,b" })).toThrow(
+      '"tags" must be a list of strings',
+    );
+  });
+
+  test("accepts word count and reading time", () => {
+    expect(parsePost({ ...post, word_count: 420, reading_time: 3 })).toEqual({
+      ...post,
+      word_count: 420,
+      reading_time: 3,
+    });
+    expect(() => parsePost({ ...post, word_count: -1 })).toThrow(InvalidResponseError);
+  });
+
+  test("rejects non-objects", () => {
+    expect(() => parsePost("hello")).toThrow(InvalidResponseError);
+    expect(() => parsePost([post])).toThrow(InvalidResponseError);
+  });
+});
+
+describe("parseListPostsResponse", () => {
+  test("accepts a bare array", () => {
+    expect(parseListPostsResponse([post])).toEqual({ posts: [post] });
+  });
+
+  test("accepts a paginated envelope", () => {
+    expect(parseListPostsResponse({ posts: [post], total: 1, page: 1, limit: 20 })).toEqual({
+      posts: [post],
+      total: 1,
+      page: 1,
+      limit: 20,
+    });
+  });
+
+  test("rejects responses without posts", () => {
+    expect(() => parseListPostsResponse({ total: 0 })).toThrow(InvalidResponseError);
+  });
+
+  test("rejects invalid posts", () => {
+    expect(() => parseListPostsResponse([post, { slug: "broken" }])).toThrow(
+      'Post "broken"',
+    );
+  });
+});
+
+describe("parseUploadResponse", () => {
+  test("accepts a full response", () => {
+    const upload = { url: "https://cdn/a.png", filename: "a.png", size: 3, type: "image/png" };
+
+    expect(parseUploadResponse(upload)).toEqual(upload);
+  });
+
+  test("only requires a URL", () => {
+    expect(parseUploadResponse({ url: "https://cdn/a.png" })).toEqual({
+      url: "https://cdn/a.png",
+    });
+  });
+
+  test("rejects responses without a URL", () => {
+    expect(() => parseUploadResponse({ filename: "a.png" })).toThrow(
+      'Upload response: "url" must be a string',
+    );
+  });
+});
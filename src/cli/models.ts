@@ -0,0 +1,155 @@
+/**
+ * Runtime validation of API responses, so that the types returned by
+ * My2satsClient can be trusted.
+ */
+
+import { InvalidResponseError } from "./errors";
+import { type ListPostsResponse, type Post, type UploadResponse } from "./types";
+
+/**
+ * Checks that a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a required string field.
+ */
+function requireString(obj: Record<string, unknown>, key: string, context: string): string {
+  const value = obj[key];
+  if (typeof value !== "string") {
+    throw new InvalidResponseError(`${context}: "${key}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Reads an optional string field. Null is treated as missing.
+ */
+function optionalString(
+  obj: Record<string, unknown>,
+  key: string,
+  context: string,
+): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new InvalidResponseError(`${context}: "${key}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Reads an optional non-negative number field. Null is treated as missing.
+ */
+function optionalCount(
+  obj: Record<string, unknown>,
+  key: string,
+  context: string,
+): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !(value >= 0)) {
+    throw new InvalidResponseError(`${context}: "${key}" must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Unwraps a `{ post: ... }` envelope if present.
+ */
+function unwrapPost(data: unknown): unknown {
+  return isRecord(data) && isRecord(data.post) ? data.post : data;
+}
+
+/**
+ * Validates a post returned by the API.
+ * Accepts a bare post or a `{ post }` envelope.
+ *
+ * @throws {InvalidResponseError} If required fields are missing or have the wrong type
+ */
+export function parsePost(data: unknown): Post {
+  const obj = unwrapPost(data);
+  if (!isRecord(obj)) {
+    throw new InvalidResponseError("Post must be an object");
+  }
+
+  const context = typeof obj.slug === "string" ? `Post "${obj.slug}"` : "Post";
+
+  let tags: string[] | undefined;
+  if (obj.tags !== undefined && obj.tags !== null) {
+    if (!Array.isArray(obj.tags) || !obj.tags.every((tag) => typeof tag === "string")) {
+      throw new InvalidResponseError(`${context}: "tags" must be a list of strings`);
+    }
+    tags = obj.tags;
+  }
+
+  const post: Post = {
+    slug: requireString(obj, "slug", context),
+    title: requireString(obj, "title", context),
+    author: requireString(obj, "author", context),
+    content: optionalString(obj, "content", context),
+    excerpt: optionalString(obj, "excerpt", context),
+    featured_image: optionalString(obj, "featured_image", context),
+    tags,
+    word_count: optionalCount(obj, "word_count", context),
+    reading_time: optionalCount(obj, "reading_time", context),
+    pubkey: optionalString(obj, "pubkey", context),
+    created_at: optionalString(obj, "created_at", context),
+    updated_at: optionalString(obj, "updated_at", context),
+  };
+
+  // Drop missing optional fields so results compare and serialize cleanly
+  for (const key of Object.keys(post) as (keyof Post)[]) {
+    if (post[key] === undefined) delete post[key];
+  }
+
+  return post;
+}
+
+/**
+ * Validates a list of posts returned by the API.
+ * Accepts both a bare array and a paginated `{ posts, total, page, limit }` envelope.
+ *
+ * @throws {InvalidResponseError} If the response or any post is invalid
+ */
+export function parseListPostsResponse(data: unknown): ListPostsResponse {
+  if (Array.isArray(data)) {
+    return { posts: data.map(parsePost) };
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.posts)) {
+    throw new InvalidResponseError('Post list must be an array or have a "posts" array');
+  }
+
+  const result: ListPostsResponse = { posts: data.posts.map(parsePost) };
+  for (const key of ["total", "page", "limit"] as const) {
+    if (typeof data[key] === "number") {
+      result[key] = data[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Validates the response of an image upload.
+ *
+ * @throws {InvalidResponseError} If the URL is missing
+ */
+export function parseUploadResponse(data: unknown): UploadResponse {
+  if (!isRecord(data)) {
+    throw new InvalidResponseError("Upload response must be an object");
+  }
+
+  const context = "Upload response";
+  const response: UploadResponse = { url: requireString(data, "url", context) };
+
+  const filename = optionalString(data, "filename", context);
+  if (filename !== undefined) response.filename = filename;
+  if (typeof data.size === "number") response.size = data.size;
+  const type = optionalString(data, "type", context);
+  if (type !== undefined) response.type = type;
+
+  return response;
+}
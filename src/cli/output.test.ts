@@ -0,0 +1,50 @@
+import { test, expect, describe, afterEach, spyOn } from "bun:test";
+import { isJsonOutput, printResult, setOutputOptions } from "./output";
+
+describe("output", () => {
+  afterEach(() => {
+    setOutputOptions({});
+  });
+
+  test("prints text by default", () => {
+    setOutputOptions({});
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    const write = spyOn(process.stdout, "write").mockImplementation(() => true);
+    try {
+      printResult({ slug: "hello" }, "Post created");
+
+      expect(isJsonOutput()).toBe(false);
+      expect(log).toHaveBeenCalledWith("Post created");
+      expect(write).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+      write.mockRestore();
+    }
+  });
+
+  test("prints the result as JSON on stdout with --json", () => {
+    const write = spyOn(process.stdout, "write").mockImplementation(() => true);
+    try {
+      setOutputOptions({ json: true });
+      printResult({ slug: "hello" }, "Post created");
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(String(write.mock.calls[0]![0]))).toEqual({ slug: "hello" });
+    } finally {
+      write.mockRestore();
+    }
+  });
+
+  test("moves progress messages to stderr with --json", () => {
+    const error = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      setOutputOptions({ json: true });
+      console.log("Posting...");
+
+      expect(error).toHaveBeenCalledWith("Posting...");
+    } finally {
+      setOutputOptions({});
+      error.mockRestore();
+    }
+  });
+});
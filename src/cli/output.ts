@@ -0,0 +1,48 @@
+/**
+ * Command output: human-readable text by default, or with the global --json
+ * flag exactly one JSON document on stdout (the result or an error), with
+ * progress messages moved to stderr.
+ */
+
+import { type OutputOptions } from "./types";
+
+const originalLog = console.log;
+const originalInfo = console.info;
+
+let jsonOutput = false;
+
+/**
+ * Sets the output format for the rest of the process.
+ */
+export function setOutputOptions(options: OutputOptions): void {
+  jsonOutput = options.json === true;
+
+  // Whatever is logged along the way is progress, so stdout only gets the result
+  console.log = jsonOutput ? console.error : originalLog;
+  console.info = jsonOutput ? console.error : originalInfo;
+}
+
+/**
+ * Whether the global --json flag is set.
+ */
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Prints a command's result: as JSON with --json, otherwise as `text` (if any).
+ */
+export function printResult(result: unknown, text?: string): void {
+  if (jsonOutput) {
+    writeJson(result);
+  } else if (text !== undefined) {
+    console.log(text);
+  }
+}
+
+/**
+ * Writes a JSON document to stdout, bypassing the console redirect.
+ */
+export function writeJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
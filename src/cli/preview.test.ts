@@ -0,0 +1,125 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileNotFoundError } from "./errors";
+import {
+  escapeHtml,
+  localImageUrl,
+  renderErrorPage,
+  renderPost,
+  rewriteLocalImages,
+  startPreviewServer,
+  type PreviewServer,
+} from "./preview";
+
+describe("renderPost", () => {
+  test("renders the frontmatter above the content", () => {
+    const html = renderPost(
+      {
+        slug: "hello",
+        title: "Hello <World>",
+        author: "Alice",
+        excerpt: "Short",
+        tags: ["a", "b"],
+        featured_image: "./cover.png",
+      },
+      "Some **bold** text.",
+    );
+
+    expect(html).toContain("<title>Hello &lt;World&gt; · Preview</title>");
+    expect(html).toContain("<h1>Hello &lt;World&gt;</h1>");
+    expect(html).toContain('<p class="meta">By Alice · /hello</p>');
+    expect(html).toContain('<p class="excerpt">Short</p>');
+    expect(html).toContain('<ul class="tags"><li>a</li><li>b</li></ul>');
+    expect(html).toContain(`<img class="featured" src="${localImageUrl("./cover.png")}" alt="">`);
+    expect(html).toContain("<p>Some <strong>bold</strong> text.</p>");
+    expect(html).not.toContain("EventSource");
+  });
+
+  test("adds the live reload script when asked to", () => {
+    expect(renderPost({ title: "Hi" }, "Body", true)).toContain('new EventSource("/_events")');
+    expect(renderErrorPage("Bad <yaml>", true)).toContain("Bad &lt;yaml&gt;");
+  });
+
+  test("points local images at the server and keeps remote ones", () => {
+    const content =
+      '![a](./a.png) ![b](https://x.com/b.png) <img src="../c d.png" alt="c">';
+
+    expect(rewriteLocalImages(content)).toBe(
+      '![a](/_local/.%2Fa.png) ![b](https://x.com/b.png) <img src="/_local/..%2Fc%20d.png" alt="c">',
+    );
+  });
+
+  test("escapes HTML", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+  });
+});
+
+describe("startPreviewServer", () => {
+  let tempDir: string;
+  let file: string;
+  let server: PreviewServer | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-preview-"));
+    file = join(tempDir, "post.md");
+    await Bun.write(file, "---\ntitle: Hello\n---\n\n![pic](./pic.png)");
+    await Bun.write(join(tempDir, "pic.png"), "image");
+    await Bun.write(join(tempDir, "secret.txt"), "secret");
+  });
+
+  afterEach(async () => {
+    server?.stop();
+    server = undefined;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("serves the rendered post and the images it references", async () => {
+    server = await startPreviewServer({ filePath: file, port: 0 });
+
+    const page = await fetch(server.url);
+    expect(page.headers.get("Content-Type")).toContain("text/html");
+    expect(await page.text()).toContain("<h1>Hello</h1>");
+
+    const image = await fetch(`${server.url}${localImageUrl("./pic.png")}`);
+    expect(await image.text()).toBe("image");
+
+    const other = await fetch(`${server.url}${localImageUrl("./secret.txt")}`);
+    expect(other.status).toBe(404);
+  });
+
+  test("shows frontmatter errors instead of the post", async () => {
+    await Bun.write(file, "---\ntags: [a\n---\n\nBody");
+    server = await startPreviewServer({ filePath: file, port: 0 });
+
+    const page = await fetch(server.url);
+    expect(page.status).toBe(500);
+    expect(await page.text()).toContain("Invalid frontmatter at line 2");
+  });
+
+  test("tells open pages to reload when the file changes", async () => {
+    server = await startPreviewServer({ filePath: file, port: 0, debounce: 50 });
+    const response = await fetch(`${server.url}/_events`);
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    expect((await reader.read()).value).toBe(": connected\n\n");
+
+    // Give the watcher a moment to start before changing the file
+    await Bun.sleep(100);
+    await Bun.write(file, "---\ntitle: Hello again\n---\n\nBody");
+
+    const timeout = Bun.sleep(5000).then(() => ({ value: "timed out" }));
+    expect((await Promise.race([reader.read(), timeout])).value).toBe("data: reload\n\n");
+    await reader.cancel();
+  });
+
+  test("fails for a missing file", async () => {
+    const missing = join(tempDir, "nope.md");
+
+    await expect(startPreviewServer({ filePath: missing, port: 0 })).rejects.toThrow(
+      FileNotFoundError,
+    );
+  });
+});
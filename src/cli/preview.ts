@@ -0,0 +1,287 @@
+/**
+ * Local preview: renders a markdown post to HTML and serves it on localhost,
+ * reloading the page whenever the post or its images change.
+ */
+
+import { Marked } from "marked";
+import { FileNotFoundError, formatError } from "./errors";
+import { type PostFrontmatter, type PreviewServerOptions } from "./types";
+import {
+  collectLocalImagePaths,
+  getBasePath,
+  isLocalPath,
+  parseFrontmatter,
+  parseImageReferences,
+} from "./utils";
+import { resolveImagePath, watchFiles } from "./watch";
+
+/** Port the preview server listens on by default */
+export const DEFAULT_PREVIEW_PORT = 4000;
+
+/** URL prefix for local images, followed by their path as written in the post */
+const LOCAL_IMAGE_PREFIX = "/_local/";
+
+/** Server-sent events telling the page to reload */
+const EVENTS_PATH = "/_events";
+
+const RELOAD_SCRIPT = `<script>new EventSource("${EVENTS_PATH}").onmessage = () => location.reload();</script>`;
+
+const STYLE = `
+  body { margin: 0; padding: 2rem 1rem; font: 18px/1.6 system-ui, sans-serif; color: #222; background: #fff; }
+  article { max-width: 42rem; margin: 0 auto; }
+  img { max-width: 100%; height: auto; }
+  pre { padding: 1rem; overflow-x: auto; background: #f4f4f4; border-radius: 4px; }
+  code { font-size: 0.9em; }
+  blockquote { margin-left: 0; padding-left: 1rem; border-left: 4px solid #ddd; color: #555; }
+  table { border-collapse: collapse; }
+  th, td { padding: 0.25rem 0.75rem; border: 1px solid #ddd; }
+  .featured { display: block; margin-bottom: 1.5rem; border-radius: 4px; }
+  .meta, .excerpt { color: #666; }
+  .tags { display: flex; flex-wrap: wrap; gap: 0.5rem; padding: 0; list-style: none; }
+  .tags li { padding: 0 0.6rem; font-size: 0.8em; background: #eee; border-radius: 1rem; }
+  .error { padding: 1rem; color: #900; background: #fee; border-radius: 4px; white-space: pre-wrap; }
+`;
+
+const marked = new Marked({ gfm: true });
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Returns the preview server URL of a local image, by its path in the post.
+ */
+export function localImageUrl(path: string): string {
+  return `${LOCAL_IMAGE_PREFIX}${encodeURIComponent(path)}`;
+}
+
+/**
+ * Points local image references in markdown content at the preview server.
+ */
+export function rewriteLocalImages(content: string): string {
+  let result = content;
+  for (const ref of parseImageReferences(content)) {
+    result = result.replace(ref.original, ref.original.replace(ref.path, localImageUrl(ref.path)));
+  }
+  return result;
+}
+
+/**
+ * Wraps a page body in an HTML document.
+ */
+function renderDocument(title: string, body: string, liveReload: boolean): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · Preview</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+${liveReload ? RELOAD_SCRIPT : ""}
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a post as an HTML page, with its title, author, excerpt, tags and
+ * featured image above the content.
+ *
+ * @param liveReload - Reload the page when the server says the post changed
+ */
+export function renderPost(
+  frontmatter: PostFrontmatter,
+  content: string,
+  liveReload = false,
+): string {
+  const title = frontmatter.title || "Untitled";
+  const header: string[] = [];
+
+  const featuredImage = frontmatter.featured_image;
+  if (featuredImage) {
+    const src = isLocalPath(featuredImage) ? localImageUrl(featuredImage) : featuredImage;
+    header.push(`<img class="featured" src="${escapeHtml(src)}" alt="">`);
+  }
+  header.push(`<h1>${escapeHtml(title)}</h1>`);
+
+  const meta = [
+    frontmatter.author && `By ${frontmatter.author}`,
+    frontmatter.slug && `/${frontmatter.slug}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  if (meta) header.push(`<p class="meta">${escapeHtml(meta)}</p>`);
+  if (frontmatter.excerpt) {
+    header.push(`<p class="excerpt">${escapeHtml(frontmatter.excerpt)}</p>`);
+  }
+  if (frontmatter.tags?.length) {
+    const tags = frontmatter.tags.map((tag) => `<li>${escapeHtml(tag)}</li>`).join("");
+    header.push(`<ul class="tags">${tags}</ul>`);
+  }
+
+  const body = marked.parse(rewriteLocalImages(content), { async: false });
+  return renderDocument(
+    title,
+    `<article>\n<header>\n${header.join("\n")}\n</header>\n${body}</article>`,
+    liveReload,
+  );
+}
+
+/**
+ * Renders an error in place of the post, e.g. for malformed frontmatter.
+ */
+export function renderErrorPage(message: string, liveReload = false): string {
+  return renderDocument(
+    "Error",
+    `<article>\n<h1>Can't render this post</h1>\n` +
+      `<pre class="error">${escapeHtml(message)}</pre>\n</article>`,
+    liveReload,
+  );
+}
+
+/**
+ * A running preview server.
+ */
+export interface PreviewServer {
+  url: string;
+  stop(): void;
+}
+
+/**
+ * Serves a rendered post. The file is read on every request, and open pages
+ * reload when it or its local images change.
+ *
+ * @throws {FileNotFoundError} If the markdown file doesn't exist
+ */
+export async function startPreviewServer(options: PreviewServerOptions): Promise<PreviewServer> {
+  const { filePath } = options;
+  if (!(await Bun.file(filePath).exists())) {
+    throw new FileNotFoundError(filePath);
+  }
+
+  const basePath = getBasePath(filePath);
+  const encoder = new TextEncoder();
+  const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+  const send = (message: string) => {
+    for (const client of clients) {
+      try {
+        client.enqueue(encoder.encode(message));
+      } catch {
+        clients.delete(client);
+      }
+    }
+  };
+
+  const readPost = async () => parseFrontmatter(await Bun.file(filePath).text());
+
+  // The markdown file and the images it references right now
+  const watchedPaths = async () => {
+    try {
+      const { frontmatter, content } = await readPost();
+      const images = collectLocalImagePaths(content, frontmatter.featured_image);
+      return [filePath, ...images.map((path) => resolveImagePath(path, basePath))];
+    } catch {
+      return [filePath];
+    }
+  };
+
+  const watcher = watchFiles(
+    [filePath],
+    async () => {
+      watcher.setPaths(await watchedPaths());
+      send("data: reload\n\n");
+    },
+    options.debounce,
+  );
+  watcher.setPaths(await watchedPaths());
+
+  const renderPage = async () => {
+    try {
+      const { frontmatter, content } = await readPost();
+      return html(renderPost(frontmatter, content, true));
+    } catch (error) {
+      return html(renderErrorPage(formatError(error), true), 500);
+    }
+  };
+
+  // Only images the post references are served, so no other files are exposed
+  const serveImage = async (encodedPath: string) => {
+    try {
+      const path = decodeURIComponent(encodedPath);
+      const { frontmatter, content } = await readPost();
+      if (collectLocalImagePaths(content, frontmatter.featured_image).includes(path)) {
+        const file = Bun.file(resolveImagePath(path, basePath));
+        if (await file.exists()) return new Response(file);
+      }
+    } catch {
+      // A malformed path or post has no images to serve
+    }
+    return new Response("Not found", { status: 404 });
+  };
+
+  const openEvents = () => {
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+        clients.add(c);
+        c.enqueue(encoder.encode(": connected\n\n"));
+      },
+      cancel() {
+        clients.delete(controller);
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? DEFAULT_PREVIEW_PORT,
+    hostname: options.hostname,
+    // Event streams stay open while the page is
+    idleTimeout: 0,
+    fetch: (request) => {
+      const { pathname } = new URL(request.url);
+      if (request.method !== "GET") return new Response("Method not allowed", { status: 405 });
+      if (pathname === "/") return renderPage();
+      if (pathname === EVENTS_PATH) return openEvents();
+      if (pathname.startsWith(LOCAL_IMAGE_PREFIX)) {
+        return serveImage(pathname.slice(LOCAL_IMAGE_PREFIX.length));
+      }
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  return {
+    url: server.url.origin,
+    stop: () => {
+      watcher.close();
+      for (const client of clients) {
+        try {
+          client.close();
+        } catch {
+          // Already closed by the page
+        }
+      }
+      clients.clear();
+      server.stop(true);
+    },
+  };
+}
+
+function html(body: string, status = 200): Response {
+  return new Response(body, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
@@ -0,0 +1,268 @@
+import { test, expect, describe } from "bun:test";
+import { finalizeEvent, generateSecretKey, type EventTemplate } from "nostr-tools/pure";
+import { NetworkError } from "./errors";
+import {
+  request,
+  parseRetryAfter,
+  getBackoffDelay,
+  isRetryableStatus,
+} from "./request";
+
+/**
+ * Creates a fake fetch that returns the given responses (or throws the given errors) in order.
+ */
+function fakeFetch(results: (Response | Error)[]) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const result = results[calls.length - 1];
+    if (!result) throw new Error("Unexpected request");
+    if (result instanceof Error) throw result;
+    return result;
+  }) as unknown as typeof fetch;
+  return { fn, calls };
+}
+
+function recordSleep() {
+  const delays: number[] = [];
+  return { sleep: async (ms: number) => void delays.push(ms), delays };
+}
+
+describe("parseRetryAfter", () => {
+  test("parses seconds", () => {
+    expect(parseRetryAfter("5")).toBe(5000);
+  });
+
+  test("parses HTTP dates relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+  });
+
+  test("returns undefined for missing or invalid headers", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  test("grows exponentially", () => {
+    expect(getBackoffDelay(1, () => 1)).toBe(500);
+    expect(getBackoffDelay(2, () => 1)).toBe(1000);
+    expect(getBackoffDelay(3, () => 1)).toBe(2000);
+  });
+
+  test("applies jitter of up to half the delay", () => {
+    expect(getBackoffDelay(2, () => 0)).toBe(500);
+  });
+
+  test("is capped", () => {
+    expect(getBackoffDelay(20, () => 1)).toBe(60_000);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  test("retries transient errors for idempotent requests", () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryableStatus(status, "idempotent")).toBe(true);
+    }
+    expect(isRetryableStatus(400, "idempotent")).toBe(false);
+    expect(isRetryableStatus(404, "idempotent")).toBe(false);
+  });
+
+  test("only retries 429 under the rate-limit policy", () => {
+    expect(isRetryableStatus(429, "rate-limit")).toBe(true);
+    expect(isRetryableStatus(503, "rate-limit")).toBe(false);
+  });
+
+  test("never retries under the none policy", () => {
+    expect(isRetryableStatus(429, "none")).toBe(false);
+  });
+});
+
+describe("request", () => {
+  test("returns the first successful response", async () => {
+    const { fn, calls } = fakeFetch([new Response("ok")]);
+
+    const response = await request("http://api/x", { method: "GET", fetch: fn });
+
+    expect(await response.text()).toBe("ok");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retries transient failures with backoff", async () => {
+    const { fn, calls } = fakeFetch([
+      new Response("", { status: 503 }),
+      new Error("Connection reset"),
+      new Response("ok"),
+    ]);
+    const { sleep, delays } = recordSleep();
+
+    const response = await request("http://api/x", {
+      method: "GET",
+      fetch: fn,
+      sleep,
+      maxAttempts: 3,
+    });
+
+    expect(response.ok).toBe(true);
+    expect(calls).toHaveLength(3);
+    expect(delays).toHaveLength(2);
+  });
+
+  test("honours Retry-After", async () => {
+    const { fn } = fakeFetch([
+      new Response("", { status: 429, headers: { "Retry-After": "7" } }),
+      new Response("ok"),
+    ]);
+    const { sleep, delays } = recordSleep();
+
+    await request("http://api/x", { method: "GET", fetch: fn, sleep });
+
+    expect(delays).toEqual([7000]);
+  });
+
+  test("returns the last response when attempts run out", async () => {
+    const { fn, calls } = fakeFetch([
+      new Response("", { status: 502 }),
+      new Response("", { status: 502 }),
+    ]);
+    const { sleep } = recordSleep();
+
+    const response = await request("http://api/x", {
+      method: "GET",
+      fetch: fn,
+      sleep,
+      maxAttempts: 2,
+    });
+
+    expect(response.status).toBe(502);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("does not retry non-retryable statuses", async () => {
+    const { fn, calls } = fakeFetch([new Response("", { status: 400 })]);
+
+    const response = await request("http://api/x", { method: "GET", fetch: fn });
+
+    expect(response.status).toBe(400);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("only retries 429 under the rate-limit policy", async () => {
+    const { fn, calls } = fakeFetch([new Response("", { status: 503 })]);
+
+    const response = await request("http://api/x", {
+      method: "POST",
+      fetch: fn,
+      retry: "rate-limit",
+    });
+
+    expect(response.status).toBe(503);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("throws NetworkError when the last attempt fails without a response", async () => {
+    const { fn } = fakeFetch([new Error("ECONNRESET"), new Error("ECONNRESET")]);
+    const { sleep } = recordSleep();
+
+    await expect(
+      request("http://api/x", { method: "GET", fetch: fn, sleep, maxAttempts: 2 }),
+    ).rejects.toThrow(new NetworkError("http://api/x", "ECONNRESET"));
+  });
+
+  test("does not retry network errors under the rate-limit policy", async () => {
+    const { fn, calls } = fakeFetch([new Error("ECONNRESET"), new Response("ok")]);
+
+    await expect(
+      request("http://api/x", { method: "POST", fetch: fn, retry: "rate-limit" }),
+    ).rejects.toThrow(NetworkError);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("signs a fresh NIP-98 token for every attempt", async () => {
+    const secretKey = generateSecretKey();
+    let signCount = 0;
+    const sign = async (event: EventTemplate) => {
+      signCount++;
+      return finalizeEvent(event, secretKey);
+    };
+    const { fn, calls } = fakeFetch([
+      new Response("", { status: 503 }),
+      new Response("ok"),
+    ]);
+    const { sleep } = recordSleep();
+
+    await request("http://api/x", { method: "PUT", fetch: fn, sleep, sign });
+
+    expect(signCount).toBe(2);
+    for (const call of calls) {
+      const headers = call.init.headers as Record<string, string>;
+      expect(headers.Authorization).toStartWith("Nostr ");
+    }
+  });
+
+  describe("payload hash", () => {
+    const secretKey = generateSecretKey();
+    const sign = async (event: EventTemplate) => finalizeEvent(event, secretKey);
+
+    function authTags(call: { init: RequestInit } | undefined): string[][] {
+      const headers = call?.init.headers as Record<string, string>;
+      const token = headers.Authorization!.slice("Nostr ".length);
+      return JSON.parse(Buffer.from(token, "base64").toString()).tags;
+    }
+
+    function sha256(bytes: Uint8Array | string): string {
+      return new Bun.CryptoHasher("sha256").update(bytes).digest("hex");
+    }
+
+    test("hashes the exact JSON bytes sent", async () => {
+      const { fn, calls } = fakeFetch([new Response("ok")]);
+      const body = JSON.stringify({ title: "Grüße" });
+
+      await request("http://api/x", { method: "PUT", body, fetch: fn, sign, signPayload: true });
+
+      expect(authTags(calls[0])).toContainEqual(["payload", sha256(body)]);
+      expect(new TextDecoder().decode(calls[0]?.init.body as Uint8Array)).toBe(body);
+    });
+
+    test("hashes multipart bodies and keeps their boundary", async () => {
+      const { fn, calls } = fakeFetch([new Response("ok")]);
+      const formData = new FormData();
+      formData.append("file", new File(["png"], "a.png", { type: "image/png" }));
+
+      await request("http://api/x", {
+        method: "POST",
+        body: formData,
+        fetch: fn,
+        sign,
+        signPayload: true,
+      });
+
+      const sent = calls[0]?.init.body as Uint8Array;
+      const headers = calls[0]?.init.headers as Record<string, string>;
+      expect(authTags(calls[0])).toContainEqual(["payload", sha256(sent)]);
+      expect(headers["Content-Type"]).toStartWith("multipart/form-data; boundary=");
+      expect(new TextDecoder().decode(sent)).toContain(headers["Content-Type"]!.split("=")[1]!);
+    });
+
+    test("is omitted when disabled or without a body", async () => {
+      const { fn, calls } = fakeFetch([new Response("ok"), new Response("ok")]);
+
+      await request("http://api/x", {
+        method: "PUT",
+        body: "{}",
+        fetch: fn,
+        sign,
+        signPayload: false,
+      });
+      await request("http://api/x", { method: "DELETE", fetch: fn, sign, signPayload: true });
+
+      for (const call of calls) {
+        expect(authTags(call).map((tag) => tag[0])).toEqual(["u", "method"]);
+      }
+      expect(calls[0]?.init.body).toBe("{}");
+    });
+  });
+});
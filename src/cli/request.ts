@@ -0,0 +1,231 @@
+/**
+ * Shared HTTP request layer for the API client: NIP-98 signing,
+ * timeouts, and retries with exponential backoff.
+ */
+
+import { HTTPAuth } from "nostr-tools/kinds";
+import { config } from "./config";
+import { NetworkError } from "./errors";
+import { type SignFunction } from "./types";
+
+/**
+ * Which failures a request may be retried on.
+ * - "idempotent": network errors, timeouts, 408, 429 and 5xx gateway/availability errors
+ * - "rate-limit": only 429, which the server rejected before processing
+ * - "none": never retried
+ */
+export type RetryPolicy = "idempotent" | "rate-limit" | "none";
+
+/**
+ * Options for a single API request.
+ */
+export interface RequestOptions {
+  method: string;
+  headers?: Record<string, string>;
+  body?: RequestInit["body"];
+  /** Signs a fresh NIP-98 Authorization header for every attempt */
+  sign?: SignFunction;
+  /** Include a payload hash of the body in the signed event (default from config) */
+  signPayload?: boolean;
+  retry?: RetryPolicy;
+  /** Total number of attempts, including the first (default from config) */
+  maxAttempts?: number;
+  /** Per-attempt timeout in milliseconds (default from config) */
+  timeout?: number;
+  /** Injectable for testing */
+  fetch?: typeof fetch;
+  /** Injectable for testing */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** HTTP statuses worth retrying for idempotent requests */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** Base delay of the exponential backoff, in milliseconds */
+const BASE_DELAY_MS = 500;
+
+/** Upper bound for any single delay, including Retry-After, in milliseconds */
+const MAX_DELAY_MS = 60_000;
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ * Returns undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the backoff delay before a retry: exponential in the attempt
+ * number, with jitter so that concurrent clients don't retry in lockstep.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getBackoffDelay(
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(MAX_DELAY_MS, Math.round(exponential * (0.5 + random() / 2)));
+}
+
+/**
+ * Checks whether a response status may be retried under a policy.
+ */
+export function isRetryableStatus(status: number, policy: RetryPolicy): boolean {
+  switch (policy) {
+    case "idempotent":
+      return RETRYABLE_STATUSES.includes(status);
+    case "rate-limit":
+      return status === 429;
+    case "none":
+      return false;
+  }
+}
+
+/**
+ * Reads a request body into the exact bytes that will be sent, along with the
+ * Content-Type it implies (e.g. the multipart boundary of form data).
+ */
+export async function serializeBody(
+  body: NonNullable<RequestInit["body"]>,
+): Promise<{ bytes: Uint8Array; contentType: string | null }> {
+  const response = new Response(body);
+  // Read the header first: Bun drops it once the body has been consumed
+  const contentType = response.headers.get("Content-Type");
+  return { bytes: new Uint8Array(await response.arrayBuffer()), contentType };
+}
+
+/**
+ * Creates a NIP-98 Authorization header value.
+ * If body bytes are given, the event commits to their SHA-256 in a payload tag.
+ */
+export async function createAuthToken(
+  url: string,
+  method: string,
+  sign: SignFunction,
+  body?: Uint8Array,
+): Promise<string> {
+  const tags = [
+    ["u", url],
+    ["method", method],
+  ];
+  if (body) {
+    tags.push(["payload", new Bun.CryptoHasher("sha256").update(body).digest("hex")]);
+  }
+
+  const event = await sign({
+    kind: HTTPAuth,
+    tags,
+    created_at: Math.floor(Date.now() / 1000),
+    content: "",
+  });
+  return `Nostr ${Buffer.from(JSON.stringify(event)).toString("base64")}`;
+}
+
+/**
+ * Describes a failed fetch for error messages.
+ */
+function describeFetchError(error: unknown, timeout: number): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `timed out after ${timeout}ms`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Sends a request, retrying transient failures according to the retry policy.
+ *
+ * Returns the final response, which may still be unsuccessful if the status
+ * isn't retryable or all attempts were used; callers turn it into an ApiError.
+ *
+ * @throws {NetworkError} If the last attempt failed without a response
+ */
+export async function request(
+  url: string,
+  options: RequestOptions,
+): Promise<Response> {
+  const {
+    method,
+    retry = "idempotent",
+    maxAttempts = config.maxAttempts,
+    timeout = config.requestTimeout,
+    fetch: fetchFn = fetch,
+    sleep = Bun.sleep,
+    signPayload = config.signPayload,
+  } = options;
+
+  const baseHeaders: Record<string, string> = { ...options.headers };
+  let body = options.body;
+  let payload: Uint8Array | undefined;
+
+  // Hash the exact bytes that are sent, so serialize the body once up front
+  if (options.sign && signPayload && body != null) {
+    const serialized = await serializeBody(body);
+    body = payload = serialized.bytes;
+    const hasContentType = Object.keys(baseHeaders).some(
+      (name) => name.toLowerCase() === "content-type",
+    );
+    if (serialized.contentType && !hasContentType) {
+      baseHeaders["Content-Type"] = serialized.contentType;
+    }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const headers: Record<string, string> = { ...baseHeaders };
+    if (options.sign) {
+      headers.Authorization = await createAuthToken(url, method, options.sign, payload);
+    }
+
+    let delay: number;
+    let reason: string;
+
+    try {
+      const response = await fetchFn(url, {
+        method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeout),
+      });
+
+      if (
+        response.ok ||
+        attempt >= maxAttempts ||
+        !isRetryableStatus(response.status, retry)
+      ) {
+        return response;
+      }
+
+      delay =
+        parseRetryAfter(response.headers.get("Retry-After")) ??
+        getBackoffDelay(attempt);
+      reason = `${response.status} ${response.statusText}`.trim();
+    } catch (error) {
+      const message = describeFetchError(error, timeout);
+      if (retry !== "idempotent" || attempt >= maxAttempts) {
+        throw new NetworkError(url, message);
+      }
+
+      delay = getBackoffDelay(attempt);
+      reason = message;
+    }
+
+    delay = Math.min(delay, MAX_DELAY_MS);
+    console.log(
+      `  ${method} ${url} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxAttempts})...`,
+    );
+    await sleep(delay);
+  }
+}
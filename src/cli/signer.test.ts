@@ -0,0 +1,259 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { matchFilter, type Filter } from "nostr-tools/filter";
+import { decrypt, encrypt, getConversationKey } from "nostr-tools/nip44";
+import { parseNostrConnectURI } from "nostr-tools/nip46";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  verifyEvent,
+  type Event,
+  type EventTemplate,
+} from "nostr-tools/pure";
+import { SignerError } from "./errors";
+import { getSigner, parseSignerOption } from "./signer";
+
+const NOSTR_CONNECT_KIND = 24133;
+
+/**
+ * Starts a minimal relay with a NIP-46 remote signer attached to it.
+ * The signer answers connect, get_public_key and sign_event requests for `userKey`.
+ */
+function startRelayWithBunker(userKey: Uint8Array, options: { secret?: string } = {}) {
+  const bunkerKey = generateSecretKey();
+  const bunkerPubkey = getPublicKey(bunkerKey);
+  const subscriptions = new Set<{
+    ws: Bun.ServerWebSocket<unknown>;
+    id: string;
+    filters: Filter[];
+  }>();
+  const requests: string[] = [];
+
+  function broadcast(event: Event) {
+    for (const sub of subscriptions) {
+      if (sub.filters.some((filter) => matchFilter(filter, event))) {
+        sub.ws.send(JSON.stringify(["EVENT", sub.id, event]));
+      }
+    }
+  }
+
+  function respond(clientPubkey: string, response: object) {
+    const conversationKey = getConversationKey(bunkerKey, clientPubkey);
+    broadcast(
+      finalizeEvent(
+        {
+          kind: NOSTR_CONNECT_KIND,
+          created_at: Math.floor(Date.now() / 1000),
+          tags: [["p", clientPubkey]],
+          content: encrypt(JSON.stringify(response), conversationKey),
+        },
+        bunkerKey,
+      ),
+    );
+  }
+
+  function handleRequest(event: Event) {
+    const conversationKey = getConversationKey(bunkerKey, event.pubkey);
+    const { id, method, params } = JSON.parse(decrypt(event.content, conversationKey));
+    requests.push(method);
+
+    switch (method) {
+      case "connect":
+        if (options.secret && params[1] !== options.secret) {
+          return respond(event.pubkey, { id, error: "invalid secret" });
+        }
+        return respond(event.pubkey, { id, result: "ack" });
+      case "get_public_key":
+        return respond(event.pubkey, { id, result: getPublicKey(userKey) });
+      case "sign_event": {
+        const template = JSON.parse(params[0]) as EventTemplate;
+        return respond(event.pubkey, {
+          id,
+          result: JSON.stringify(finalizeEvent(template, userKey)),
+        });
+      }
+      default:
+        return respond(event.pubkey, { id, error: `unsupported method ${method}` });
+    }
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    fetch(request, server) {
+      if (server.upgrade(request)) return;
+      return new Response("relay", { status: 426 });
+    },
+    websocket: {
+      message(ws, message) {
+        const [type, ...rest] = JSON.parse(String(message));
+        if (type === "REQ") {
+          const [id, ...filters] = rest;
+          subscriptions.add({ ws, id, filters });
+          ws.send(JSON.stringify(["EOSE", id]));
+        } else if (type === "CLOSE") {
+          for (const sub of subscriptions) {
+            if (sub.ws === ws && sub.id === rest[0]) subscriptions.delete(sub);
+          }
+        } else if (type === "EVENT") {
+          const event = rest[0] as Event;
+          ws.send(JSON.stringify(["OK", event.id, true, ""]));
+          const isRequest = event.tags.some((tag) => tag[0] === "p" && tag[1] === bunkerPubkey);
+          if (event.kind === NOSTR_CONNECT_KIND && isRequest) {
+            handleRequest(event);
+          }
+        }
+      },
+      close(ws) {
+        for (const sub of subscriptions) {
+          if (sub.ws === ws) subscriptions.delete(sub);
+        }
+      },
+    },
+  });
+
+  const relayUrl = `ws://127.0.0.1:${server.port}`;
+
+  return {
+    relayUrl,
+    bunkerUri: `bunker://${bunkerPubkey}?relay=${encodeURIComponent(relayUrl)}${
+      options.secret ? `&secret=${options.secret}` : ""
+    }`,
+    requests,
+    /** Lets the remote signer accept a nostrconnect:// URI, as if the user scanned it */
+    acceptConnectUri(uri: string) {
+      const { clientPubkey, params } = parseNostrConnectURI(uri);
+      respond(clientPubkey, { id: "pair", result: params.secret });
+    },
+    stop: () => server.stop(true),
+  };
+}
+
+describe("parseSignerOption", () => {
+  test("parses keyfile and nostrconnect", () => {
+    expect(parseSignerOption("keyfile")).toEqual({ type: "keyfile" });
+    expect(parseSignerOption(" nostrconnect ")).toEqual({ type: "nostrconnect" });
+  });
+
+  test("parses bunker URIs and NIP-05 addresses", () => {
+    expect(parseSignerOption("bunker://abc?relay=wss://r")).toEqual({
+      type: "bunker",
+      input: "bunker://abc?relay=wss://r",
+    });
+    expect(parseSignerOption("alice@example.com")).toEqual({
+      type: "bunker",
+      input: "alice@example.com",
+    });
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseSignerOption("nsec1abc")).toThrow(SignerError);
+    expect(() => parseSignerOption("")).toThrow("Invalid signer");
+  });
+});
+
+describe("getSigner with a remote signer", () => {
+  const userKey = generateSecretKey();
+  let relay: ReturnType<typeof startRelayWithBunker>;
+  let tempDir: string;
+  let sessionPath: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-signer-"));
+    sessionPath = join(tempDir, "signer.json");
+  });
+
+  afterEach(async () => {
+    relay?.stop();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("signs NIP-98 events through a bunker:// URI", async () => {
+    relay = startRelayWithBunker(userKey, { secret: "s3cret" });
+
+    const signer = await getSigner({ signer: relay.bunkerUri, sessionPath, timeout: 5000 });
+    try {
+      expect(signer.pubkey).toBe(getPublicKey(userKey));
+
+      const event = await signer.sign({
+        kind: 27235,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [["u", "http://api/api/posts"], ["method", "POST"]],
+        content: "",
+      });
+
+      expect(verifyEvent(event)).toBe(true);
+      expect(event.pubkey).toBe(getPublicKey(userKey));
+      expect(relay.requests).toEqual(["connect", "get_public_key", "sign_event"]);
+    } finally {
+      await signer.close();
+    }
+
+    // The client key is kept private so the signer only approves this machine once
+    expect((await stat(sessionPath)).mode & 0o777).toBe(0o600);
+    expect(await readdir(tempDir)).toEqual(["signer.json"]);
+  });
+
+  test("reuses the client key across connections", async () => {
+    relay = startRelayWithBunker(userKey);
+
+    const first = await getSigner({ signer: relay.bunkerUri, sessionPath, timeout: 5000 });
+    await first.close();
+    const session = await Bun.file(sessionPath).json();
+    const second = await getSigner({ signer: relay.bunkerUri, sessionPath, timeout: 5000 });
+    await second.close();
+
+    expect(await Bun.file(sessionPath).json()).toEqual(session);
+  });
+
+  test("fails when the remote signer rejects the connection", async () => {
+    relay = startRelayWithBunker(userKey, { secret: "right" });
+    const uri = relay.bunkerUri.replace("secret=right", "secret=wrong");
+
+    await expect(getSigner({ signer: uri, sessionPath, timeout: 5000 })).rejects.toThrow(
+      "Remote signer failed to connect: invalid secret",
+    );
+  });
+
+  test("times out when the remote signer doesn't answer", async () => {
+    relay = startRelayWithBunker(userKey);
+    const silent = `bunker://${getPublicKey(generateSecretKey())}?relay=${encodeURIComponent(relay.relayUrl)}`;
+
+    await expect(getSigner({ signer: silent, sessionPath, timeout: 300 })).rejects.toThrow(
+      "didn't respond to connect within 300ms",
+    );
+  });
+
+  test("pairs via nostrconnect and reuses the pairing", async () => {
+    relay = startRelayWithBunker(userKey);
+    const options = { signer: "nostrconnect", sessionPath, relays: [relay.relayUrl], timeout: 5000 };
+
+    let shownUri = "";
+    const signer = await getSigner({
+      ...options,
+      onConnectUri: (uri) => {
+        shownUri = uri;
+        // Give the client a moment to subscribe before the signer answers
+        setTimeout(() => relay.acceptConnectUri(uri), 100);
+      },
+    });
+    await signer.close();
+
+    expect(shownUri).toStartWith("nostrconnect://");
+    expect(signer.pubkey).toBe(getPublicKey(userKey));
+    expect((await Bun.file(sessionPath).json()).bunker).toStartWith("bunker://");
+
+    // The second run talks to the paired signer without showing a new URI
+    const again = await getSigner({
+      ...options,
+      onConnectUri: () => {
+        throw new Error("Unexpected pairing");
+      },
+    });
+    await again.close();
+    expect(again.pubkey).toBe(getPublicKey(userKey));
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Signers for NIP-98 auth events: the local keyfile, or a NIP-46 remote
+ * signer ("bunker") so that the secret key never touches this machine.
+ */
+
+import { chmod, mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  BunkerSigner,
+  createNostrConnectURI,
+  parseBunkerInput,
+  toBunkerURL,
+  type BunkerPointer,
+} from "nostr-tools/nip46";
+import { SimplePool } from "nostr-tools/pool";
+import { generateSecretKey, getPublicKey } from "nostr-tools/pure";
+import { getAgentSigner } from "./agent";
+import { config } from "./config";
+import { createSignFunction, getSecretKey } from "./crypto";
+import { SignerError } from "./errors";
+import {
+  type GetSignerOptions,
+  type Signer,
+  type SignerSession,
+  type SignerSpec,
+} from "./types";
+
+/**
+ * Parses the value of the --signer option.
+ *
+ * @throws {SignerError} If the value isn't a known signer
+ */
+export function parseSignerOption(value: string): SignerSpec {
+  const trimmed = value.trim();
+
+  if (trimmed === "keyfile") return { type: "keyfile" };
+  if (trimmed === "nostrconnect") return { type: "nostrconnect" };
+  if (trimmed.startsWith("bunker://") || /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(trimmed)) {
+    return { type: "bunker", input: trimmed };
+  }
+
+  throw new SignerError(
+    `Invalid signer: ${value}. Expected "keyfile", "nostrconnect", a bunker:// URI or a NIP-05 address.`,
+  );
+}
+
+/**
+ * Rejects with a SignerError if a remote signer doesn't answer in time.
+ */
+async function withTimeout<T>(promise: Promise<T>, timeout: number, action: string): Promise<T> {
+  let timer: Timer | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new SignerError(`Remote signer didn't respond to ${action} within ${timeout}ms`)),
+      timeout,
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timedOut]);
+  } catch (error) {
+    if (error instanceof SignerError) throw error;
+    // nostr-tools rejects with the signer's error string
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SignerError(`Remote signer failed to ${action}: ${reason}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Loads the remote signer session, creating a client key if there is none yet.
+ */
+async function loadSession(path: string): Promise<SignerSession> {
+  const file = Bun.file(path);
+  if (await file.exists()) {
+    const session = (await file.json()) as Partial<SignerSession>;
+    const key = session.clientSecretKey;
+    if (typeof key === "string" && /^[0-9a-f]{64}$/.test(key)) {
+      return { clientSecretKey: key, bunker: session.bunker };
+    }
+  }
+  return { clientSecretKey: bytesToHex(generateSecretKey()) };
+}
+
+/**
+ * Saves the remote signer session, readable only by the current user.
+ * It holds the client secret, so it is never readable by others, even briefly:
+ * a temporary file is created with restricted permissions and renamed over it.
+ */
+async function saveSession(path: string, session: SignerSession): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+
+  const tempPath = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(session, null, 2) + "\n", { mode: 0o600 });
+    await chmod(tempPath, 0o600);
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Wraps a connected bunker as a Signer.
+ */
+async function toSigner(
+  bunker: BunkerSigner,
+  pool: SimplePool,
+  timeout: number,
+): Promise<Signer> {
+  const close = async () => {
+    await bunker.close();
+    pool.destroy();
+  };
+
+  try {
+    const pubkey = await withTimeout(bunker.getPublicKey(), timeout, "get the public key");
+    return {
+      pubkey,
+      sign: (event) => withTimeout(bunker.signEvent(event), timeout, "sign an event"),
+      close,
+    };
+  } catch (error) {
+    await close();
+    throw error;
+  }
+}
+
+/**
+ * Connects to a remote signer given as a bunker:// URI or NIP-05 address.
+ * A signer we're already paired with is used without a new connect request.
+ */
+async function connectBunker(
+  pointer: BunkerPointer,
+  clientSecretKey: Uint8Array,
+  timeout: number,
+  paired = false,
+): Promise<Signer> {
+  const pool = new SimplePool();
+  const bunker = BunkerSigner.fromBunker(clientSecretKey, pointer, {
+    pool,
+    onauth: (url) => console.log(`Approve the connection in your remote signer: ${url}`),
+  });
+
+  try {
+    if (!paired) {
+      await withTimeout(bunker.connect(), timeout, "connect");
+    }
+  } catch (error) {
+    await bunker.close();
+    pool.destroy();
+    throw error;
+  }
+
+  return toSigner(bunker, pool, timeout);
+}
+
+/**
+ * Pairs with a remote signer by showing a nostrconnect URI and waiting for it to connect.
+ */
+async function pairNostrConnect(
+  clientSecretKey: Uint8Array,
+  relays: readonly string[],
+  timeout: number,
+  onConnectUri: (uri: string) => void,
+): Promise<{ signer: Signer; pointer: BunkerPointer }> {
+  const uri = createNostrConnectURI({
+    clientPubkey: getPublicKey(clientSecretKey),
+    relays: [...relays],
+    secret: bytesToHex(generateSecretKey()).slice(0, 16),
+    perms: ["sign_event:27235"],
+    name: "my2sats",
+  });
+  onConnectUri(uri);
+
+  const pool = new SimplePool();
+  let bunker: BunkerSigner;
+  try {
+    bunker = await withTimeout(
+      BunkerSigner.fromURI(clientSecretKey, uri, { pool }, timeout),
+      timeout,
+      "pair",
+    );
+  } catch (error) {
+    pool.destroy();
+    throw error;
+  }
+
+  return { signer: await toSigner(bunker, pool, timeout), pointer: bunker.bp };
+}
+
+/**
+ * Resolves the signer selected by --signer or the config.
+ *
+ * - "keyfile" uses the key agent if it holds the keyfile's key, or decrypts
+ *   the keyfile (prompting for its password)
+ * - a bunker:// URI or NIP-05 address connects to that NIP-46 remote signer
+ * - "nostrconnect" reuses the last nostrconnect pairing, or pairs a new remote signer
+ *
+ * Remote signers are reached with a client key stored in the signer session,
+ * so that a signer only needs to approve this machine once.
+ *
+ * @throws {SignerError} If the signer is invalid or the remote signer fails
+ */
+export async function getSigner(options: GetSignerOptions = {}): Promise<Signer> {
+  const spec = parseSignerOption(options.signer ?? config.signer);
+
+  if (spec.type === "keyfile") {
+    const keyfile = options.keyfile ?? config.keyfilePath;
+    const agent = await getAgentSigner(keyfile, options.agentSocketPath);
+    if (agent) return agent;
+
+    const secretKey = await getSecretKey(keyfile);
+    return {
+      pubkey: getPublicKey(secretKey),
+      sign: createSignFunction(secretKey),
+      close: async () => {},
+    };
+  }
+
+  const sessionPath = options.sessionPath ?? config.signerSessionPath;
+  const timeout = options.timeout ?? config.signerTimeout;
+  const session = await loadSession(sessionPath);
+  const clientSecretKey = hexToBytes(session.clientSecretKey);
+
+  if (spec.type === "bunker") {
+    const pointer = await parseBunkerInput(spec.input);
+    if (!pointer) {
+      throw new SignerError(`Invalid bunker URI or NIP-05 address: ${spec.input}`);
+    }
+    await saveSession(sessionPath, session);
+    return connectBunker(pointer, clientSecretKey, timeout);
+  }
+
+  if (session.bunker) {
+    const pointer = await parseBunkerInput(session.bunker);
+    if (pointer) {
+      return connectBunker(pointer, clientSecretKey, timeout, true);
+    }
+  }
+
+  const { signer, pointer } = await pairNostrConnect(
+    clientSecretKey,
+    options.relays ?? config.signerRelays,
+    timeout,
+    options.onConnectUri ??
+      ((uri) => {
+        console.log("Open this URI in your remote signer to connect:");
+        console.log(uri);
+      }),
+  );
+  await saveSession(sessionPath, { ...session, bunker: toBunkerURL(pointer) });
+  return signer;
+}
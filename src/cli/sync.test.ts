@@ -0,0 +1,219 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { mkdtemp, mkdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { ValidationError } from "./errors";
+import {
+  buildSyncPlan,
+  createManifest,
+  formatSyncPlan,
+  hashPost,
+  loadManifest,
+  saveManifest,
+  scanPosts,
+} from "./sync";
+import { type LocalPost, type SyncManifest } from "./types";
+
+function localPost(slug: string, file = `${slug}.md`, hash = `hash-${slug}`): LocalPost {
+  return {
+    file,
+    hash,
+    payload: { slug, title: slug, author: "Author", content: "Content" },
+  };
+}
+
+function manifestWith(posts: SyncManifest["posts"]): SyncManifest {
+  return { ...createManifest("http://localhost:3000"), posts };
+}
+
+const syncedAt = "2024-01-01T00:00:00.000Z";
+
+describe("buildSyncPlan", () => {
+  test("creates posts that don't exist remotely", () => {
+    const post = localPost("new-post");
+
+    const plan = buildSyncPlan([post], new Set(), manifestWith({}));
+
+    expect(plan).toEqual([{ type: "create", post }]);
+  });
+
+  test("skips posts whose hash matches the manifest", () => {
+    const post = localPost("same");
+    const manifest = manifestWith({
+      same: { file: "same.md", hash: "hash-same", syncedAt },
+    });
+
+    const plan = buildSyncPlan([post], new Set(["same"]), manifest);
+
+    expect(plan).toEqual([{ type: "unchanged", post }]);
+  });
+
+  test("updates posts whose hash changed", () => {
+    const post = localPost("changed");
+    const manifest = manifestWith({
+      changed: { file: "changed.md", hash: "old-hash", syncedAt },
+    });
+
+    const plan = buildSyncPlan([post], new Set(["changed"]), manifest);
+
+    expect(plan).toEqual([{ type: "update", post, remoteSlug: "changed" }]);
+  });
+
+  test("updates remote posts missing from the manifest", () => {
+    const post = localPost("untracked");
+
+    const plan = buildSyncPlan([post], new Set(["untracked"]), manifestWith({}));
+
+    expect(plan).toEqual([{ type: "update", post, remoteSlug: "untracked" }]);
+  });
+
+  test("treats a changed slug in the same file as a rename", () => {
+    const post = localPost("new-slug", "post.md");
+    const manifest = manifestWith({
+      "old-slug": { file: "post.md", hash: "old-hash", syncedAt },
+    });
+
+    const plan = buildSyncPlan([post], new Set(["old-slug"]), manifest);
+
+    expect(plan).toEqual([{ type: "update", post, remoteSlug: "old-slug" }]);
+  });
+
+  test("deletes tracked posts whose files were removed", () => {
+    const manifest = manifestWith({
+      gone: { file: "gone.md", hash: "hash", syncedAt },
+    });
+
+    const plan = buildSyncPlan([], new Set(["gone", "untracked"]), manifest);
+
+    expect(plan).toEqual([{ type: "delete", slug: "gone", file: "gone.md" }]);
+  });
+
+  test("does not delete when prune is disabled", () => {
+    const manifest = manifestWith({
+      gone: { file: "gone.md", hash: "hash", syncedAt },
+    });
+
+    const plan = buildSyncPlan([], new Set(["gone"]), manifest, false);
+
+    expect(plan).toEqual([]);
+  });
+});
+
+describe("formatSyncPlan", () => {
+  test("formats each action type", () => {
+    const output = formatSyncPlan([
+      { type: "create", post: localPost("a") },
+      { type: "update", post: localPost("b"), remoteSlug: "b" },
+      { type: "update", post: localPost("c2", "c.md"), remoteSlug: "c" },
+      { type: "delete", slug: "d", file: "d.md" },
+      { type: "unchanged", post: localPost("e") },
+    ]);
+
+    expect(output.split("\n")).toEqual([
+      "  + create  a  (a.md)",
+      "  ~ update  b  (b.md)",
+      "  ~ update  c -> c2  (c.md)",
+      "  - delete  d  (d.md)",
+      "    skip    e  (e.md)",
+    ]);
+  });
+});
+
+describe("filesystem", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-sync-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("hashPost", () => {
+    test("changes when a referenced image changes", async () => {
+      await Bun.write(join(tempDir, "image.png"), "one");
+      const before = await hashPost("markdown", ["./image.png"], tempDir);
+
+      await Bun.write(join(tempDir, "image.png"), "two");
+      const after = await hashPost("markdown", ["./image.png"], tempDir);
+
+      expect(after).not.toBe(before);
+    });
+
+    test("is stable for the same input", async () => {
+      const first = await hashPost("markdown", [], tempDir);
+      const second = await hashPost("markdown", [], tempDir);
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe("scanPosts", () => {
+    test("finds markdown posts recursively and skips files without frontmatter", async () => {
+      await mkdir(join(tempDir, "nested"));
+      await Bun.write(
+        join(tempDir, "nested", "post.md"),
+        "---\nslug: nested\ntitle: Nested\nauthor: A\n---\nBody",
+      );
+      await Bun.write(join(tempDir, "README.md"), "# Not a post");
+
+      const posts = await scanPosts(tempDir);
+
+      expect(posts).toHaveLength(1);
+      expect(posts[0]?.file).toBe(join("nested", "post.md"));
+      expect(posts[0]?.payload.slug).toBe("nested");
+    });
+
+    test("reports the file when required fields are missing", async () => {
+      await Bun.write(join(tempDir, "bad.md"), "---\nslug: bad\n---\nBody");
+
+      await expect(scanPosts(tempDir)).rejects.toThrow(
+        "bad.md: Missing required fields: title, author",
+      );
+    });
+
+    test("rejects duplicate slugs", async () => {
+      const markdown = "---\nslug: same\ntitle: T\nauthor: A\n---\nBody";
+      await Bun.write(join(tempDir, "a.md"), markdown);
+      await Bun.write(join(tempDir, "b.md"), markdown);
+
+      await expect(scanPosts(tempDir)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("manifest", () => {
+    test("returns an empty manifest when the file doesn't exist", async () => {
+      const manifest = await loadManifest(join(tempDir, "missing.json"), "http://api");
+
+      expect(manifest).toEqual({ version: 1, apiUrl: "http://api", posts: {} });
+    });
+
+    test("round-trips through saveManifest", async () => {
+      const path = join(tempDir, "manifest.json");
+      const manifest: SyncManifest = {
+        version: 1,
+        apiUrl: "http://api",
+        posts: { a: { file: "a.md", hash: "h", syncedAt } },
+      };
+
+      await saveManifest(path, manifest);
+
+      expect(await loadManifest(path, "http://api")).toEqual(manifest);
+    });
+
+    test("ignores a manifest for a different API URL", async () => {
+      const path = join(tempDir, "manifest.json");
+      await saveManifest(path, {
+        version: 1,
+        apiUrl: "http://other",
+        posts: { a: { file: "a.md", hash: "h", syncedAt } },
+      });
+
+      const manifest = await loadManifest(path, "http://api");
+
+      expect(manifest.posts).toEqual({});
+    });
+  });
+});
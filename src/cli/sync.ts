@@ -0,0 +1,223 @@
+/**
+ * Directory sync: scanning local posts, tracking state in a manifest
+ * and planning the API calls needed to reconcile them with the server.
+ */
+
+import { relative, join } from "node:path";
+import { ValidationError } from "./errors";
+import {
+  type LocalPost,
+  type SyncAction,
+  type SyncManifest,
+} from "./types";
+import {
+  parseFrontmatter,
+  buildPostPayload,
+  collectLocalImagePaths,
+  getBasePath,
+} from "./utils";
+
+/** Default manifest file name, stored inside the synced directory */
+export const DEFAULT_MANIFEST_NAME = ".my2sats-sync.json";
+
+/**
+ * Creates an empty manifest for an API URL.
+ */
+export function createManifest(apiUrl: string): SyncManifest {
+  return { version: 1, apiUrl, posts: {} };
+}
+
+/**
+ * Loads a sync manifest.
+ * Returns an empty manifest if the file doesn't exist or belongs to another API URL.
+ */
+export async function loadManifest(
+  manifestPath: string,
+  apiUrl: string,
+): Promise<SyncManifest> {
+  const file = Bun.file(manifestPath);
+  if (!(await file.exists())) {
+    return createManifest(apiUrl);
+  }
+
+  const data = (await file.json()) as Partial<SyncManifest>;
+  if (data.version !== 1 || data.apiUrl !== apiUrl || !data.posts) {
+    return createManifest(apiUrl);
+  }
+
+  return { version: 1, apiUrl, posts: data.posts };
+}
+
+/**
+ * Writes a sync manifest to disk.
+ */
+export async function saveManifest(
+  manifestPath: string,
+  manifest: SyncManifest,
+): Promise<void> {
+  await Bun.write(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * Hashes a markdown file together with the local images it references,
+ * so that changing only an image still marks the post as changed.
+ */
+export async function hashPost(
+  markdown: string,
+  imagePaths: string[],
+  basePath: string,
+): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(markdown);
+
+  for (const imagePath of [...new Set(imagePaths)].sort()) {
+    const fullPath = imagePath.startsWith("/")
+      ? imagePath
+      : `${basePath}/${imagePath}`;
+    const file = Bun.file(fullPath);
+
+    hasher.update(`\0${imagePath}\0`);
+    if (await file.exists()) {
+      hasher.update(await file.arrayBuffer());
+    }
+  }
+
+  return hasher.digest("hex");
+}
+
+/**
+ * Scans a directory recursively for markdown posts.
+ * Files without frontmatter are skipped.
+ *
+ * @throws {ValidationError} If a post is missing required fields or two files share a slug
+ */
+export async function scanPosts(dir: string): Promise<LocalPost[]> {
+  const glob = new Bun.Glob("**/*.md");
+  const posts: LocalPost[] = [];
+  const files = new Map<string, string>(); // slug -> file
+
+  for await (const path of glob.scan({ cwd: dir, onlyFiles: true })) {
+    const fullPath = join(dir, path);
+    const markdown = await Bun.file(fullPath).text();
+    const { frontmatter, content } = parseFrontmatter(markdown);
+
+    if (Object.keys(frontmatter).length === 0) {
+      continue;
+    }
+
+    let payload;
+    try {
+      payload = buildPostPayload(frontmatter, content);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(error.fields, `${path}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const existing = files.get(payload.slug);
+    if (existing) {
+      throw new ValidationError(
+        ["slug"],
+        `Duplicate slug "${payload.slug}" in ${existing} and ${path}`,
+      );
+    }
+    files.set(payload.slug, path);
+
+    const imagePaths = collectLocalImagePaths(content, frontmatter.featured_image);
+
+    posts.push({
+      file: relative(dir, fullPath),
+      hash: await hashPost(markdown, imagePaths, getBasePath(fullPath)),
+      payload,
+    });
+  }
+
+  return posts.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Works out which posts need to be created, updated or deleted.
+ *
+ * Only posts tracked in the manifest are ever deleted, so posts published
+ * from elsewhere are left alone. A file whose slug changed since the last
+ * sync is treated as a rename of the old post.
+ *
+ * @param remoteSlugs - Slugs of the posts that currently exist on the server
+ * @param prune - Whether to delete tracked posts whose files were removed
+ */
+export function buildSyncPlan(
+  localPosts: LocalPost[],
+  remoteSlugs: Set<string>,
+  manifest: SyncManifest,
+  prune = true,
+): SyncAction[] {
+  const actions: SyncAction[] = [];
+  const localSlugs = new Set(localPosts.map((post) => post.payload.slug));
+  const renamedSlugs = new Set<string>();
+
+  const slugByFile = new Map<string, string>();
+  for (const [slug, entry] of Object.entries(manifest.posts)) {
+    slugByFile.set(entry.file, slug);
+  }
+
+  for (const post of localPosts) {
+    const slug = post.payload.slug;
+    const entry = manifest.posts[slug];
+
+    if (remoteSlugs.has(slug)) {
+      if (entry && entry.hash === post.hash && entry.file === post.file) {
+        actions.push({ type: "unchanged", post });
+      } else {
+        actions.push({ type: "update", post, remoteSlug: slug });
+      }
+      continue;
+    }
+
+    const previousSlug = slugByFile.get(post.file);
+    if (
+      previousSlug &&
+      previousSlug !== slug &&
+      remoteSlugs.has(previousSlug) &&
+      !localSlugs.has(previousSlug)
+    ) {
+      renamedSlugs.add(previousSlug);
+      actions.push({ type: "update", post, remoteSlug: previousSlug });
+      continue;
+    }
+
+    actions.push({ type: "create", post });
+  }
+
+  if (prune) {
+    for (const [slug, entry] of Object.entries(manifest.posts)) {
+      if (!localSlugs.has(slug) && !renamedSlugs.has(slug) && remoteSlugs.has(slug)) {
+        actions.push({ type: "delete", slug, file: entry.file });
+      }
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Formats a sync plan as human-readable lines.
+ */
+export function formatSyncPlan(actions: SyncAction[]): string {
+  return actions
+    .map((action) => {
+      switch (action.type) {
+        case "create":
+          return `  + create  ${action.post.payload.slug}  (${action.post.file})`;
+        case "update":
+          return action.remoteSlug === action.post.payload.slug
+            ? `  ~ update  ${action.remoteSlug}  (${action.post.file})`
+            : `  ~ update  ${action.remoteSlug} -> ${action.post.payload.slug}  (${action.post.file})`;
+        case "delete":
+          return `  - delete  ${action.slug}  (${action.file})`;
+        case "unchanged":
+          return `    skip    ${action.post.payload.slug}  (${action.post.file})`;
+      }
+    })
+    .join("\n");
+}
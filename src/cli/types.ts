@@ -3,6 +3,8 @@
  */
 
 import { type finalizeEvent, type EventTemplate } from "nostr-tools/pure";
+import { type My2satsClient } from "./api-client";
+import { type LintRule, type LintSeverity } from "./config";
 
 /**
  * Frontmatter parsed from a markdown file.
@@ -27,6 +29,9 @@ export interface PostPayload {
   excerpt?: string;
   featured_image?: string;
   tags?: string[];
+  word_count?: number;
+  /** Estimated reading time in minutes */
+  reading_time?: number;
 }
 
 /**
@@ -40,6 +45,51 @@ export interface UpdatePayload {
   featured_image?: string;
   author?: string;
   tags?: string[];
+  word_count?: number;
+  /** Estimated reading time in minutes */
+  reading_time?: number;
+}
+
+/**
+ * A post as returned by the API.
+ */
+export interface Post {
+  slug: string;
+  title: string;
+  content?: string;
+  author: string;
+  excerpt?: string;
+  featured_image?: string;
+  tags?: string[];
+  word_count?: number;
+  /** Estimated reading time in minutes */
+  reading_time?: number;
+  pubkey?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Query parameters for listing posts.
+ */
+export interface ListPostsQuery {
+  tag?: string;
+  author?: string;
+  pubkey?: string;
+  page?: number;
+  limit?: number;
+  sort?: string;
+  order?: "asc" | "desc";
+}
+
+/**
+ * Response from the list posts API.
+ */
+export interface ListPostsResponse {
+  posts: Post[];
+  total?: number;
+  page?: number;
+  limit?: number;
 }
 
 /**
@@ -52,14 +102,287 @@ export interface ImageReference {
   path: string;
 }
 
+/**
+ * A local image that passed validation and can be uploaded.
+ */
+export interface LocalImage {
+  /** Path as written in the markdown (e.g., "./image.png") */
+  path: string;
+  /** Path resolved relative to the markdown file */
+  fullPath: string;
+  size: number;
+  type: string;
+}
+
+/**
+ * Options for deriving missing post fields.
+ */
+export interface AutoFieldsOptions {
+  /** Checks derived slugs against this server and numbers taken ones */
+  client?: My2satsClient;
+  /** Whether to derive a missing slug (default true) */
+  slug?: boolean;
+  /** Maximum excerpt length in characters (default from config) */
+  excerptLength?: number;
+}
+
+/**
+ * Word count and reading time of a post's content, as sent to the API.
+ */
+export interface ContentStats {
+  word_count: number;
+  /** Estimated reading time in minutes */
+  reading_time: number;
+}
+
+/**
+ * Options for processing and uploading local images.
+ */
+export interface ProcessImagesOptions {
+  /** Reuse previously uploaded images from the upload cache (default true) */
+  useCache?: boolean;
+  /** Resize and re-encode images before upload (default from config) */
+  optimize?: boolean;
+  /** Maximum number of simultaneous uploads (default from config) */
+  concurrency?: number;
+  /**
+   * Uploads made earlier in this process, used when the upload cache is off
+   * so a long-running command doesn't upload the same image twice
+   */
+  sessionCache?: UploadCache;
+}
+
 /**
  * Response from the image upload API.
  */
 export interface UploadResponse {
   url: string;
-  filename: string;
+  filename?: string;
+  size?: number;
+  type?: string;
+}
+
+/**
+ * A previously uploaded image, stored in the upload cache.
+ */
+export interface UploadCacheEntry {
+  url: string;
   size: number;
-  type: string;
+  uploadedAt: string;
+}
+
+/**
+ * Content-addressed cache of uploaded images.
+ * Entries are keyed by API URL, then by the SHA-256 of the file contents.
+ */
+export interface UploadCache {
+  version: 1;
+  uploads: Record<string, Record<string, UploadCacheEntry>>;
+}
+
+/**
+ * Sync state for a single post, keyed by slug in the manifest.
+ */
+export interface SyncManifestEntry {
+  /** Path of the markdown file, relative to the synced directory */
+  file: string;
+  /** Content hash of the file and its local images at the last sync */
+  hash: string;
+  /** ISO timestamp of the last successful sync */
+  syncedAt: string;
+}
+
+/**
+ * Local manifest recording the state of a synced directory.
+ */
+export interface SyncManifest {
+  version: 1;
+  apiUrl: string;
+  posts: Record<string, SyncManifestEntry>;
+}
+
+/**
+ * A markdown post found while scanning a directory for sync.
+ */
+export interface LocalPost {
+  /** Path of the markdown file, relative to the synced directory */
+  file: string;
+  hash: string;
+  payload: PostPayload;
+}
+
+/**
+ * A single step of a sync plan.
+ */
+export type SyncAction =
+  | { type: "create"; post: LocalPost }
+  | { type: "update"; post: LocalPost; remoteSlug: string }
+  | { type: "delete"; slug: string; file: string }
+  | { type: "unchanged"; post: LocalPost };
+
+/**
+ * Platforms whose exports or content directories can be imported.
+ */
+export type ImportFormat = "ghost" | "wordpress" | "jekyll" | "hugo";
+
+/**
+ * A post read from an import source, converted to markdown.
+ */
+export interface ImportedPost {
+  /** Identifies the post in its source, to track progress: the post ID or file path */
+  id: string;
+  frontmatter: PostFrontmatter;
+  content: string;
+  /** Directory that relative media paths resolve against */
+  basePath: string;
+  /** Directory that root-relative media paths (/images/a.png) resolve against */
+  mediaRoot?: string;
+  /** Not published in the source: a draft, scheduled or private post */
+  draft: boolean;
+}
+
+/**
+ * Options for reading an import source.
+ */
+export interface ImportReadOptions {
+  /** Address of a Ghost blog, for the __GHOST_URL__ placeholder in its links */
+  siteUrl?: string;
+  /** Jekyll/Hugo directory that root-relative media paths resolve against */
+  staticDir?: string;
+}
+
+/**
+ * Import state for a single post, keyed by its source ID in the progress file.
+ */
+export interface ImportProgressEntry {
+  slug: string;
+  /** ISO timestamp of the import */
+  importedAt: string;
+}
+
+/**
+ * Local progress file recording which posts of a source were imported.
+ */
+export interface ImportProgress {
+  version: 1;
+  apiUrl: string;
+  posts: Record<string, ImportProgressEntry>;
+}
+
+/**
+ * What an import does with a post.
+ */
+export type ImportAction =
+  | { type: "import"; post: ImportedPost; payload: PostPayload }
+  | { type: "imported"; post: ImportedPost; slug: string }
+  | { type: "exists"; post: ImportedPost; payload: PostPayload }
+  | { type: "draft"; post: ImportedPost }
+  | { type: "invalid"; post: ImportedPost; reason: string };
+
+/**
+ * A post that failed to import.
+ */
+export interface ImportFailure {
+  id: string;
+  slug?: string;
+  error: string;
+}
+
+/**
+ * A post in an export manifest, keyed by slug.
+ */
+export interface ExportManifestPost {
+  /** Path of the markdown file, relative to the export directory */
+  file: string;
+  /** API URL the post was read from */
+  url: string;
+  createdAt?: string;
+  updatedAt?: string;
+  /** Original URLs of the images the post references */
+  images: string[];
+}
+
+/**
+ * A downloaded image in an export manifest, keyed by its original URL.
+ */
+export interface ExportManifestAsset {
+  /** Path of the image, relative to the export directory */
+  file: string;
+  /** ISO timestamp of the download */
+  downloadedAt: string;
+}
+
+/**
+ * Manifest written next to an export, recording where everything came from.
+ */
+export interface ExportManifest {
+  version: 1;
+  apiUrl: string;
+  pubkey: string;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  posts: Record<string, ExportManifestPost>;
+  assets: Record<string, ExportManifestAsset>;
+}
+
+/**
+ * An image that failed to download during an export.
+ */
+export interface ExportFailure {
+  url: string;
+  /** Slug of the first post referencing the image */
+  slug: string;
+  error: string;
+}
+
+/**
+ * The state of a markdown post at one point in time, for watch mode.
+ */
+export interface PostSnapshot {
+  frontmatter: PostFrontmatter;
+  content: string;
+  /** Content hash of each referenced local image by path, "" if it's missing */
+  images: Record<string, string>;
+}
+
+/**
+ * What changed between two snapshots of a post.
+ */
+export interface PostChanges {
+  /** Frontmatter fields with a new value; featured_image also if its file changed */
+  fields: (keyof PostFrontmatter)[];
+  /** Whether the content or an image it references changed */
+  content: boolean;
+  /** Local images that are new or changed */
+  images: string[];
+}
+
+/**
+ * A problem found by the markdown linter.
+ */
+export interface LintDiagnostic {
+  /** Path of the markdown file, as given */
+  file: string;
+  /** 1-based line in the markdown file */
+  line: number;
+  column?: number;
+  rule: LintRule;
+  severity: Exclude<LintSeverity, "off">;
+  message: string;
+}
+
+/**
+ * Options for linting a markdown post.
+ */
+export interface LintOptions {
+  /** Severity of each rule (default from config) */
+  rules?: Readonly<Record<LintRule, LintSeverity>>;
+  /** Whether slug, title and author must be set, as for a new post (default true) */
+  requireFields?: boolean;
+  /** A missing slug and excerpt will be derived, so they aren't reported */
+  autoFields?: boolean;
+  /** Images will be optimized, so only their existence is checked (default from config) */
+  optimize?: boolean;
 }
 
 /**
@@ -69,23 +392,152 @@ export type SignFunction = (
   event: EventTemplate,
 ) => Promise<ReturnType<typeof finalizeEvent>>;
 
+/**
+ * A source of signatures for NIP-98 auth events.
+ */
+export interface Signer {
+  pubkey: string;
+  sign: SignFunction;
+  /** Releases connections to a remote signer */
+  close(): Promise<void>;
+}
+
+/**
+ * Parsed value of the --signer option.
+ */
+export type SignerSpec =
+  | { type: "keyfile" }
+  | { type: "bunker"; input: string }
+  | { type: "nostrconnect" };
+
+/**
+ * Persisted state of remote signing.
+ */
+export interface SignerSession {
+  /** Hex secret key the CLI uses to talk to remote signers (not the user's key) */
+  clientSecretKey: string;
+  /** bunker:// URI of the signer paired via nostrconnect */
+  bunker?: string;
+}
+
+/**
+ * Request to the key agent, sent as one line of JSON.
+ */
+export type AgentRequest =
+  | { method: "status" }
+  | { method: "sign"; event: EventTemplate }
+  | { method: "stop" };
+
+/**
+ * Response of the key agent, sent as one line of JSON.
+ */
+export type AgentResponse = { result: unknown } | { error: string };
+
+/**
+ * What the key agent reports about itself.
+ */
+export interface AgentStatus {
+  pid: number;
+  pubkey: string;
+  /** Absolute path of the keyfile the key was decrypted from */
+  keyfile: string;
+  /** When the agent forgets the key and exits (Unix time in milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Options for starting a key agent.
+ */
+export interface StartAgentOptions {
+  secretKey: Uint8Array;
+  keyfile: string;
+  socketPath: string;
+  /** How long to keep the key, in seconds */
+  ttl: number;
+}
+
+/**
+ * Options for resolving a signer.
+ */
+export interface GetSignerOptions {
+  /** Value of --signer (default from config) */
+  signer?: string;
+  /** Keyfile used by the "keyfile" signer */
+  keyfile?: string;
+  /** Socket of a key agent holding the keyfile's key (default from config) */
+  agentSocketPath?: string;
+  /** Path of the remote signer session (default from config) */
+  sessionPath?: string;
+  /** Relays used for nostrconnect pairing (default from config) */
+  relays?: readonly string[];
+  /** Timeout for remote signer requests in milliseconds (default from config) */
+  timeout?: number;
+  /** Shows the nostrconnect URI to scan or paste into the remote signer */
+  onConnectUri?: (uri: string) => void;
+}
+
+/**
+ * Global options that control prompts.
+ */
+export interface InputOptions {
+  /** Answer confirmations with yes (--yes) */
+  yes?: boolean;
+  /** False with --no-input: fail instead of prompting */
+  input?: boolean;
+  /** File to read the key password from, or "-" for stdin */
+  passwordFile?: string;
+}
+
+/**
+ * Global options that control output.
+ */
+export interface OutputOptions {
+  /** Print one JSON document on stdout and progress on stderr (--json) */
+  json?: boolean;
+}
+
 /**
  * Common CLI options shared across commands.
  */
 export interface CommonOptions {
   keyfile: string;
   api: string;
+  /** Global --signer option */
+  signer?: string;
+}
+
+/**
+ * Global options available to commands that change posts.
+ */
+export interface DryRunOptions {
+  /** Validate and print the request instead of sending it */
+  dryRun?: boolean;
 }
 
 /**
  * Options for the create-post command.
  */
-export interface CreatePostOptions extends CommonOptions {}
+export interface CreatePostOptions extends CommonOptions, DryRunOptions {
+  cache: boolean;
+  optimizeImages?: boolean;
+  concurrency?: string;
+  lint: boolean;
+  autoFields?: boolean;
+  watch?: boolean;
+  debounce: string;
+}
 
 /**
  * Options for the update-post command.
  */
-export interface UpdatePostOptions extends CommonOptions {
+export interface UpdatePostOptions extends CommonOptions, DryRunOptions {
+  cache: boolean;
+  optimizeImages?: boolean;
+  concurrency?: string;
+  lint: boolean;
+  autoFields?: boolean;
+  watch?: boolean;
+  debounce: string;
   file?: string;
   title?: string;
   content?: string;
@@ -99,6 +551,165 @@ export interface UpdatePostOptions extends CommonOptions {
 /**
  * Options for the delete-post command.
  */
-export interface DeletePostOptions extends CommonOptions {
+export interface DeletePostOptions extends CommonOptions, DryRunOptions {
   force: boolean;
 }
+
+/**
+ * Options for the list-posts command.
+ */
+export interface ListPostsOptions extends CommonOptions {
+  tag?: string;
+  author?: string;
+  pubkey?: string;
+  mine: boolean;
+  page?: string;
+  limit?: string;
+  sort?: string;
+  order?: string;
+}
+
+/**
+ * Options for the pull-post command.
+ */
+export interface PullPostOptions {
+  api: string;
+  output?: string;
+  downloadImages: boolean;
+  force: boolean;
+}
+
+/**
+ * Options for the sync command.
+ */
+export interface SyncOptions extends CommonOptions, DryRunOptions {
+  manifest?: string;
+  optimizeImages?: boolean;
+  concurrency?: string;
+  delete: boolean;
+  force: boolean;
+}
+
+/**
+ * Options for the export command.
+ */
+export interface ExportOptions extends CommonOptions {
+  pubkey?: string;
+  force: boolean;
+}
+
+/**
+ * Options for the import command.
+ */
+export interface ImportOptions extends CommonOptions, DryRunOptions {
+  from: ImportFormat;
+  siteUrl?: string;
+  staticDir?: string;
+  author?: string;
+  includeDrafts?: boolean;
+  media: boolean;
+  progress?: string;
+  optimizeImages?: boolean;
+  concurrency?: string;
+}
+
+/**
+ * Options for constructing a My2satsClient.
+ */
+export interface My2satsClientOptions {
+  /** API base URL (e.g. "https://api.my2sats.com") */
+  apiUrl: string;
+  /** Signs NIP-98 auth events; required for creating, updating, deleting and uploading */
+  sign?: SignFunction;
+  /** Fetch implementation, e.g. a fake server in tests (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for the key commands.
+ */
+export interface KeyOptions {
+  keyfile: string;
+}
+
+/**
+ * Options for the key generate command.
+ */
+export interface KeyGenerateOptions extends KeyOptions {
+  force: boolean;
+}
+
+/**
+ * Options for the key export command.
+ */
+export interface KeyExportOptions extends KeyOptions {
+  format: "nsec" | "ncryptsec";
+  force: boolean;
+}
+
+/**
+ * Options for the agent start command.
+ */
+export interface AgentStartOptions {
+  keyfile: string;
+  socket: string;
+  ttl: string;
+  foreground?: boolean;
+}
+
+/**
+ * Options for the config set and unset commands.
+ */
+export interface ConfigSetOptions {
+  /** Profile to change instead of the active one */
+  in?: string;
+}
+
+/**
+ * Options for the mock-server command.
+ */
+export interface MockServerOptions {
+  port: string;
+  host: string;
+  data?: string;
+  authWindow: string;
+  requirePayloadHash: boolean;
+}
+
+/**
+ * Options for the mock server's request handler.
+ */
+export interface MockHandlerOptions {
+  /** Directory to persist posts and uploads in (default: in memory only) */
+  dataDir?: string;
+  /** Maximum difference between an auth event's created_at and now (seconds) */
+  authWindow?: number;
+  /** Reject signed requests with a body but no NIP-98 payload tag */
+  requirePayload?: boolean;
+  /** Current time in seconds, for tests */
+  now?: () => number;
+  /** Called with a line per handled request */
+  log?: (line: string) => void;
+}
+
+/**
+ * Options for the preview command.
+ */
+export interface PreviewOptions {
+  port: string;
+  host: string;
+  debounce: string;
+}
+
+/**
+ * Options for the local preview server.
+ */
+export interface PreviewServerOptions {
+  /** Markdown post to render */
+  filePath: string;
+  /** Port to listen on (0 picks a free one) */
+  port?: number;
+  hostname?: string;
+  /** Wait this long after the last change before reloading (ms) */
+  debounce?: number;
+}
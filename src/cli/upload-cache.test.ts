@@ -0,0 +1,84 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  createUploadCache,
+  loadUploadCache,
+  saveUploadCache,
+  hashFile,
+  getCachedUpload,
+  setCachedUpload,
+} from "./upload-cache";
+
+const entry = {
+  url: "https://api.example.com/uploads/a.png",
+  size: 3,
+  uploadedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("getCachedUpload / setCachedUpload", () => {
+  test("returns undefined for unknown hashes", () => {
+    const cache = createUploadCache();
+
+    expect(getCachedUpload(cache, "https://api.example.com", "abc")).toBeUndefined();
+  });
+
+  test("returns a stored entry for the same API URL", () => {
+    const cache = createUploadCache();
+    setCachedUpload(cache, "https://api.example.com", "abc", entry);
+
+    expect(getCachedUpload(cache, "https://api.example.com", "abc")).toEqual(entry);
+  });
+
+  test("keeps entries separate per API URL", () => {
+    const cache = createUploadCache();
+    setCachedUpload(cache, "https://api.example.com", "abc", entry);
+
+    expect(getCachedUpload(cache, "https://staging.example.com", "abc")).toBeUndefined();
+  });
+});
+
+describe("filesystem", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-upload-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("hashFile returns the SHA-256 of the contents", async () => {
+    const path = join(tempDir, "file.txt");
+    await Bun.write(path, "abc");
+
+    expect(await hashFile(Bun.file(path))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+
+  test("loadUploadCache returns an empty cache when the file doesn't exist", async () => {
+    const cache = await loadUploadCache(join(tempDir, "missing.json"));
+
+    expect(cache).toEqual(createUploadCache());
+  });
+
+  test("loadUploadCache returns an empty cache for invalid JSON", async () => {
+    const path = join(tempDir, "uploads.json");
+    await Bun.write(path, "{ not json");
+
+    expect(await loadUploadCache(path)).toEqual(createUploadCache());
+  });
+
+  test("saveUploadCache round-trips and creates parent directories", async () => {
+    const path = join(tempDir, "nested", "uploads.json");
+    const cache = createUploadCache();
+    setCachedUpload(cache, "https://api.example.com", "abc", entry);
+
+    await saveUploadCache(cache, path);
+
+    expect(await loadUploadCache(path)).toEqual(cache);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Persistent content-addressed cache of uploaded images, so unchanged
+ * files are not uploaded again across runs and across posts.
+ */
+
+import { dirname } from "node:path";
+import { mkdir } from "node:fs/promises";
+import { config } from "./config";
+import { type UploadCache, type UploadCacheEntry } from "./types";
+
+/**
+ * Creates an empty upload cache.
+ */
+export function createUploadCache(): UploadCache {
+  return { version: 1, uploads: {} };
+}
+
+/**
+ * Loads the upload cache.
+ * Returns an empty cache if the file doesn't exist or can't be read.
+ */
+export async function loadUploadCache(
+  cachePath: string = config.uploadCachePath,
+): Promise<UploadCache> {
+  const file = Bun.file(cachePath);
+  if (!(await file.exists())) {
+    return createUploadCache();
+  }
+
+  try {
+    const data = (await file.json()) as Partial<UploadCache>;
+    if (data.version !== 1 || typeof data.uploads !== "object" || !data.uploads) {
+      return createUploadCache();
+    }
+    return { version: 1, uploads: data.uploads };
+  } catch {
+    // A corrupt cache only costs re-uploads, so start over
+    return createUploadCache();
+  }
+}
+
+/**
+ * Writes the upload cache to disk, creating the parent directory if needed.
+ */
+export async function saveUploadCache(
+  cache: UploadCache,
+  cachePath: string = config.uploadCachePath,
+): Promise<void> {
+  await mkdir(dirname(cachePath), { recursive: true });
+  await Bun.write(cachePath, JSON.stringify(cache, null, 2) + "\n");
+}
+
+/**
+ * Computes the SHA-256 hex digest of a file's contents.
+ *
+ * @param variant - Optional suffix (e.g. optimization settings) hashed after the
+ *                  contents, so different renditions of a file get different keys
+ */
+export async function hashFile(file: Blob, variant?: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(await file.arrayBuffer());
+  if (variant) {
+    hasher.update(`\0${variant}`);
+  }
+  return hasher.digest("hex");
+}
+
+/**
+ * Looks up a previously uploaded file by content hash for an API URL.
+ */
+export function getCachedUpload(
+  cache: UploadCache,
+  apiUrl: string,
+  hash: string,
+): UploadCacheEntry | undefined {
+  return cache.uploads[apiUrl]?.[hash];
+}
+
+/**
+ * Records an uploaded file in the cache.
+ */
+export function setCachedUpload(
+  cache: UploadCache,
+  apiUrl: string,
+  hash: string,
+  entry: UploadCacheEntry,
+): void {
+  cache.uploads[apiUrl] ??= {};
+  cache.uploads[apiUrl][hash] = entry;
+}
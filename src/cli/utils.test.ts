@@ -1,9 +1,26 @@
 import { test, expect, describe } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FrontmatterError, ValidationError } from "./errors";
 import {
   parseFrontmatter,
+  parseFrontmatterData,
   isLocalPath,
   parseImageReferences,
   getBasePath,
+  truncate,
+  formatPostsTable,
+  parseRemoteImageReferences,
+  serializeFrontmatter,
+  getImageFileName,
+  buildPostPayload,
+  collectLocalImagePaths,
+  formatBytes,
+  formatDryRun,
+  mapWithConcurrency,
+  parsePositiveInt,
+  downloadRemoteImages,
 } from "./utils";
 
 describe("parseFrontmatter", () => {
@@ -119,6 +136,211 @@ Third paragraph.`;
       "First paragraph.\n\nSecond paragraph.\n\nThird paragraph.",
     );
   });
+
+  test("parses block-list tags", () => {
+    const markdown = `---
+slug: test
+tags:
+  - tag1
+  - tag2
+---
+Content`;
+
+    const result = parseFrontmatter(markdown);
+
+    expect(result.frontmatter.tags).toEqual(["tag1", "tag2"]);
+  });
+
+  test("parses comma-separated tag strings", () => {
+    const markdown = `---
+tags: one, two
+---
+Content`;
+
+    expect(parseFrontmatter(markdown).frontmatter.tags).toEqual(["one", "two"]);
+  });
+
+  test("handles colons inside quoted values", () => {
+    const markdown = `---
+title: "Bitcoin: A Peer-to-Peer Electronic Cash System"
+---
+Content`;
+
+    expect(parseFrontmatter(markdown).frontmatter.title).toBe(
+      "Bitcoin: A Peer-to-Peer Electronic Cash System",
+    );
+  });
+
+  test("handles folded and literal multi-line strings", () => {
+    const markdown = `---
+title: >
+  A long title
+  over two lines
+excerpt: |
+  Line one
+  Line two
+---
+Content`;
+
+    const result = parseFrontmatter(markdown);
+
+    expect(result.frontmatter.title).toBe("A long title over two lines\n");
+    expect(result.frontmatter.excerpt).toBe("Line one\nLine two\n");
+  });
+
+  test("ignores comments", () => {
+    const markdown = `---
+# A comment
+slug: test # trailing comment
+---
+Content`;
+
+    expect(parseFrontmatter(markdown).frontmatter).toEqual({ slug: "test" });
+  });
+
+  test("handles CRLF line endings", () => {
+    const markdown = "---\r\nslug: test\r\ntitle: Title\r\n---\r\nLine one\r\nLine two";
+
+    const result = parseFrontmatter(markdown);
+
+    expect(result.frontmatter).toEqual({ slug: "test", title: "Title" });
+    expect(result.content).toBe("Line one\nLine two");
+  });
+
+  test("converts non-string scalars to strings", () => {
+    const markdown = `---
+slug: 2024
+tags: [1, true]
+---
+Content`;
+
+    const result = parseFrontmatter(markdown);
+
+    expect(result.frontmatter.slug).toBe("2024");
+    expect(result.frontmatter.tags).toEqual(["1", "true"]);
+  });
+
+  test("throws FrontmatterError with line and column for invalid YAML", () => {
+    const markdown = `---
+slug: test
+title: "unterminated
+---
+Content`;
+
+    try {
+      parseFrontmatter(markdown);
+      throw new Error("Expected parseFrontmatter to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FrontmatterError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as FrontmatterError).line).toBe(3);
+      expect((error as FrontmatterError).column).toBeNumber();
+    }
+  });
+
+  test("throws FrontmatterError for fields with the wrong type", () => {
+    const markdown = `---
+slug: test
+title:
+  nested: value
+---
+Content`;
+
+    try {
+      parseFrontmatter(markdown);
+      throw new Error("Expected parseFrontmatter to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FrontmatterError);
+      expect((error as FrontmatterError).fields).toEqual(["title"]);
+      expect((error as FrontmatterError).line).toBe(3);
+      expect((error as FrontmatterError).message).toBe(
+        'Invalid frontmatter at line 3: "title" must be a string',
+      );
+    }
+  });
+
+  test("throws FrontmatterError when frontmatter is not a mapping", () => {
+    const markdown = `---
+- just
+- a list
+---
+Content`;
+
+    expect(() => parseFrontmatter(markdown)).toThrow(FrontmatterError);
+  });
+
+  test("parses TOML frontmatter", () => {
+    const markdown = `+++
+slug = "my-post"
+title = "My Post: Subtitle"
+author = "Jane"
+date = 2024-01-01
+tags = ["a", "b"]
++++
+Content`;
+
+    const result = parseFrontmatter(markdown);
+
+    expect(result.frontmatter).toEqual({
+      slug: "my-post",
+      title: "My Post: Subtitle",
+      author: "Jane",
+      tags: ["a", "b"],
+    });
+    expect(result.content).toBe("Content");
+  });
+
+  test("throws FrontmatterError with line and column for invalid TOML", () => {
+    const markdown = `+++
+slug = "test"
+title = 
++++
+Content`;
+
+    try {
+      parseFrontmatter(markdown);
+      throw new Error("Expected parseFrontmatter to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FrontmatterError);
+      expect((error as FrontmatterError).line).toBe(3);
+    }
+  });
+});
+
+describe("buildPostPayload", () => {
+  test("builds a payload from complete frontmatter", () => {
+    const payload = buildPostPayload(
+      { slug: "s", title: "T", author: "A", tags: ["x"] },
+      "Body",
+    );
+
+    expect(payload).toEqual({
+      slug: "s",
+      title: "T",
+      content: "Body",
+      author: "A",
+      excerpt: undefined,
+      featured_image: undefined,
+      tags: ["x"],
+    });
+  });
+
+  test("throws ValidationError listing missing fields", () => {
+    try {
+      buildPostPayload({ title: "T" }, "Body");
+      throw new Error("Expected buildPostPayload to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).fields).toEqual(["slug", "author"]);
+    }
+  });
+
+  test("falls back to the default author", () => {
+    expect(buildPostPayload({ slug: "s", title: "T" }, "Body", "Profile Author").author).toBe(
+      "Profile Author",
+    );
+    expect(buildPostPayload({ slug: "s", title: "T", author: "A" }, "Body", "B").author).toBe("A");
+  });
 });
 
 describe("isLocalPath", () => {
@@ -234,6 +456,23 @@ describe("parseImageReferences", () => {
   });
 });
 
+describe("parseRemoteImageReferences", () => {
+  test("returns only remote images", () => {
+    const content = `
+      ![Remote](https://example.com/image.png)
+      ![Local](./local.png)
+      <img src="http://example.com/photo.jpg" />
+    `;
+
+    const result = parseRemoteImageReferences(content);
+
+    expect(result.map((ref) => ref.path)).toEqual([
+      "https://example.com/image.png",
+      "http://example.com/photo.jpg",
+    ]);
+  });
+});
+
 describe("getBasePath", () => {
   test("extracts directory from file path", () => {
     expect(getBasePath("posts/my-post.md")).toBe("posts");
@@ -250,3 +489,284 @@ describe("getBasePath", () => {
     expect(getBasePath("a/b/c/d/e/file.md")).toBe("a/b/c/d/e");
   });
 });
+
+describe("truncate", () => {
+  test("returns short strings unchanged", () => {
+    expect(truncate("hello", 10)).toBe("hello");
+    expect(truncate("hello", 5)).toBe("hello");
+  });
+
+  test("truncates long strings with an ellipsis", () => {
+    expect(truncate("hello world", 6)).toBe("hello…");
+  });
+});
+
+describe("formatPostsTable", () => {
+  test("formats posts as aligned columns", () => {
+    const table = formatPostsTable([
+      {
+        slug: "first-post",
+        title: "First",
+        author: "Alice",
+        tags: ["a", "b"],
+        updated_at: "2024-01-02T03:04:05Z",
+      },
+      { slug: "second", title: "Second Post", author: "Bob" },
+    ]);
+
+    expect(table.split("\n")).toEqual([
+      "SLUG        TITLE        AUTHOR  TAGS  UPDATED",
+      "first-post  First        Alice   a, b  2024-01-02",
+      "second      Second Post  Bob",
+    ]);
+  });
+
+  test("falls back to created_at when updated_at is missing", () => {
+    const table = formatPostsTable([
+      { slug: "s", title: "T", author: "A", created_at: "2023-05-06T00:00:00Z" },
+    ]);
+
+    expect(table).toContain("2023-05-06");
+  });
+});
+
+describe("serializeFrontmatter", () => {
+  test("writes fields in canonical order", () => {
+    const markdown = serializeFrontmatter(
+      {
+        tags: ["a", "b"],
+        title: "Title",
+        slug: "slug",
+        author: "Author",
+      },
+      "Content",
+    );
+
+    expect(markdown).toBe(
+      "---\nslug: slug\ntitle: Title\nauthor: Author\ntags:\n  - a\n  - b\n---\n\nContent\n",
+    );
+  });
+
+  test("round-trips through parseFrontmatter", () => {
+    const frontmatter = {
+      slug: "my-post",
+      title: "Title: with a colon",
+      author: "Jane",
+      excerpt: "'Quoted' start",
+      featured_image: "./image.png",
+      tags: ["one", "two, three", "four"],
+    };
+
+    const result = parseFrontmatter(serializeFrontmatter(frontmatter, "Body text"));
+
+    expect(result.frontmatter).toEqual(frontmatter);
+    expect(result.content).toBe("Body text");
+  });
+
+  test("preserves multi-line values", () => {
+    const markdown = serializeFrontmatter({ excerpt: "line one\nline two" }, "");
+
+    expect(parseFrontmatter(markdown).frontmatter.excerpt).toBe("line one\nline two");
+  });
+});
+
+describe("parseFrontmatterData", () => {
+  test("keeps every field", () => {
+    const markdown = "+++\ntitle = \"Hi\"\ndraft = true\ncategories = [\"a\"]\n+++\n\nBody";
+
+    expect(parseFrontmatterData(markdown)).toEqual({
+      data: { title: "Hi", draft: true, categories: ["a"] },
+      content: "Body",
+    });
+  });
+
+  test("returns no data without frontmatter", () => {
+    expect(parseFrontmatterData("Just text")).toEqual({ data: {}, content: "Just text" });
+  });
+});
+
+describe("getImageFileName", () => {
+  test("uses the URL basename", () => {
+    expect(getImageFileName("https://example.com/uploads/photo.jpg", new Set())).toBe(
+      "photo.jpg",
+    );
+  });
+
+  test("adds a suffix for duplicate names", () => {
+    const used = new Set<string>();
+
+    expect(getImageFileName("https://a.com/x/photo.jpg", used)).toBe("photo.jpg");
+    expect(getImageFileName("https://b.com/y/photo.jpg", used)).toBe("photo-1.jpg");
+    expect(getImageFileName("https://c.com/z/photo.jpg", used)).toBe("photo-2.jpg");
+  });
+
+  test("sanitizes unsafe characters", () => {
+    expect(getImageFileName("https://example.com/my%20photo%3F.png", new Set())).toBe(
+      "my_photo_.png",
+    );
+  });
+
+  test("falls back to a generic name", () => {
+    expect(getImageFileName("https://example.com/", new Set())).toBe("image");
+  });
+
+  test("adds an extension from the content type if the URL has none", () => {
+    const used = new Set<string>();
+
+    expect(getImageFileName("https://cdn.com/photo-1?w=800", used, "image/jpeg")).toBe(
+      "photo-1.jpg",
+    );
+    expect(getImageFileName("https://cdn.com/logo", used, "image/svg+xml")).toBe("logo.svg");
+    expect(getImageFileName("https://cdn.com/a.png", used, "image/webp")).toBe("a.png");
+  });
+});
+
+describe("collectLocalImagePaths", () => {
+  test("collects unique local paths including the featured image", () => {
+    const content = "![a](./a.png) ![b](./b.png) ![a again](./a.png) ![r](https://x.com/r.png)";
+
+    expect(collectLocalImagePaths(content, "./cover.jpg")).toEqual([
+      "./a.png",
+      "./b.png",
+      "./cover.jpg",
+    ]);
+  });
+
+  test("ignores a remote featured image", () => {
+    expect(collectLocalImagePaths("", "https://x.com/cover.jpg")).toEqual([]);
+  });
+});
+
+describe("formatBytes", () => {
+  test("formats bytes, kilobytes and megabytes", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.00 MB");
+  });
+});
+
+describe("formatDryRun", () => {
+  test("includes images, request line and payload", () => {
+    const output = formatDryRun({
+      method: "POST",
+      url: "http://api/api/posts",
+      payload: { slug: "s" },
+      images: [{ path: "./a.png", fullPath: "posts/a.png", size: 2048, type: "image/png" }],
+      uploadUrl: "http://api/api/uploads",
+    });
+
+    expect(output).toBe(
+      [
+        "Dry run: no key was decrypted and nothing was sent.",
+        "",
+        "Images to upload (1) via POST http://api/api/uploads:",
+        "  ./a.png -> posts/a.png (2.0 KB, image/png)",
+        "",
+        "Request: POST http://api/api/posts",
+        "Payload:",
+        '{\n  "slug": "s"\n}',
+      ].join("\n"),
+    );
+  });
+
+  test("omits images and payload when absent", () => {
+    const output = formatDryRun({ method: "DELETE", url: "http://api/api/posts/s" });
+
+    expect(output).toBe(
+      "Dry run: no key was decrypted and nothing was sent.\n\nRequest: DELETE http://api/api/posts/s",
+    );
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  test("never runs more than the limit at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await Bun.sleep(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  test("returns results in input order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await Bun.sleep(ms);
+      return ms;
+    });
+
+    expect(results).toEqual([
+      { status: "fulfilled", value: 30 },
+      { status: "fulfilled", value: 10 },
+      { status: "fulfilled", value: 20 },
+    ]);
+  });
+
+  test("keeps going when some items fail", async () => {
+    const error = new Error("boom");
+    const results = await mapWithConcurrency([1, 2, 3], 1, async (n) => {
+      if (n === 2) throw error;
+      return n;
+    });
+
+    expect(results).toEqual([
+      { status: "fulfilled", value: 1 },
+      { status: "rejected", reason: error },
+      { status: "fulfilled", value: 3 },
+    ]);
+  });
+
+  test("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("parsePositiveInt", () => {
+  test("parses positive integers", () => {
+    expect(parsePositiveInt("1", "page")).toBe(1);
+    expect(parsePositiveInt("42", "page")).toBe(42);
+  });
+
+  test("rejects zero, negatives, fractions and non-numbers", () => {
+    expect(() => parsePositiveInt("0", "page")).toThrow("Invalid page: 0");
+    expect(() => parsePositiveInt("-1", "page")).toThrow();
+    expect(() => parsePositiveInt("1.5", "page")).toThrow();
+    expect(() => parsePositiveInt("abc", "page")).toThrow();
+  });
+});
+
+describe("downloadRemoteImages", () => {
+  test("downloads images and refuses to overwrite existing ones", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => new Response("image data", { headers: { "Content-Type": "image/png" } }),
+    });
+    const dir = await mkdtemp(join(tmpdir(), "my2sats-download-"));
+
+    try {
+      const content = `![a](${server.url.origin}/a.png)`;
+
+      expect(await downloadRemoteImages(content, undefined, dir)).toEqual({
+        content: "![a](./a.png)",
+        featuredImage: undefined,
+      });
+      expect(await Bun.file(join(dir, "a.png")).text()).toBe("image data");
+
+      await Bun.write(join(dir, "a.png"), "edited");
+      await expect(downloadRemoteImages(content, undefined, dir)).rejects.toThrow(
+        "File already exists",
+      );
+      expect(await Bun.file(join(dir, "a.png")).text()).toBe("edited");
+
+      await downloadRemoteImages(content, undefined, dir, ".", true);
+      expect(await Bun.file(join(dir, "a.png")).text()).toBe("image data");
+    } finally {
+      server.stop(true);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -2,76 +2,291 @@
  * General utilities for the my2sats CLI.
  */
 
-import { type PostFrontmatter, type ImageReference, type SignFunction } from "./types";
-import { validateImageFile, uploadImage } from "./api-client";
+import { mkdir } from "node:fs/promises";
+import {
+  parseDocument,
+  stringify as stringifyYaml,
+  LineCounter,
+  isMap,
+  isScalar,
+} from "yaml";
+import { parse as parseToml, TomlError } from "smol-toml";
+import {
+  type PostFrontmatter,
+  type PostPayload,
+  type ImageReference,
+  type LocalImage,
+  type ProcessImagesOptions,
+  type Post,
+} from "./types";
+import { config } from "./config";
+import {
+  validateImageFile,
+  findImageFile,
+  checkImageFile,
+  type My2satsClient,
+} from "./api-client";
+import {
+  DownloadError,
+  FrontmatterError,
+  ImageUploadError,
+  ValidationError,
+  formatError,
+  type ImageUploadFailure,
+} from "./errors";
+import {
+  loadUploadCache,
+  saveUploadCache,
+  hashFile,
+  getCachedUpload,
+  setCachedUpload,
+} from "./upload-cache";
 
 /**
- * Parses YAML-like frontmatter from a markdown string.
+ * Frontmatter fields in the order they are written by serializeFrontmatter.
+ */
+const FRONTMATTER_FIELD_ORDER: (keyof PostFrontmatter)[] = [
+  "slug",
+  "title",
+  "author",
+  "excerpt",
+  "featured_image",
+  "tags",
+];
+
+/**
+ * Matches a YAML (---) or TOML (+++) frontmatter block at the start of a document.
+ */
+const FRONTMATTER_REGEX = /^(---|\+\+\+)[ \t]*\n([\s\S]*?)\n\1[ \t]*(?:\n([\s\S]*))?$/;
+
+/**
+ * Raw key/value data from a frontmatter block, with the file line of each key if known.
+ */
+interface RawFrontmatter {
+  data: Record<string, unknown>;
+  keyLines: Map<string, number>;
+}
+
+/**
+ * Parses YAML (---) or TOML (+++) frontmatter from a markdown string.
+ * Only known fields are kept; unknown fields are ignored.
+ *
+ * @throws {FrontmatterError} If the frontmatter is malformed or a field has the wrong type
  */
 export function parseFrontmatter(markdown: string): {
   frontmatter: PostFrontmatter;
   content: string;
 } {
-  const frontmatterMatch = markdown.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  const { raw, content } = readFrontmatterBlock(markdown);
+  return { frontmatter: raw ? toPostFrontmatter(raw) : {}, content };
+}
+
+/**
+ * Parses YAML (---) or TOML (+++) frontmatter into raw key/value data, keeping
+ * every field. For reading posts whose frontmatter uses other field names.
+ *
+ * @throws {FrontmatterError} If the frontmatter is malformed
+ */
+export function parseFrontmatterData(markdown: string): {
+  data: Record<string, unknown>;
+  content: string;
+} {
+  const { raw, content } = readFrontmatterBlock(markdown);
+  return { data: raw?.data ?? {}, content };
+}
+
+/**
+ * Splits a markdown string into its parsed frontmatter block (if any) and content.
+ */
+function readFrontmatterBlock(markdown: string): { raw?: RawFrontmatter; content: string } {
+  const normalized = markdown.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const frontmatterMatch = normalized.match(FRONTMATTER_REGEX);
 
   if (!frontmatterMatch) {
-    return { frontmatter: {}, content: markdown };
+    return { content: markdown };
+  }
+
+  const [, delimiter, source = "", content = ""] = frontmatterMatch;
+  const raw =
+    delimiter === "+++" ? parseTomlFrontmatter(source) : parseYamlFrontmatter(source);
+
+  return { raw, content: content.trim() };
+}
+
+/**
+ * Parses a YAML frontmatter block.
+ * Line numbers are reported relative to the markdown file (the block starts on line 2).
+ */
+function parseYamlFrontmatter(source: string): RawFrontmatter {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  const [error] = doc.errors;
+  if (error) {
+    const { line, col } = lineCounter.linePos(error.pos[0]);
+    throw new FrontmatterError(error.message, line + 1, col);
+  }
+
+  const keyLines = new Map<string, number>();
+
+  if (doc.contents === null) {
+    return { data: {}, keyLines };
+  }
+
+  if (!isMap(doc.contents)) {
+    throw new FrontmatterError("Frontmatter must be a mapping of keys to values", 2, 1);
+  }
+
+  for (const pair of doc.contents.items) {
+    if (isScalar(pair.key) && pair.key.range) {
+      keyLines.set(String(pair.key.value), lineCounter.linePos(pair.key.range[0]).line + 1);
+    }
   }
 
-  const frontmatterStr = frontmatterMatch[1];
-  const content = frontmatterMatch[2];
+  return { data: doc.toJS() as Record<string, unknown>, keyLines };
+}
 
-  if (!frontmatterStr || content === undefined) {
-    return { frontmatter: {}, content: markdown };
+/**
+ * Parses a TOML frontmatter block (as used by Hugo).
+ */
+function parseTomlFrontmatter(source: string): RawFrontmatter {
+  try {
+    return { data: parseToml(source), keyLines: new Map() };
+  } catch (error) {
+    if (error instanceof TomlError) {
+      const message = error.message.split("\n")[0]!.replace(/^Invalid TOML document: /, "");
+      throw new FrontmatterError(message, error.line + 1, error.column);
+    }
+    throw error;
   }
+}
 
+/**
+ * Converts a frontmatter scalar to a string, or undefined if it isn't a scalar.
+ */
+function scalarToString(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString();
+  return undefined;
+}
+
+/**
+ * Picks the known fields out of raw frontmatter data and checks their types.
+ */
+function toPostFrontmatter({ data, keyLines }: RawFrontmatter): PostFrontmatter {
   const frontmatter: PostFrontmatter = {};
 
-  for (const line of frontmatterStr.split("\n")) {
-    const colonIndex = line.indexOf(":");
-    if (colonIndex === -1) continue;
+  for (const key of FRONTMATTER_FIELD_ORDER) {
+    const value = data[key];
+    if (value === undefined || value === null) continue;
+
+    if (key === "tags") {
+      // Accept a list or a comma-separated string
+      const items = Array.isArray(value)
+        ? value.map(scalarToString)
+        : scalarToString(value)?.split(",");
 
-    const key = line.slice(0, colonIndex).trim();
-    let value = line.slice(colonIndex + 1).trim();
+      if (!items || items.some((item) => item === undefined)) {
+        throw new FrontmatterError(
+          `"tags" must be a list of strings`,
+          keyLines.get(key),
+          undefined,
+          key,
+        );
+      }
 
-    // Handle arrays (tags)
-    if (value.startsWith("[") && value.endsWith("]")) {
-      const arrayContent = value.slice(1, -1);
-      const items = arrayContent
-        .split(",")
-        .map((item) => item.trim().replace(/^["']|["']$/g, ""))
+      frontmatter.tags = (items as string[])
+        .map((item) => item.trim())
         .filter(Boolean);
-      setFrontmatterField(frontmatter, key, items);
-    } else {
-      // Remove surrounding quotes if present
-      value = value.replace(/^["']|["']$/g, "");
-      setFrontmatterField(frontmatter, key, value);
+      continue;
     }
+
+    const stringValue = scalarToString(value);
+    if (stringValue === undefined) {
+      throw new FrontmatterError(
+        `"${key}" must be a string`,
+        keyLines.get(key),
+        undefined,
+        key,
+      );
+    }
+    frontmatter[key] = stringValue;
   }
 
-  return { frontmatter, content: content.trim() };
+  return frontmatter;
 }
 
 /**
- * Safely sets a frontmatter field.
+ * Builds a create payload from parsed frontmatter and content.
+ * The author defaults to the configured author of the active profile.
+ *
+ * @throws {ValidationError} If required fields are missing
  */
-function setFrontmatterField(
+export function buildPostPayload(
   frontmatter: PostFrontmatter,
-  key: string,
-  value: string | string[],
-): void {
-  const validKeys: (keyof PostFrontmatter)[] = [
-    "slug",
-    "title",
-    "author",
-    "excerpt",
-    "featured_image",
-    "tags",
-  ];
+  content: string,
+  defaultAuthor: string | undefined = config.author,
+): PostPayload {
+  const author = frontmatter.author || defaultAuthor;
 
-  if (validKeys.includes(key as keyof PostFrontmatter)) {
-    (frontmatter as Record<string, unknown>)[key] = value;
+  // Validate required fields
+  const missingFields: string[] = [];
+  if (!frontmatter.slug) missingFields.push("slug");
+  if (!frontmatter.title) missingFields.push("title");
+  if (!author) missingFields.push("author");
+
+  if (missingFields.length > 0) {
+    throw new ValidationError(missingFields);
   }
+
+  return {
+    slug: frontmatter.slug!,
+    title: frontmatter.title!,
+    content,
+    author: author!,
+    excerpt: frontmatter.excerpt,
+    featured_image: frontmatter.featured_image,
+    tags: frontmatter.tags,
+  };
+}
+
+/**
+ * Builds the frontmatter of an existing post, for writing it back to a file.
+ *
+ * @param featuredImage - Featured image to use instead of the post's, e.g. a downloaded copy
+ */
+export function getPostFrontmatter(
+  post: Post,
+  featuredImage = post.featured_image,
+): PostFrontmatter {
+  return {
+    slug: post.slug,
+    title: post.title,
+    author: post.author,
+    excerpt: post.excerpt || undefined,
+    featured_image: featuredImage || undefined,
+    tags: post.tags && post.tags.length > 0 ? post.tags : undefined,
+  };
+}
+
+/**
+ * Serializes frontmatter and content into a markdown string
+ * that parseFrontmatter can read back.
+ */
+export function serializeFrontmatter(
+  frontmatter: PostFrontmatter,
+  content: string,
+): string {
+  const ordered: Record<string, unknown> = {};
+  for (const key of FRONTMATTER_FIELD_ORDER) {
+    if (frontmatter[key] !== undefined) {
+      ordered[key] = frontmatter[key];
+    }
+  }
+
+  const yaml = stringifyYaml(ordered, { lineWidth: 0 });
+  return `---\n${yaml}---\n\n${content.trim()}\n`;
 }
 
 /**
@@ -82,9 +297,12 @@ export function isLocalPath(value: string): boolean {
 }
 
 /**
- * Extracts image references from markdown content.
+ * Extracts image references whose path matches a predicate.
  */
-export function parseImageReferences(content: string): ImageReference[] {
+function findImageReferences(
+  content: string,
+  predicate: (path: string) => boolean,
+): ImageReference[] {
   const images: ImageReference[] = [];
 
   // Match markdown images: ![alt](path) or ![alt](path "title")
@@ -92,7 +310,7 @@ export function parseImageReferences(content: string): ImageReference[] {
   let match;
   while ((match = markdownImageRegex.exec(content)) !== null) {
     const path = match[1];
-    if (path && isLocalPath(path)) {
+    if (path && predicate(path)) {
       images.push({ original: match[0], path });
     }
   }
@@ -101,7 +319,7 @@ export function parseImageReferences(content: string): ImageReference[] {
   const htmlImageRegex = /<img[^>]+src=["']([^"']+)["'][^>]*\/?>/gi;
   while ((match = htmlImageRegex.exec(content)) !== null) {
     const path = match[1];
-    if (path && isLocalPath(path)) {
+    if (path && predicate(path)) {
       images.push({ original: match[0], path });
     }
   }
@@ -109,6 +327,20 @@ export function parseImageReferences(content: string): ImageReference[] {
   return images;
 }
 
+/**
+ * Extracts local image references from markdown content.
+ */
+export function parseImageReferences(content: string): ImageReference[] {
+  return findImageReferences(content, isLocalPath);
+}
+
+/**
+ * Extracts remote (http/https) image references from markdown content.
+ */
+export function parseRemoteImageReferences(content: string): ImageReference[] {
+  return findImageReferences(content, (path) => !isLocalPath(path));
+}
+
 /**
  * Extracts the directory path from a file path.
  */
@@ -118,16 +350,156 @@ export function getBasePath(filePath: string): string {
     : ".";
 }
 
+/**
+ * Collects the unique local image paths referenced by content and the featured image.
+ */
+export function collectLocalImagePaths(
+  content: string,
+  featuredImage: string | undefined,
+): string[] {
+  const paths = new Set(parseImageReferences(content).map((ref) => ref.path));
+
+  if (featuredImage && isLocalPath(featuredImage)) {
+    paths.add(featuredImage);
+  }
+
+  return [...paths];
+}
+
+/**
+ * Optimizes images with fixed settings and checks the result against the limits.
+ */
+interface ImageOptimizer {
+  /** Identifies the settings, for upload cache keys */
+  key: string;
+  optimize(file: Blob, fullPath: string): Promise<Blob>;
+}
+
+/**
+ * Loads the image optimizer on demand, so its codecs are only
+ * initialized when optimization is enabled.
+ */
+async function loadImageOptimizer(): Promise<ImageOptimizer> {
+  const { optimizeImage, getOptimizationSettings, getOptimizationKey } =
+    await import("./image-optimizer");
+  const settings = getOptimizationSettings();
+
+  return {
+    key: getOptimizationKey(settings),
+    optimize: async (file, fullPath) => {
+      const optimized = await optimizeImage(file, fullPath, settings);
+      checkImageFile(optimized, fullPath);
+      return optimized;
+    },
+  };
+}
+
+/**
+ * Validates all local images referenced by content and the featured image
+ * without uploading them. With optimization enabled, the optimized images
+ * are validated instead.
+ *
+ * @throws {ImageValidationError} If an image is missing, too large or of the wrong type
+ */
+export async function validateLocalImages(
+  content: string,
+  featuredImage: string | undefined,
+  basePath: string,
+  options: ProcessImagesOptions = {},
+): Promise<LocalImage[]> {
+  const optimizer =
+    (options.optimize ?? config.optimizeImages) ? await loadImageOptimizer() : null;
+  const images: LocalImage[] = [];
+
+  for (const path of collectLocalImagePaths(content, featuredImage)) {
+    const { file, fullPath } = optimizer
+      ? await findImageFile(path, basePath)
+      : await validateImageFile(path, basePath);
+    const upload = optimizer ? await optimizer.optimize(file, fullPath) : file;
+    images.push({ path, fullPath, size: upload.size, type: upload.type });
+  }
+
+  return images;
+}
+
+/**
+ * Formats a byte count for display.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Formats the requests a command would make, for --dry-run output.
+ */
+export function formatDryRun(request: {
+  method: string;
+  url: string;
+  payload?: unknown;
+  images?: LocalImage[];
+  uploadUrl?: string;
+}): string {
+  const lines = ["Dry run: no key was decrypted and nothing was sent."];
+
+  const images = request.images ?? [];
+  if (images.length > 0) {
+    lines.push("", `Images to upload (${images.length}) via POST ${request.uploadUrl}:`);
+    for (const image of images) {
+      lines.push(`  ${image.path} -> ${image.fullPath} (${formatBytes(image.size)}, ${image.type})`);
+    }
+  }
+
+  lines.push("", `Request: ${request.method} ${request.url}`);
+
+  if (request.payload !== undefined) {
+    lines.push("Payload:", JSON.stringify(request.payload, null, 2));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Runs an async function over items with at most `limit` running at once.
+ * Like Promise.allSettled, every item is processed even if some fail,
+ * and results are returned in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]!, index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
 /**
  * Processes and uploads local images in content.
  * Returns the processed content with local paths replaced by uploaded URLs.
+ * Images already uploaded to the same API are reused from the upload cache.
  */
 export async function processImages(
   content: string,
   featuredImage: string | undefined,
   basePath: string,
-  apiUrl: string,
-  sign: SignFunction,
+  client: My2satsClient,
+  options: ProcessImagesOptions = {},
 ): Promise<{ content: string; featuredImageUrl: string | undefined }> {
   const imageRefs = parseImageReferences(content);
   let processedContent = content;
@@ -135,19 +507,8 @@ export async function processImages(
 
   // Collect all unique local image paths to upload
   const pathsToUpload = new Map<string, string>(); // path -> uploaded URL
-
-  // Add content images
-  for (const ref of imageRefs) {
-    if (!pathsToUpload.has(ref.path)) {
-      pathsToUpload.set(ref.path, "");
-    }
-  }
-
-  // Add featured image if it's a local path
-  if (featuredImage && isLocalPath(featuredImage)) {
-    if (!pathsToUpload.has(featuredImage)) {
-      pathsToUpload.set(featuredImage, "");
-    }
+  for (const path of collectLocalImagePaths(content, featuredImage)) {
+    pathsToUpload.set(path, "");
   }
 
   if (pathsToUpload.size === 0) {
@@ -156,14 +517,103 @@ export async function processImages(
 
   console.log(`Found ${pathsToUpload.size} image(s) to upload...`);
 
-  // Upload each unique image
+  const useCache = options.useCache ?? true;
+  const cache = useCache ? await loadUploadCache() : (options.sessionCache ?? null);
+  const optimizer =
+    (options.optimize ?? config.optimizeImages) ? await loadImageOptimizer() : null;
+  const concurrency = options.concurrency ?? config.uploadConcurrency;
+
+  // Validate (and optimize) everything up front, so a bad local file
+  // fails the command before anything is uploaded
+  const pending: { localPath: string; fullPath: string; file: Blob; hash: string }[] = [];
+  let cachedCount = 0;
+
   for (const [localPath] of pathsToUpload) {
-    const { file, fullPath } = await validateImageFile(localPath, basePath);
-    console.log(`  Uploading: ${fullPath}`);
+    const { file: source, fullPath } = optimizer
+      ? await findImageFile(localPath, basePath)
+      : await validateImageFile(localPath, basePath);
+    const hash = await hashFile(source, optimizer?.key);
+
+    const cached = cache ? getCachedUpload(cache, client.apiUrl, hash) : undefined;
+    if (cached) {
+      pathsToUpload.set(localPath, cached.url);
+      cachedCount++;
+      console.log(`  Cached: ${fullPath}`);
+      console.log(`  -> ${cached.url}`);
+      continue;
+    }
 
-    const result = await uploadImage(file, sign, apiUrl);
-    pathsToUpload.set(localPath, result.url);
-    console.log(`  -> ${result.url}`);
+    const file = optimizer ? await optimizer.optimize(source, fullPath) : source;
+    if (file !== source) {
+      console.log(
+        `  Optimized: ${fullPath} (${formatBytes(source.size)} -> ${formatBytes(file.size)}, ${file.type})`,
+      );
+    }
+
+    pending.push({ localPath, fullPath, file, hash });
+  }
+
+  const totalBytes = pending.reduce((sum, image) => sum + image.file.size, 0);
+  if (pending.length > 0) {
+    console.log(
+      `Uploading ${pending.length} image(s) (${formatBytes(totalBytes)}), ${concurrency} at a time...`,
+    );
+  }
+
+  let completed = 0;
+  let uploadedBytes = 0;
+  let savingCache = Promise.resolve();
+
+  // Upload the remaining images concurrently; failures don't stop the others
+  const results = await mapWithConcurrency(pending, concurrency, async (image) => {
+    console.log(`  Uploading: ${image.fullPath} (${formatBytes(image.file.size)})`);
+
+    try {
+      const result = await client.uploadImage(image.file);
+      pathsToUpload.set(image.localPath, result.url);
+
+      completed++;
+      uploadedBytes += image.file.size;
+      console.log(
+        `  [${completed}/${pending.length}] ${image.fullPath} -> ${result.url} (${formatBytes(uploadedBytes)}/${formatBytes(totalBytes)})`,
+      );
+
+      if (cache) {
+        setCachedUpload(cache, client.apiUrl, image.hash, {
+          url: result.url,
+          size: image.file.size,
+          uploadedAt: new Date().toISOString(),
+        });
+        // Save after every upload so an interrupted run keeps its progress;
+        // saves are chained so concurrent uploads never write at the same time
+        if (useCache) {
+          savingCache = savingCache.then(() => saveUploadCache(cache));
+        }
+      }
+    } catch (error) {
+      completed++;
+      console.error(
+        `  [${completed}/${pending.length}] Failed: ${image.fullPath}: ${formatError(error)}`,
+      );
+      throw error;
+    }
+  });
+
+  await savingCache;
+
+  const failures: ImageUploadFailure[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      failures.push({ path: pending[i]!.fullPath, error: formatError(result.reason) });
+    }
+  });
+
+  console.log(
+    `Images: ${pending.length - failures.length} uploaded (${formatBytes(uploadedBytes)}), ${cachedCount} cached, ${failures.length} failed`,
+  );
+
+  if (failures.length > 0) {
+    throw new ImageUploadError(failures);
   }
 
   // Replace paths in content
@@ -182,3 +632,168 @@ export async function processImages(
 
   return { content: processedContent, featuredImageUrl };
 }
+
+/**
+ * Derives a unique local file name for a remote image URL.
+ * Names already in `usedNames` get a numeric suffix; the result is added to the set.
+ *
+ * @param contentType - Content-Type of the download, for an extension if the URL has none
+ */
+export function getImageFileName(
+  url: string,
+  usedNames: Set<string>,
+  contentType?: string,
+): string {
+  let baseName = "";
+  try {
+    const pathname = new URL(url).pathname;
+    baseName = decodeURIComponent(pathname.slice(pathname.lastIndexOf("/") + 1));
+  } catch {
+    // Fall through to the generic name below
+  }
+
+  baseName = baseName.replace(/[^A-Za-z0-9._-]/g, "_").replace(/^\.+/, "");
+  if (!baseName) {
+    baseName = "image";
+  }
+
+  const subtype = /^image\/([a-z0-9.+-]+)/i.exec(contentType ?? "")?.[1]?.toLowerCase();
+  if (subtype && !baseName.includes(".")) {
+    baseName += `.${subtype.replace(/^jpeg$/, "jpg").replace(/\+xml$/, "")}`;
+  }
+
+  const dotIndex = baseName.lastIndexOf(".");
+  const stem = dotIndex > 0 ? baseName.slice(0, dotIndex) : baseName;
+  const extension = dotIndex > 0 ? baseName.slice(dotIndex) : "";
+
+  let name = baseName;
+  for (let i = 1; usedNames.has(name); i++) {
+    name = `${stem}-${i}${extension}`;
+  }
+
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * Downloads remote images in content into a local directory.
+ * Returns the content with remote URLs replaced by relative paths.
+ *
+ * @param targetDir - Directory to write images into
+ * @param relativeDir - Path prefix used in the rewritten references
+ * @param overwrite - Replace images that already exist in targetDir instead of failing
+ */
+export async function downloadRemoteImages(
+  content: string,
+  featuredImage: string | undefined,
+  targetDir: string,
+  relativeDir = ".",
+  overwrite = false,
+): Promise<{ content: string; featuredImage: string | undefined }> {
+  const imageRefs = parseRemoteImageReferences(content);
+  let processedContent = content;
+
+  // Collect all unique remote URLs to download
+  const urlsToDownload = new Map<string, string>(); // URL -> relative path
+  for (const ref of imageRefs) {
+    urlsToDownload.set(ref.path, "");
+  }
+  if (featuredImage && !isLocalPath(featuredImage)) {
+    urlsToDownload.set(featuredImage, "");
+  }
+
+  if (urlsToDownload.size === 0) {
+    return { content, featuredImage };
+  }
+
+  console.log(`Found ${urlsToDownload.size} image(s) to download...`);
+
+  await mkdir(targetDir, { recursive: true });
+
+  const usedNames = new Set<string>();
+  for (const [url] of urlsToDownload) {
+    console.log(`  Downloading: ${url}`);
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new DownloadError(url, response.status);
+    }
+
+    const contentType = response.headers.get("Content-Type") ?? undefined;
+    const fileName = getImageFileName(url, usedNames, contentType);
+    const filePath = `${targetDir}/${fileName}`;
+    if (!overwrite && (await Bun.file(filePath).exists())) {
+      throw new Error(`File already exists: ${filePath}. Use --force to overwrite.`);
+    }
+    await Bun.write(filePath, response);
+
+    const relativePath = `${relativeDir}/${fileName}`;
+    urlsToDownload.set(url, relativePath);
+    console.log(`  -> ${relativePath}`);
+  }
+
+  // Replace URLs in content
+  for (const ref of imageRefs) {
+    const localPath = urlsToDownload.get(ref.path);
+    if (localPath) {
+      const newRef = ref.original.replace(ref.path, localPath);
+      processedContent = processedContent.replace(ref.original, newRef);
+    }
+  }
+
+  return {
+    content: processedContent,
+    featuredImage:
+      featuredImage && !isLocalPath(featuredImage)
+        ? urlsToDownload.get(featuredImage)
+        : featuredImage,
+  };
+}
+
+/**
+ * Parses a positive integer option value.
+ */
+export function parsePositiveInt(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid ${name}: ${value}. Expected a positive integer.`);
+  }
+  return parsed;
+}
+
+/**
+ * Truncates a string to a maximum length, adding an ellipsis if needed.
+ */
+export function truncate(value: string, maxLength: number): string {
+  if (value.length <= maxLength) {
+    return value;
+  }
+  return `${value.slice(0, Math.max(0, maxLength - 1))}…`;
+}
+
+/**
+ * Formats a list of posts as a plain-text table.
+ */
+export function formatPostsTable(posts: Post[]): string {
+  const headers = ["SLUG", "TITLE", "AUTHOR", "TAGS", "UPDATED"];
+  const rows = posts.map((post) => [
+    post.slug,
+    truncate(post.title, 40),
+    truncate(post.author, 20),
+    truncate((post.tags ?? []).join(", "), 30),
+    (post.updated_at ?? post.created_at ?? "").slice(0, 10),
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i]!.length)),
+  );
+
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]!))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
@@ -0,0 +1,208 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateSecretKey } from "nostr-tools/pure";
+import { createSignFunction } from "./crypto";
+import { FileNotFoundError } from "./errors";
+import { createMockClient } from "./mock-client.test-helper";
+import { createUploadCache } from "./upload-cache";
+import { type PostSnapshot } from "./types";
+import {
+  buildChangesPayload,
+  describeChanges,
+  diffSnapshots,
+  getWatchedPaths,
+  hasChanges,
+  readPostSnapshot,
+  watchPost,
+} from "./watch";
+
+const sign = createSignFunction(generateSecretKey());
+
+const snapshot: PostSnapshot = {
+  frontmatter: { slug: "hello", title: "Hello", author: "Alice", tags: ["a"] },
+  content: "Hi ![pic](./pic.png)",
+  images: { "./pic.png": "hash1" },
+};
+
+/**
+ * Waits until a condition holds, failing after a timeout.
+ */
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await Bun.sleep(20);
+  }
+}
+
+describe("diffSnapshots", () => {
+  test("finds no changes in identical snapshots", () => {
+    const changes = diffSnapshots(snapshot, structuredClone(snapshot));
+
+    expect(changes).toEqual({ fields: [], content: false, images: [] });
+    expect(hasChanges(changes)).toBe(false);
+  });
+
+  test("lists changed and removed frontmatter fields", () => {
+    const next = structuredClone(snapshot);
+    next.frontmatter.title = "Hello again";
+    next.frontmatter.tags = ["a", "b"];
+    next.frontmatter.excerpt = "New";
+
+    expect(diffSnapshots(snapshot, next).fields).toEqual(["title", "excerpt", "tags"]);
+    expect(diffSnapshots(next, snapshot).fields).toEqual(["title", "excerpt", "tags"]);
+  });
+
+  test("marks the content changed when only a referenced image changed", () => {
+    const next = structuredClone(snapshot);
+    next.images["./pic.png"] = "hash2";
+
+    const changes = diffSnapshots(snapshot, next);
+    expect(changes).toEqual({ fields: [], content: true, images: ["./pic.png"] });
+    expect(describeChanges(changes)).toBe("content, 1 image");
+  });
+
+  test("marks the featured image changed when its file changed", () => {
+    const before: PostSnapshot = {
+      ...snapshot,
+      frontmatter: { ...snapshot.frontmatter, featured_image: "./cover.png" },
+      images: { ...snapshot.images, "./cover.png": "c1" },
+    };
+    const after = structuredClone(before);
+    after.images["./cover.png"] = "c2";
+
+    expect(diffSnapshots(before, after)).toEqual({
+      fields: ["featured_image"],
+      content: false,
+      images: ["./cover.png"],
+    });
+  });
+});
+
+describe("with a temporary directory", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "my2sats-watch-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("readPostSnapshot hashes referenced images and marks missing ones", async () => {
+    const file = join(tempDir, "post.md");
+    await Bun.write(file, "---\ntitle: Hi\n---\n\n![a](./a.png) ![b](./b.png)");
+    await Bun.write(join(tempDir, "a.png"), "image");
+
+    const result = await readPostSnapshot(file);
+
+    expect(result.frontmatter).toEqual({ title: "Hi" });
+    expect(result.images["./a.png"]).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.images["./b.png"]).toBe("");
+    expect(getWatchedPaths(file, result)).toEqual([
+      file,
+      `${tempDir}/./a.png`,
+      `${tempDir}/./b.png`,
+    ]);
+  });
+
+  test("readPostSnapshot fails for a missing file", async () => {
+    await expect(readPostSnapshot(join(tempDir, "nope.md"))).rejects.toThrow(FileNotFoundError);
+  });
+
+  test("buildChangesPayload sends only changed fields and uploads only changed images", async () => {
+    await Bun.write(join(tempDir, "a.png"), "one");
+    await Bun.write(join(tempDir, "b.png"), "two");
+    const { client, requests } = await createMockClient(sign);
+    const imageOptions = { useCache: false, sessionCache: createUploadCache() };
+
+    const markdown = (title: string) =>
+      `---\ntitle: ${title}\nexcerpt: Short\n---\n\n![a](./a.png) ![b](./b.png)`;
+    await Bun.write(join(tempDir, "post.md"), markdown("One"));
+    const first = await readPostSnapshot(join(tempDir, "post.md"));
+    const initial = await buildChangesPayload(
+      first,
+      diffSnapshots({ frontmatter: {}, content: "", images: {} }, first),
+      tempDir,
+      client,
+      imageOptions,
+    );
+    expect(Object.keys(initial).sort()).toEqual(["content", "excerpt", "title"]);
+    expect(requests.filter((r) => r.path === "/api/uploads")).toHaveLength(2);
+
+    // A new title, no excerpt and a changed image
+    await Bun.write(join(tempDir, "post.md"), markdown("Two").replace("excerpt: Short\n", ""));
+    await Bun.write(join(tempDir, "b.png"), "three");
+    const second = await readPostSnapshot(join(tempDir, "post.md"));
+    const payload = await buildChangesPayload(
+      second,
+      diffSnapshots(first, second),
+      tempDir,
+      client,
+      imageOptions,
+    );
+
+    expect(payload.title).toBe("Two");
+    expect(payload.excerpt).toBe("");
+    expect(payload.content).toMatch(/^!\[a\]\(http:\/\/api\/uploads\/.+\) !\[b\]\(http:\/\/api\/uploads\/.+\)$/);
+    expect(requests.filter((r) => r.path === "/api/uploads")).toHaveLength(3);
+  });
+
+  test("buildChangesPayload keeps derived fields up to date with auto fields", async () => {
+    const { client } = await createMockClient(sign);
+    const next: PostSnapshot = { ...snapshot, content: "New words here", images: {} };
+
+    const payload = await buildChangesPayload(
+      next,
+      diffSnapshots(snapshot, next),
+      tempDir,
+      client,
+      {},
+      true,
+    );
+
+    expect(payload).toEqual({
+      content: "New words here",
+      excerpt: "New words here",
+      word_count: 3,
+      reading_time: 1,
+    });
+  });
+
+    test("watchPost updates the post when the file changes", async () => {
+    const file = join(tempDir, "post.md");
+    await Bun.write(file, "---\nslug: hello\ntitle: Hello\nauthor: Alice\n---\n\nHi");
+    const { client, requests } = await createMockClient(sign);
+    await client.createPost({ slug: "hello", title: "Hello", author: "Alice", content: "Hi" });
+
+    const controller = new AbortController();
+    const watching = watchPost({
+      filePath: file,
+      slug: "hello",
+      snapshot: await readPostSnapshot(file),
+      client,
+      imageOptions: { useCache: false },
+      debounce: 50,
+      signal: controller.signal,
+    });
+
+    // Give the watcher a moment to start before changing the file
+    await Bun.sleep(100);
+    await Bun.write(file, "---\nslug: hello\ntitle: Hello there\nauthor: Alice\n---\n\nHi");
+    await waitFor(() => requests.some((r) => r.method === "PUT"));
+
+    controller.abort();
+    expect(await watching).toBe(1);
+
+    const update = requests.find((r) => r.method === "PUT");
+    expect(update).toEqual({
+      method: "PUT",
+      path: "/api/posts/hello",
+      body: { title: "Hello there" },
+    });
+    expect((await client.getPost("hello")).title).toBe("Hello there");
+  });
+});
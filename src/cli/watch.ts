@@ -0,0 +1,345 @@
+/**
+ * Watch mode: republishing a post while it is being edited. Each save is
+ * compared with the last published version, so only the fields that changed
+ * are sent and only new or changed images are uploaded.
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { type My2satsClient } from "./api-client";
+import { buildExcerpt, getContentStats } from "./auto-fields";
+import { config } from "./config";
+import { FileNotFoundError, formatError } from "./errors";
+import { lintBeforePublish } from "./lint";
+import { hashFile } from "./upload-cache";
+import {
+  type PostChanges,
+  type PostFrontmatter,
+  type LintOptions,
+  type PostSnapshot,
+  type ProcessImagesOptions,
+  type UpdatePayload,
+} from "./types";
+import {
+  collectLocalImagePaths,
+  getBasePath,
+  parseFrontmatter,
+  parseImageReferences,
+  processImages,
+} from "./utils";
+
+/** How long to wait after the last change before republishing, in milliseconds */
+export const DEFAULT_WATCH_DEBOUNCE = 300;
+
+/** Frontmatter fields sent as they are; featured_image is uploaded first */
+const PLAIN_FIELDS = ["slug", "title", "author", "excerpt", "tags"] as const;
+
+/**
+ * Resolves an image path relative to the markdown file's directory.
+ */
+export function resolveImagePath(path: string, basePath: string): string {
+  return path.startsWith("/") ? path : `${basePath}/${path}`;
+}
+
+/**
+ * Reads a markdown post and hashes the local images it references.
+ *
+ * @throws {FileNotFoundError} If the markdown file doesn't exist
+ * @throws {FrontmatterError} If the frontmatter is malformed
+ */
+export async function readPostSnapshot(filePath: string): Promise<PostSnapshot> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new FileNotFoundError(filePath);
+  }
+
+  const { frontmatter, content } = parseFrontmatter(await file.text());
+  return createPostSnapshot(frontmatter, content, getBasePath(filePath));
+}
+
+/**
+ * Creates a snapshot of a parsed post, hashing the local images it references.
+ */
+export async function createPostSnapshot(
+  frontmatter: PostFrontmatter,
+  content: string,
+  basePath: string,
+): Promise<PostSnapshot> {
+  const images: Record<string, string> = {};
+  for (const path of collectLocalImagePaths(content, frontmatter.featured_image)) {
+    const image = Bun.file(resolveImagePath(path, basePath));
+    images[path] = (await image.exists()) ? await hashFile(image) : "";
+  }
+
+  return { frontmatter, content, images };
+}
+
+/**
+ * Returns the files to watch for a post: the markdown file and its local images.
+ */
+export function getWatchedPaths(filePath: string, snapshot: PostSnapshot): string[] {
+  const basePath = getBasePath(filePath);
+  return [filePath, ...Object.keys(snapshot.images).map((path) => resolveImagePath(path, basePath))];
+}
+
+/**
+ * Compares two snapshots of a post.
+ */
+export function diffSnapshots(previous: PostSnapshot, next: PostSnapshot): PostChanges {
+  const images = Object.keys(next.images).filter(
+    (path) => next.images[path] !== previous.images[path],
+  );
+
+  const fields: (keyof PostFrontmatter)[] = PLAIN_FIELDS.filter(
+    (field) => JSON.stringify(previous.frontmatter[field]) !== JSON.stringify(next.frontmatter[field]),
+  );
+
+  const featuredImage = next.frontmatter.featured_image;
+  if (
+    featuredImage !== previous.frontmatter.featured_image ||
+    (featuredImage !== undefined && images.includes(featuredImage))
+  ) {
+    fields.push("featured_image");
+  }
+
+  const content =
+    next.content !== previous.content ||
+    parseImageReferences(next.content).some((ref) => images.includes(ref.path));
+
+  return { fields, content, images };
+}
+
+/**
+ * Whether anything changed between two snapshots.
+ */
+export function hasChanges(changes: PostChanges): boolean {
+  return changes.fields.length > 0 || changes.content;
+}
+
+/**
+ * Describes changes for display, e.g. "title, content, 1 image".
+ */
+export function describeChanges(changes: PostChanges): string {
+  const parts: string[] = [...changes.fields];
+  if (changes.content) parts.push("content");
+  if (changes.images.length > 0) {
+    parts.push(`${changes.images.length} image${changes.images.length === 1 ? "" : "s"}`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Builds an update payload with only the changed parts of a post, uploading
+ * the images they reference. Removed optional fields are cleared; removed
+ * required fields (slug, title, author) are left as they are on the server.
+ *
+ * @param autoFields - Derive the excerpt from the content while the frontmatter
+ *                     has none, and send the word count and reading time with it
+ */
+export async function buildChangesPayload(
+  snapshot: PostSnapshot,
+  changes: PostChanges,
+  basePath: string,
+  client: My2satsClient,
+  imageOptions: ProcessImagesOptions = {},
+  autoFields = false,
+): Promise<UpdatePayload> {
+  const { frontmatter } = snapshot;
+  const payload: UpdatePayload = {};
+
+  for (const field of PLAIN_FIELDS) {
+    if (!changes.fields.includes(field)) continue;
+
+    if (field === "tags") {
+      payload.tags = frontmatter.tags ?? [];
+    } else if (field === "excerpt") {
+      payload.excerpt = frontmatter.excerpt ?? "";
+    } else if (frontmatter[field]) {
+      payload[field] = frontmatter[field];
+    }
+  }
+
+  const featuredImageChanged = changes.fields.includes("featured_image");
+  if (changes.content || (featuredImageChanged && frontmatter.featured_image)) {
+    const { content, featuredImageUrl } = await processImages(
+      changes.content ? snapshot.content : "",
+      featuredImageChanged ? frontmatter.featured_image : undefined,
+      basePath,
+      client,
+      imageOptions,
+    );
+    if (changes.content) payload.content = content;
+    if (featuredImageChanged) payload.featured_image = featuredImageUrl;
+  } else if (featuredImageChanged) {
+    payload.featured_image = "";
+  }
+
+  if (autoFields && changes.content) {
+    Object.assign(payload, getContentStats(snapshot.content));
+  }
+  const excerptChanged = changes.fields.includes("excerpt") || changes.content;
+  if (autoFields && excerptChanged && !frontmatter.excerpt?.trim()) {
+    payload.excerpt = buildExcerpt(snapshot.content, config.excerptLength);
+  }
+
+  return payload;
+}
+
+/**
+ * A running watch over a set of files.
+ */
+export interface FileWatcher {
+  /** Replaces the set of watched files */
+  setPaths(paths: string[]): void;
+  close(): void;
+}
+
+/**
+ * Watches files and calls `onChange` once they have been quiet for `debounce` ms.
+ * The parent directories are watched rather than the files, so editors that
+ * save by replacing the file are noticed too.
+ */
+export function watchFiles(
+  paths: string[],
+  onChange: () => void,
+  debounce: number = DEFAULT_WATCH_DEBOUNCE,
+): FileWatcher {
+  const watchers = new Map<string, FSWatcher>();
+  let watched = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const trigger = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounce);
+  };
+
+  const setPaths = (paths: string[]) => {
+    watched = new Set(paths.map((path) => resolve(path)));
+    const dirs = new Set([...watched].map((path) => dirname(path)));
+
+    for (const [dir, watcher] of watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        const watcher = watch(dir, (_event, filename) => {
+          if (filename && watched.has(resolve(dir, filename))) trigger();
+        });
+        watchers.set(dir, watcher);
+      } catch {
+        // A directory that doesn't exist yet; its missing image is reported on publish
+      }
+    }
+  };
+
+  setPaths(paths);
+
+  return {
+    setPaths,
+    close: () => {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/**
+ * Returns a signal that is aborted on Ctrl+C or SIGTERM, for ending watch mode.
+ */
+export function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  process.once("SIGINT", abort);
+  process.once("SIGTERM", abort);
+  return controller.signal;
+}
+
+/**
+ * Options for watching a published post.
+ */
+export interface WatchPostOptions {
+  filePath: string;
+  /** Slug of the published post */
+  slug: string;
+  /** The post as last published */
+  snapshot: PostSnapshot;
+  client: My2satsClient;
+  imageOptions?: ProcessImagesOptions;
+  debounce?: number;
+  /** Keep the derived excerpt, word count and reading time up to date */
+  autoFields?: boolean;
+  /** Lint each save first with these options, skipping saves with errors */
+  lint?: LintOptions;
+  /** Stops watching when aborted */
+  signal: AbortSignal;
+}
+
+/**
+ * Republishes a post whenever its markdown file or images change, until
+ * `signal` is aborted. Failed updates are reported and watching continues,
+ * so a typo in the frontmatter doesn't end the session.
+ *
+ * @returns The number of updates sent
+ */
+export async function watchPost(options: WatchPostOptions): Promise<number> {
+  const { filePath, client } = options;
+  const basePath = getBasePath(filePath);
+  let { slug, snapshot: published } = options;
+  let updates = 0;
+  let publishing = Promise.resolve();
+
+  const republish = async () => {
+    try {
+      const next = await readPostSnapshot(filePath);
+      watcher.setPaths(getWatchedPaths(filePath, next));
+
+      const changes = diffSnapshots(published, next);
+      if (!hasChanges(changes)) return;
+
+      console.log(`Changed: ${describeChanges(changes)}`);
+      if (options.lint) {
+        await lintBeforePublish(filePath, options.lint);
+      }
+      const payload = await buildChangesPayload(
+        next,
+        changes,
+        basePath,
+        client,
+        options.imageOptions,
+        options.autoFields,
+      );
+      const result = await client.updatePost(slug, payload);
+
+      published = next;
+      slug = result.slug;
+      updates++;
+      console.log(`Updated ${result.slug} at ${new Date().toLocaleTimeString()}`);
+    } catch (error) {
+      console.error(`Error: ${formatError(error)}`);
+    }
+  };
+
+  // Updates run one at a time, each with the file as it is when it starts
+  const watcher = watchFiles(
+    getWatchedPaths(filePath, published),
+    () => (publishing = publishing.then(republish)),
+    options.debounce,
+  );
+
+  console.log(`Watching ${filePath} for changes (Ctrl+C to stop)...`);
+
+  await new Promise<void>((done) => {
+    if (options.signal.aborted) done();
+    options.signal.addEventListener("abort", () => done(), { once: true });
+  });
+  watcher.close();
+  await publishing;
+
+  return updates;
+}